@@ -0,0 +1,151 @@
+import { parseArgs } from 'util';
+import { DEFAULT_COMPACT_THRESHOLD } from './storage/json-file.js';
+import type { StorageKind } from './storage/types.js';
+
+export interface StorageConfig {
+  backend: StorageKind;
+  path: string;
+  // Journal entries after which the json backend compacts into a new snapshot
+  journalCompactThreshold: number;
+}
+
+const STORAGE_KINDS: readonly StorageKind[] = ['memory', 'json', 'sqlite'];
+
+const DEFAULT_STORAGE_PATHS: Record<StorageKind, string> = {
+  memory: '',
+  json: 'data/task-manager.json',
+  sqlite: 'data/task-manager.sqlite',
+};
+
+// Read storage settings from the environment
+// TASK_MANAGER_STORAGE selects the backend (memory, json or sqlite; memory by default)
+// TASK_MANAGER_DATA_PATH overrides the file used by the json and sqlite backends
+// TASK_MANAGER_JOURNAL_COMPACT_THRESHOLD sets how often the json backend compacts its journal
+export function loadStorageConfig(env: NodeJS.ProcessEnv = process.env): StorageConfig {
+  const backend = env.TASK_MANAGER_STORAGE ?? 'memory';
+  if (!isStorageKind(backend)) {
+    throw new Error(
+      `Unknown storage backend "${backend}". Expected one of: ${STORAGE_KINDS.join(', ')}`
+    );
+  }
+
+  const threshold = env.TASK_MANAGER_JOURNAL_COMPACT_THRESHOLD;
+  const journalCompactThreshold = threshold ? Number(threshold) : DEFAULT_COMPACT_THRESHOLD;
+  if (!Number.isInteger(journalCompactThreshold) || journalCompactThreshold < 1) {
+    throw new Error(
+      `Invalid journal compaction threshold "${threshold ?? ''}". Expected a positive integer`
+    );
+  }
+
+  return {
+    backend,
+    path: env.TASK_MANAGER_DATA_PATH ?? DEFAULT_STORAGE_PATHS[backend],
+    journalCompactThreshold,
+  };
+}
+
+function isStorageKind(value: string): value is StorageKind {
+  return (STORAGE_KINDS as readonly string[]).includes(value);
+}
+
+export interface SessionConfig {
+  // ID of the user tool calls are made on behalf of, when known
+  actor: string | null;
+  // Whether sessions without an acting user may call every tool rather than only read
+  unrestricted: boolean;
+}
+
+// Read session settings from the environment
+// TASK_MANAGER_ACTOR is the ID of the user the stdio session acts for
+// TASK_MANAGER_UNRESTRICTED=true lifts the restrictions on sessions without an acting user
+export function loadSessionConfig(env: NodeJS.ProcessEnv = process.env): SessionConfig {
+  return {
+    actor: env.TASK_MANAGER_ACTOR || null,
+    unrestricted: env.TASK_MANAGER_UNRESTRICTED === 'true',
+  };
+}
+
+export type TransportKind = 'stdio' | 'http' | 'sse';
+
+export interface ServerConfig {
+  transport: TransportKind;
+  // Where the http and sse transports listen
+  host: string;
+  port: number;
+  // Bearer tokens accepted over http and sse, mapped to the ID of the user each one acts for
+  authTokens: Map<string, string>;
+  // Milliseconds between keep-alive pings on sse event streams
+  keepAliveInterval: number;
+}
+
+const TRANSPORT_KINDS: readonly TransportKind[] = ['stdio', 'http', 'sse'];
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3000;
+const DEFAULT_KEEP_ALIVE_INTERVAL = 15000;
+
+// Read transport settings from the command line and the environment, the command line winning
+// --transport or TASK_MANAGER_TRANSPORT selects stdio, http or sse (stdio by default)
+// --host/--port or TASK_MANAGER_HOST/TASK_MANAGER_PORT set where http and sse listen
+// TASK_MANAGER_AUTH_TOKENS lists "token=user-id" pairs, separated by commas; when set,
+// http and sse requests must carry one of the tokens and act for its user
+// TASK_MANAGER_KEEP_ALIVE_INTERVAL sets how often sse streams are pinged, in milliseconds
+export function loadServerConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  args: string[] = process.argv.slice(2)
+): ServerConfig {
+  const { values } = parseArgs({
+    args,
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+    },
+  });
+
+  const transport = values.transport ?? env.TASK_MANAGER_TRANSPORT ?? 'stdio';
+  if (!isTransportKind(transport)) {
+    throw new Error(
+      `Unknown transport "${transport}". Expected one of: ${TRANSPORT_KINDS.join(', ')}`
+    );
+  }
+
+  const port = Number(values.port ?? env.TASK_MANAGER_PORT ?? DEFAULT_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${values.port ?? env.TASK_MANAGER_PORT ?? ''}"`);
+  }
+
+  const interval = env.TASK_MANAGER_KEEP_ALIVE_INTERVAL;
+  const keepAliveInterval = interval ? Number(interval) : DEFAULT_KEEP_ALIVE_INTERVAL;
+  if (!Number.isInteger(keepAliveInterval) || keepAliveInterval < 1) {
+    throw new Error(`Invalid keep-alive interval "${interval ?? ''}". Expected a positive integer`);
+  }
+
+  return {
+    transport,
+    host: values.host ?? env.TASK_MANAGER_HOST ?? DEFAULT_HOST,
+    port,
+    authTokens: parseAuthTokens(env.TASK_MANAGER_AUTH_TOKENS ?? ''),
+    keepAliveInterval,
+  };
+}
+
+function parseAuthTokens(value: string): Map<string, string> {
+  const tokens = new Map<string, string>();
+  value
+    .split(',')
+    .map(pair => pair.trim())
+    .filter(pair => pair !== '')
+    .forEach(pair => {
+      const [token = '', userId = ''] = pair.split('=');
+      if (!token || !userId) {
+        throw new Error(`Invalid auth token entry "${pair}". Expected "token=user-id"`);
+      }
+      tokens.set(token, userId);
+    });
+  return tokens;
+}
+
+function isTransportKind(value: string): value is TransportKind {
+  return (TRANSPORT_KINDS as readonly string[]).includes(value);
+}
@@ -1,5 +1,24 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { db } from './database.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { db, InMemoryDatabase } from './database.js';
+import { MemoryStorage } from './storage/index.js';
+import type { AuditEntry, Revision, Task, Workflow } from './types.js';
+import {
+  AttributionError,
+  DependencyCycleError,
+  InvalidPolicyError,
+  InvalidRangeError,
+  InvalidSprintError,
+  InvalidStatusError,
+  InvalidWorkflowError,
+  QueryParseError,
+  ReferenceNotFoundError,
+  RestrictViolationError,
+  RevertConflictError,
+  TaskBlockedError,
+  TaskCycleError,
+  TransactionClosedError,
+  TransactionConflictError,
+} from './errors.js';
 
 describe('InMemoryDatabase', () => {
   beforeEach(() => {
@@ -100,6 +119,15 @@ describe('InMemoryDatabase', () => {
       const ownerProjects = db.getProjectsByOwner(user.id);
       expect(ownerProjects.some(p => p.id === project.id)).toBe(true);
     });
+
+    it('should count owners and assignees as project members', () => {
+      const store = new InMemoryDatabase();
+      expect(store.isProjectMember('project-1', 'user-1')).toBe(true);
+      expect(store.isProjectMember('project-1', 'user-2')).toBe(true);
+
+      store.updateTask('task-2', { assigneeId: null });
+      expect(store.isProjectMember('project-1', 'user-2')).toBe(false);
+    });
   });
 
   describe('Task operations', () => {
@@ -190,6 +218,976 @@ describe('InMemoryDatabase', () => {
     });
   });
 
+  describe('Task queries', () => {
+    let store: InMemoryDatabase;
+    let backlog: string;
+
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+      // Unassigned, undated and carrying tags of both seed tasks
+      backlog = store.createTask({
+        title: 'Backlog item',
+        description: '',
+        projectId: 'project-1',
+        assigneeId: null,
+        status: 'todo',
+        priority: 'low',
+        dueDate: null,
+        tags: ['tag-1', 'tag-2'],
+      }).id;
+    });
+
+    const ids = (tasks: Array<{ id: string }>) => tasks.map(task => task.id);
+
+    it('should return every task in creation order without criteria', () => {
+      expect(ids(store.queryTasks())).toEqual(['task-1', 'task-2', backlog]);
+    });
+
+    it('should combine criteria', () => {
+      expect(ids(store.queryTasks({ status: ['todo'], priority: ['urgent', 'low'] }))).toEqual([
+        'task-2',
+        backlog,
+      ]);
+      expect(ids(store.queryTasks({ projectId: 'project-1', assigneeId: 'user-2' }))).toEqual([
+        'task-2',
+      ]);
+      expect(ids(store.queryTasks({ assigneeId: null }))).toEqual([backlog]);
+    });
+
+    it('should match any or all of the given tags', () => {
+      expect(ids(store.queryTasks({ tagsAny: ['tag-1', 'tag-3'] }))).toEqual([
+        'task-1',
+        'task-2',
+        backlog,
+      ]);
+      expect(ids(store.queryTasks({ tagsAll: ['tag-1', 'tag-2'] }))).toEqual([backlog]);
+    });
+
+    it('should leave tasks without a due date out of a due date range', () => {
+      const dueDate = { from: new Date('2024-01-25') };
+      expect(ids(store.queryTasks({ dueDate }))).toEqual(['task-1']);
+      expect(ids(store.queryTasks({ dueDate: { to: new Date('2024-12-31') } }))).toEqual([
+        'task-1',
+        'task-2',
+      ]);
+    });
+
+    it('should sort by several keys with undated tasks last', () => {
+      const byStatus = store.queryTasks({
+        sort: [
+          { field: 'status', direction: 'asc' },
+          { field: 'priority', direction: 'desc' },
+        ],
+      });
+      expect(ids(byStatus)).toEqual(['task-2', backlog, 'task-1']);
+
+      const byDueDate = store.queryTasks({ sort: [{ field: 'dueDate', direction: 'desc' }] });
+      expect(ids(byDueDate)).toEqual(['task-1', 'task-2', backlog]);
+    });
+  });
+
+  describe('Task search', () => {
+    let store: InMemoryDatabase;
+
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+    });
+
+    const search = (query: string) => store.searchTasks(query).map(task => task.id);
+
+    it('should match field terms, comparisons and alternatives', () => {
+      expect(search('status:in-progress')).toEqual(['task-1']);
+      expect(search('status:todo,in-progress')).toEqual(['task-1', 'task-2']);
+      expect(search('priority:>=high')).toEqual(['task-1', 'task-2']);
+      expect(search('priority:>high')).toEqual(['task-2']);
+      expect(search('status:<review priority:<urgent')).toEqual(['task-1']);
+    });
+
+    it('should resolve users, tags and projects by name', () => {
+      expect(search('assignee:@alice')).toEqual(['task-1']);
+      expect(search('assignee:bob@example.com')).toEqual(['task-2']);
+      expect(search('assignee:none')).toEqual([]);
+      expect(store.runAs('user-2', () => search('assignee:@me'))).toEqual(['task-2']);
+      expect(search('tag:backend')).toEqual(['task-2']);
+      expect(search('tag:frontend tag:bug')).toEqual([]);
+      expect(search('project:"web application" tag:frontend,bug')).toEqual(['task-1', 'task-2']);
+    });
+
+    it('should compare dates, with a bare day covering the whole day', () => {
+      expect(search('due:<2024-02-01')).toEqual(['task-2']);
+      expect(search('due:2024-02-01')).toEqual(['task-1']);
+      expect(search('due:<=2024-01-20 due:>=2024-01-20')).toEqual(['task-2']);
+      expect(search('created:>2024-01-01')).toEqual(['task-1', 'task-2']);
+    });
+
+    it('should match words and quoted phrases in the title or description', () => {
+      expect(search('"login bug"')).toEqual(['task-2']);
+      expect(search('LOGIN status:todo')).toEqual(['task-2']);
+      expect(search('bug login status:done')).toEqual([]);
+    });
+
+    it('should point at the token that does not parse', () => {
+      expect(() => search('status:todo stauts:done')).toThrow(QueryParseError);
+      expect(() => search('status:todo stauts:done')).toThrow(
+        'Invalid query at column 13: unknown field "stauts"; expected one of status, priority, assignee, project, tag, due, created, updated\n' +
+          'status:todo stauts:done\n' +
+          '            ^^^^^^'
+      );
+      expect(() => search('priority:>=hgh')).toThrow(
+        '"hgh" is not a priority; expected one of low, medium, high, urgent'
+      );
+      expect(() => search('assignee:@carol')).toThrow('no user matches "carol"');
+      expect(() => search('tag:<backend')).toThrow('tag cannot be compared with <');
+      expect(() => search('due:soon')).toThrow('"soon" is not a date');
+      expect(() => search('login status: bug')).toThrow(
+        'Invalid query at column 7: missing value for status\nlogin status: bug\n      ^^^^^^^'
+      );
+      expect(() => search('"login bug')).toThrow('Invalid query at column 1: unterminated quote');
+    });
+  });
+
+  describe('Full-text search', () => {
+    let store: InMemoryDatabase;
+
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+    });
+
+    const search = (query: string) =>
+      store.search(query).map(result => `${result.entity}:${result.id}`);
+
+    it('should rank title matches above matches elsewhere', () => {
+      expect(search('design')).toEqual(['task:task-1', 'comment:comment-1']);
+      expect(search('web application')).toEqual(['project:project-1']);
+      expect(search('the of and')).toEqual([]);
+    });
+
+    it('should match other forms of a word', () => {
+      expect(search('logging')).toEqual(['task:task-2']);
+      expect(search('designs')).toEqual(['task:task-1', 'comment:comment-1']);
+      expect(search('applications building')).toEqual(['project:project-1']);
+    });
+
+    it('should highlight matches in a snippet of the best field', () => {
+      const [result] = store.search('dashboard mockups');
+      expect(result).toMatchObject({
+        entity: 'task',
+        id: 'task-1',
+        field: 'description',
+        snippet: 'Create **mockups** for the main **dashboard**',
+      });
+      expect(result?.score).toBeGreaterThan(0);
+      expect(store.search('design', ['comment'])).toMatchObject([
+        { id: 'comment-1', snippet: 'Working on the **design** system first' },
+      ]);
+    });
+
+    it('should trim long fields around the first match', () => {
+      const words = Array.from({ length: 40 }, (_, index) => `word${String(index)}`);
+      words[20] = 'needle';
+      const task = store.createTask({
+        title: 'Haystack',
+        description: words.join(' '),
+        projectId: 'project-1',
+        assigneeId: null,
+        status: 'todo',
+        priority: 'low',
+        tags: [],
+        dueDate: null,
+      });
+      const [result] = store.search('needle');
+      expect(result?.id).toBe(task.id);
+      expect(result?.snippet).toBe(
+        `…${words.slice(12, 20).join(' ')} **needle** ${words.slice(21, 36).join(' ')}…`
+      );
+    });
+
+    it('should follow records as they are created, updated and deleted', () => {
+      expect(search('keyboard')).toEqual([]);
+      store.updateTask('task-2', { description: 'Keyboard shortcuts break login' });
+      expect(search('keyboard')).toEqual(['task:task-2']);
+      expect(search('email')).toEqual([]);
+
+      store.deleteTask('task-1');
+      expect(search('design')).toEqual([]);
+      store.restoreFromTrash('task', 'task-1');
+      expect(search('design')).toEqual(['task:task-1', 'comment:comment-1']);
+
+      const comment = store.createComment({
+        taskId: 'task-2',
+        userId: 'user-2',
+        content: 'Keyboard focus is lost',
+      });
+      // The shorter comment ranks above the task with the same match
+      expect(search('keyboard')).toEqual([`comment:${comment.id}`, 'task:task-2']);
+    });
+  });
+
+  describe('Similar records', () => {
+    let store: InMemoryDatabase;
+
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+    });
+
+    const similar = (entity: 'user' | 'project' | 'task' | 'tag', value: string) =>
+      store.findSimilar(entity, value).map(suggestion => suggestion.id);
+
+    it('should match IDs and names by prefix, ignoring case', () => {
+      // user-2 is one typo away, so it follows the exact match
+      expect(similar('user', 'USER-1')).toEqual(['user-1', 'user-2']);
+      expect(similar('user', 'user')).toEqual(['user-1', 'user-2']);
+      expect(similar('user', 'bob')).toEqual(['user-2']);
+      expect(similar('user', 'johnson')).toEqual(['user-1']);
+      expect(similar('task', 'fix')).toEqual(['task-2']);
+    });
+
+    it('should tolerate a few typos', () => {
+      expect(similar('user', 'Alise')).toEqual(['user-1']);
+      expect(similar('user', 'alice jonhson')).toEqual(['user-1']);
+      expect(similar('tag', 'frontnd')).toEqual(['tag-1']);
+      expect(similar('project', 'projcet-1')).toEqual(['project-1']);
+      expect(similar('tag', 'ui')).toEqual([]);
+      expect(similar('user', 'carol')).toEqual([]);
+    });
+
+    it('should rank closer matches first and label suggestions', () => {
+      expect(store.findSimilar('user', 'user-3')).toEqual([
+        { entity: 'user', id: 'user-1', label: 'Alice Johnson' },
+        { entity: 'user', id: 'user-2', label: 'Bob Smith' },
+      ]);
+      expect(similar('tag', 'bugs')).toEqual(['tag-3']);
+      expect(store.findSimilar('user', 'user-3', 1)).toHaveLength(1);
+    });
+
+    it('should suggest similar records in not-found errors', () => {
+      expect(() =>
+        store.createComment({ taskId: 'task-3', userId: 'user-1', content: 'Hi' })
+      ).toThrow(
+        'Invalid taskId: task "task-3" does not exist; did you mean "task-1" (Design user interface) or "task-2" (Fix login bug)?'
+      );
+      expect(() => store.searchTasks('assignee:alise')).toThrow(
+        'no user matches "alise"; did you mean "user-1" (Alice Johnson)?'
+      );
+    });
+  });
+
+  describe('Subtasks', () => {
+    let store: InMemoryDatabase;
+    let epic: string;
+    let backend: string;
+    let api: string;
+
+    // task-1 is the epic: backend (with api below it) and frontend are its subtasks
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+      const subtask = (title: string, parentTaskId: string, status: Task['status']) =>
+        store.createTask({
+          title,
+          description: '',
+          projectId: 'project-1',
+          assigneeId: null,
+          status,
+          priority: 'medium',
+          dueDate: null,
+          tags: [],
+          parentTaskId,
+        }).id;
+      epic = 'task-1';
+      backend = subtask('Backend', epic, 'in-progress');
+      api = subtask('API', backend, 'done');
+      subtask('Frontend', epic, 'todo');
+    });
+
+    it('should list direct subtasks and the whole subtree depth first', () => {
+      expect(store.getSubtasks(epic).map(task => task.title)).toEqual(['Backend', 'Frontend']);
+      expect(
+        store.getSubtaskTree(epic)?.map(({ task, depth }) => `${String(depth)} ${task.title}`)
+      ).toEqual(['1 Backend', '2 API', '1 Frontend']);
+      expect(store.getSubtaskTree(api)).toEqual([]);
+      expect(store.getSubtaskTree('missing')).toBeNull();
+    });
+
+    it('should roll progress up from the tasks at the bottom', () => {
+      expect(store.getTaskProgress(epic)).toEqual({
+        taskId: epic,
+        subtasks: 3,
+        byStatus: { todo: 1, 'in-progress': 1, review: 0, done: 1 },
+        byCategory: { todo: 1, 'in-progress': 1, done: 1 },
+        percentComplete: 50,
+      });
+      expect(store.getTaskProgress(backend)?.percentComplete).toBe(100);
+      expect(store.getTaskProgress('task-2')).toMatchObject({ subtasks: 0, percentComplete: 0 });
+    });
+
+    it('should refuse a missing parent and a cycle', () => {
+      expect(() => store.updateTask(api, { parentTaskId: 'missing' })).toThrow(
+        ReferenceNotFoundError
+      );
+      expect(() => store.updateTask(epic, { parentTaskId: api })).toThrow(
+        `Invalid parentTaskId: task "${api}" is a subtask of task "${epic}"`
+      );
+      expect(() => store.updateTask(api, { parentTaskId: api })).toThrow(TaskCycleError);
+      expect(store.getTask(epic)?.parentTaskId).toBeNull();
+
+      store.updateTask(api, { parentTaskId: null });
+      expect(store.getSubtaskTree(backend)).toEqual([]);
+    });
+
+    it('should delete subtasks with their parent and restore them together', () => {
+      const plan = store.planTaskDeletion(epic);
+      expect(plan?.deleted.filter(ref => ref.entity === 'task')).toHaveLength(4);
+
+      store.deleteTask(epic);
+      expect(store.getTask(api)).toBeUndefined();
+      store.restoreFromTrash('task', epic);
+      expect(store.getSubtaskTree(epic)).toHaveLength(3);
+    });
+
+    it('should restrict, detach or move subtasks by policy', () => {
+      expect(() => store.deleteTask(epic, { subtasks: { action: 'restrict' } })).toThrow(
+        RestrictViolationError
+      );
+
+      store.deleteTask(backend, { subtasks: { action: 'reassign-to', targetId: epic } });
+      expect(store.getTask(api)?.parentTaskId).toBe(epic);
+
+      store.deleteTask(epic, { subtasks: { action: 'set-null' } });
+      expect(store.getTask(api)?.parentTaskId).toBeNull();
+    });
+
+    it('should not move subtasks below themselves', () => {
+      expect(() =>
+        store.deleteTask(epic, { subtasks: { action: 'reassign-to', targetId: api } })
+      ).toThrow(`cannot target task "${api}", which is below task "${epic}"`);
+    });
+
+    it('should refuse a cycle made by two transactions', () => {
+      const first = store.beginTransaction();
+      const second = store.beginTransaction();
+      first.db.updateTask('task-2', { parentTaskId: api });
+      second.db.updateTask(epic, { parentTaskId: 'task-2' });
+      first.commit();
+      expect(() => {
+        second.commit();
+      }).toThrow(TaskCycleError);
+    });
+  });
+
+  describe('Dependencies', () => {
+    let store: InMemoryDatabase;
+    let schema: string;
+    let api: string;
+    let docs: string;
+
+    // schema blocks api, which blocks docs; task-2 is unrelated
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+      const task = (title: string, blockedBy: string[]) =>
+        store.createTask({
+          title,
+          description: '',
+          projectId: 'project-1',
+          assigneeId: null,
+          status: 'todo',
+          priority: 'medium',
+          dueDate: null,
+          tags: [],
+          blockedBy,
+        }).id;
+      schema = task('Schema', []);
+      api = task('API', [schema]);
+      docs = task('Docs', [api]);
+    });
+
+    it('should refuse a missing blocker and a cycle', () => {
+      expect(() => store.updateTask(api, { blockedBy: ['missing'] })).toThrow(
+        ReferenceNotFoundError
+      );
+      expect(() => store.updateTask(schema, { blockedBy: [docs] })).toThrow(
+        `Invalid blockedBy: task "${schema}" would wait on itself: "${schema}" → "${docs}" → "${api}" → "${schema}"`
+      );
+      expect(() => store.updateTask(schema, { blockedBy: [schema] })).toThrow(DependencyCycleError);
+      expect(store.getTask(schema)?.blockedBy).toEqual([]);
+    });
+
+    it('should not start or finish a task until its blockers are done', () => {
+      expect(() => store.updateTask(api, { status: 'in-progress' })).toThrow(
+        `Cannot move task "${api}" to in-progress while task "${schema}" is not done`
+      );
+      expect(() => store.updateTask(api, { status: 'done' })).toThrow(TaskBlockedError);
+      // review is in the in-progress category, so it counts as starting the task
+      expect(() => store.updateTask(api, { status: 'review' })).toThrow(TaskBlockedError);
+
+      store.updateTask(schema, { status: 'done' });
+      expect(store.updateTask(api, { status: 'in-progress' })?.status).toBe('in-progress');
+    });
+
+    it('should not create a task already started or finished while its blockers are open', () => {
+      const blocked = {
+        title: 'Release',
+        description: '',
+        projectId: 'project-1',
+        assigneeId: null,
+        status: 'in-progress',
+        priority: 'medium' as const,
+        dueDate: null,
+        tags: [],
+        blockedBy: [schema],
+      };
+
+      expect(() => store.createTask(blocked)).toThrow(TaskBlockedError);
+      expect(() => store.createTask({ ...blocked, status: 'done' })).toThrow(
+        `while task "${schema}" is not done`
+      );
+      expect(store.createTask({ ...blocked, status: 'todo' }).status).toBe('todo');
+      expect(store.createTask(blocked, { force: true }).status).toBe('in-progress');
+
+      store.updateTask(schema, { status: 'done' });
+      expect(store.createTask(blocked).status).toBe('in-progress');
+    });
+
+    it('should start a blocked task when forced', () => {
+      const task = store.updateTask(docs, { status: 'in-progress' }, { force: true });
+
+      expect(task?.status).toBe('in-progress');
+    });
+
+    it('should list blocked tasks with their open blockers', () => {
+      store.updateTask(schema, { status: 'done' });
+
+      const blocked = store.getBlockedTasks();
+      expect(blocked.map(({ task, blockers }) => [task.id, blockers.map(b => b.id)])).toEqual([
+        [docs, [api]],
+      ]);
+      expect(store.getBlockedTasks('project-1')).toEqual(blocked);
+      expect(store.getBlockedTasks('missing')).toEqual([]);
+    });
+
+    it('should find the longest chain of open tasks as the critical path', () => {
+      expect(store.getCriticalPath('project-1')?.tasks.map(task => task.id)).toEqual([
+        schema,
+        api,
+        docs,
+      ]);
+
+      store.updateTask(schema, { status: 'done' });
+      expect(store.getCriticalPath('project-1')?.tasks.map(task => task.id)).toEqual([api, docs]);
+      expect(store.getCriticalPath('missing')).toBeNull();
+    });
+
+    it('should drop a deleted task from the tasks it blocks', () => {
+      store.updateTask(docs, { blockedBy: [schema, api] });
+
+      // Tasks deleted along with their blockers need no update
+      const plan = store.planProjectDeletion('project-1');
+      expect(plan?.updated.some(update => update.field === 'blockedBy')).toBe(false);
+
+      store.deleteTask(api);
+      expect(store.getTask(docs)?.blockedBy).toEqual([schema]);
+      expect(store.getDependents(schema).map(task => task.id)).toEqual([docs]);
+    });
+
+    it('should drop every deleted blocker in one update', () => {
+      store.updateTask(docs, { blockedBy: [schema, api] });
+
+      const plan = store.planTaskDeletion(schema, { blockedTasks: { action: 'set-null' } });
+      expect(plan?.updated).toEqual([
+        { entity: 'task', id: api, field: 'blockedBy', from: [schema], to: [] },
+        { entity: 'task', id: docs, field: 'blockedBy', from: [schema, api], to: [api] },
+      ]);
+    });
+
+    it('should refuse to delete a blocker under the restrict policy', () => {
+      expect(() => store.deleteTask(schema, { blockedTasks: { action: 'restrict' } })).toThrow(
+        RestrictViolationError
+      );
+      expect(() => store.deleteTask(schema, { blockedTasks: { action: 'cascade' } })).toThrow(
+        InvalidPolicyError
+      );
+    });
+  });
+
+  describe('Workflows', () => {
+    let store: InMemoryDatabase;
+    let projectId: string;
+
+    // backlog → doing → review → shipped, where review only moves on to shipped
+    const kanban: Workflow = {
+      statuses: [
+        { name: 'backlog', category: 'todo', transitions: null },
+        { name: 'doing', category: 'in-progress', transitions: null },
+        { name: 'review', category: 'in-progress', transitions: ['shipped'] },
+        { name: 'shipped', category: 'done', transitions: [] },
+      ],
+    };
+    const createTask = (status: string, blockedBy: string[] = []) =>
+      store.createTask({
+        title: `A ${status} task`,
+        description: '',
+        projectId,
+        assigneeId: null,
+        status,
+        priority: 'medium',
+        dueDate: null,
+        tags: [],
+        blockedBy,
+      });
+
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+      projectId = store.createProject({
+        name: 'Kanban',
+        description: '',
+        ownerId: 'user-1',
+        status: 'active',
+        workflow: kanban,
+      }).id;
+    });
+
+    it('should give projects the default workflow unless they define one', () => {
+      expect(store.getProject('project-1')?.workflow.statuses.map(s => s.name)).toEqual([
+        'todo',
+        'in-progress',
+        'review',
+        'done',
+      ]);
+      expect(store.getProject(projectId)?.workflow).toEqual(kanban);
+    });
+
+    it('should only accept statuses of the project workflow', () => {
+      expect(() => createTask('todo')).toThrow(
+        'Invalid status: "todo" is not a status of project "' +
+          projectId +
+          '"; expected one of backlog, doing, review, shipped'
+      );
+      const task = createTask('backlog');
+      expect(() => store.updateTask(task.id, { projectId: 'project-1' })).toThrow(
+        InvalidStatusError
+      );
+      expect(store.updateTask(task.id, { projectId: 'project-1', status: 'todo' })?.status).toBe(
+        'todo'
+      );
+    });
+
+    it('should only allow the transitions of the workflow', () => {
+      const task = createTask('review');
+
+      expect(() => store.updateTask(task.id, { status: 'backlog' })).toThrow(
+        `Cannot move task "${task.id}" from review to backlog; review only moves to shipped`
+      );
+      store.updateTask(task.id, { status: 'shipped' });
+      expect(() => store.updateTask(task.id, { status: 'doing' }, { force: true })).toThrow(
+        'shipped is final'
+      );
+    });
+
+    it('should refuse workflows that cannot be used', () => {
+      const create = (workflow: Workflow) =>
+        store.createProject({
+          name: 'Bad',
+          description: '',
+          ownerId: 'user-1',
+          status: 'active',
+          workflow,
+        });
+
+      expect(() =>
+        create({ statuses: [{ name: 'open', category: 'todo', transitions: null }] })
+      ).toThrow('Invalid workflow: a workflow needs a status in the done category');
+      expect(() =>
+        create({
+          statuses: [{ name: 'done', category: 'done', transitions: ['closed'] }],
+        })
+      ).toThrow(InvalidWorkflowError);
+      expect(() =>
+        create({
+          statuses: [
+            { name: 'done', category: 'done', transitions: null },
+            { name: 'done', category: 'todo', transitions: null },
+          ],
+        })
+      ).toThrow('status "done" is defined twice');
+    });
+
+    it('should keep the statuses tasks are in when the workflow changes', () => {
+      const task = createTask('review');
+
+      expect(() =>
+        store.updateProject(projectId, {
+          workflow: { statuses: kanban.statuses.filter(status => status.name !== 'review') },
+        })
+      ).toThrow(`Invalid workflow: status "review" is still used by task "${task.id}"`);
+      store.updateProject(projectId, {
+        workflow: { statuses: kanban.statuses.filter(status => status.name !== 'doing') },
+      });
+      expect(store.getProject(projectId)?.workflow.statuses).toHaveLength(3);
+    });
+
+    it('should treat done-like statuses as done', () => {
+      const blocker = createTask('shipped');
+      const task = createTask('backlog', [blocker.id]);
+
+      expect(store.updateTask(task.id, { status: 'doing' })?.status).toBe('doing');
+      expect(store.getProjectStatistics(projectId)).toMatchObject({
+        completedTasks: 1,
+        inProgressTasks: 1,
+        byCategory: { todo: 0, 'in-progress': 1, done: 1 },
+      });
+      expect(store.getTaskStatistics().byCategory).toEqual({ todo: 1, 'in-progress': 2, done: 1 });
+    });
+
+    it('should sort and compare statuses from not started to done', () => {
+      createTask('shipped');
+      createTask('backlog');
+
+      expect(store.getStatusOrder()).toEqual([
+        'todo',
+        'backlog',
+        'in-progress',
+        'review',
+        'doing',
+        'done',
+        'shipped',
+      ]);
+      expect(
+        store
+          .queryTasks({ projectId, sort: [{ field: 'status', direction: 'asc' }] })
+          .map(task => task.status)
+      ).toEqual(['backlog', 'shipped']);
+      expect(store.searchTasks('status:>=doing').map(task => task.status)).toEqual(['shipped']);
+    });
+  });
+
+  describe('Sprints', () => {
+    let store: InMemoryDatabase;
+
+    const createSprint = (name: string, capacity: number | null = null) =>
+      store.createSprint({
+        projectId: 'project-1',
+        name,
+        goal: '',
+        kind: 'sprint',
+        startDate: new Date('2024-03-01'),
+        endDate: new Date('2024-03-14'),
+        capacity,
+      });
+    const createTask = (status: string, sprintId: string | null = null) =>
+      store.createTask({
+        title: `A ${status} task`,
+        description: '',
+        projectId: 'project-1',
+        assigneeId: null,
+        status,
+        priority: 'medium',
+        dueDate: null,
+        tags: [],
+        sprintId,
+      });
+
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+    });
+
+    it('should create planned sprints of existing projects', () => {
+      const sprint = createSprint('Sprint 1');
+
+      expect(sprint).toMatchObject({ status: 'planned', closedAt: null, capacity: null });
+      expect(store.getSprintsByProject('project-1')).toEqual([sprint]);
+      expect(() =>
+        store.createSprint({ ...sprint, projectId: 'project-404', name: 'Lost' })
+      ).toThrow(ReferenceNotFoundError);
+      expect(() => store.createSprint({ ...sprint, endDate: new Date('2024-02-01') })).toThrow(
+        'Invalid endDate: a sprint cannot end before it starts'
+      );
+    });
+
+    it('should only plan tasks into open sprints of their own project', () => {
+      const sprint = createSprint('Sprint 1');
+      const other = store.createProject({
+        name: 'Other',
+        description: '',
+        ownerId: 'user-1',
+        status: 'active',
+      });
+
+      const task = createTask('todo', sprint.id);
+      expect(store.getSprintTasks(sprint.id)).toEqual([task]);
+      expect(() => store.updateTask(task.id, { projectId: other.id })).toThrow(
+        `Invalid sprintId: sprint "${sprint.id}" belongs to project "project-1", not "${other.id}"`
+      );
+      expect(store.updateTask(task.id, { projectId: other.id, sprintId: null })?.sprintId).toBe(
+        null
+      );
+      expect(() => store.updateTask('task-1', { sprintId: 'sprint-404' })).toThrow(
+        ReferenceNotFoundError
+      );
+
+      store.closeSprint(sprint.id);
+      expect(() => store.updateTask('task-1', { sprintId: sprint.id })).toThrow(
+        `Invalid sprintId: sprint "${sprint.id}" is closed`
+      );
+      expect(() => store.updateSprint(sprint.id, { status: 'active' })).toThrow(InvalidSprintError);
+    });
+
+    it('should keep sprints within their capacity', () => {
+      const sprint = createSprint('Sprint 1', 1);
+
+      expect(() => store.moveTasksToSprint(['task-1', 'task-2'], sprint.id)).toThrow(
+        `Invalid sprintId: sprint "${sprint.id}" is full; it holds at most 1 tasks`
+      );
+      // Either every task moves or none does
+      expect(store.getSprintTasks(sprint.id)).toEqual([]);
+
+      store.moveTasksToSprint(['task-1'], sprint.id);
+      expect(store.updateTask('task-1', { title: 'Still fits' })?.sprintId).toBe(sprint.id);
+      expect(() => store.updateSprint(sprint.id, { capacity: 0 })).toThrow(
+        `Invalid capacity: sprint "${sprint.id}" already holds 1 tasks`
+      );
+      expect(store.updateSprint(sprint.id, { capacity: null })?.capacity).toBe(null);
+    });
+
+    it('should carry unfinished tasks over when a sprint closes', () => {
+      const sprint = createSprint('Sprint 1');
+      const next = createSprint('Sprint 2');
+      const done = createTask('done', sprint.id);
+      const open = createTask('review', sprint.id);
+
+      const closure = store.closeSprint(sprint.id, next.id);
+
+      expect(closure).toMatchObject({
+        sprint: { id: sprint.id, status: 'closed' },
+        completed: [done.id],
+        carriedOver: [open.id],
+        carriedOverTo: next.id,
+      });
+      expect(store.getSprint(sprint.id)?.closedAt).toBeInstanceOf(Date);
+      expect(store.getSprintTasks(sprint.id)).toEqual([store.getTask(done.id)]);
+      expect(store.getTask(open.id)?.sprintId).toBe(next.id);
+      expect(() => store.closeSprint(sprint.id)).toThrow('is already closed');
+
+      // Without a next sprint, unfinished tasks go back to the backlog
+      expect(store.closeSprint(next.id)?.carriedOver).toEqual([open.id]);
+      expect(store.getTask(open.id)?.sprintId).toBe(null);
+      expect(store.closeSprint('sprint-404')).toBe(null);
+    });
+
+    it('should not move tasks into or out of a closed sprint', () => {
+      const sprint = createSprint('Sprint 1');
+      const next = createSprint('Sprint 2');
+      const done = createTask('done', sprint.id);
+      store.closeSprint(sprint.id);
+      const moved = `Invalid sprintId: sprint "${sprint.id}" is closed; its tasks cannot be moved out of it`;
+
+      expect(() => store.updateTask(done.id, { sprintId: null })).toThrow(moved);
+      expect(() => store.updateTask(done.id, { sprintId: next.id })).toThrow(moved);
+      expect(() => store.moveTasksToSprint([done.id], null)).toThrow(moved);
+      expect(() => store.moveTasksToSprint(['task-1'], sprint.id)).toThrow(
+        `Invalid sprintId: sprint "${sprint.id}" is closed`
+      );
+      expect(store.getSprintTasks(sprint.id)).toEqual([store.getTask(done.id)]);
+      // Other changes to its tasks are still allowed
+      expect(store.updateTask(done.id, { title: 'Renamed' })?.sprintId).toBe(sprint.id);
+    });
+
+    it('should not carry tasks over into a sprint that cannot take them', () => {
+      const sprint = createSprint('Sprint 1');
+      const full = createSprint('Full', 0);
+      const task = createTask('todo', sprint.id);
+
+      expect(() => store.closeSprint(sprint.id, sprint.id)).toThrow(
+        'Invalid carryOverTo: a sprint cannot carry tasks over to itself'
+      );
+      expect(() => store.closeSprint(sprint.id, full.id)).toThrow(InvalidSprintError);
+      expect(store.getSprint(sprint.id)?.status).toBe('planned');
+      expect(store.getTask(task.id)?.sprintId).toBe(sprint.id);
+    });
+
+    it('should check where tasks would carry over to even when there are none', () => {
+      const sprint = createSprint('Sprint 1');
+      const closed = createSprint('Closed');
+      store.closeSprint(closed.id);
+      const other = store.createProject({
+        name: 'Other',
+        description: '',
+        ownerId: 'user-1',
+        status: 'active',
+      });
+      const elsewhere = store.createSprint({
+        projectId: other.id,
+        name: 'Elsewhere',
+        goal: '',
+        kind: 'sprint',
+        startDate: new Date('2024-03-01'),
+        endDate: new Date('2024-03-14'),
+        capacity: null,
+      });
+
+      expect(() => store.closeSprint(sprint.id, closed.id)).toThrow(
+        `Invalid carryOverTo: sprint "${closed.id}" is closed`
+      );
+      expect(() => store.closeSprint(sprint.id, elsewhere.id)).toThrow(
+        `Invalid carryOverTo: sprint "${elsewhere.id}" belongs to project "${other.id}", not "project-1"`
+      );
+      expect(() => store.closeSprint(sprint.id, 'sprint-404')).toThrow(ReferenceNotFoundError);
+      expect(store.getSprint(sprint.id)?.status).toBe('planned');
+    });
+
+    it('should move the tasks of a deleted sprint back to the backlog', () => {
+      const sprint = createSprint('Sprint 1');
+      const next = createSprint('Sprint 2');
+      const task = createTask('todo', sprint.id);
+
+      expect(() => store.deleteSprint(sprint.id, { sprintTasks: { action: 'restrict' } })).toThrow(
+        RestrictViolationError
+      );
+      expect(
+        store.planSprintDeletion(sprint.id, {
+          sprintTasks: { action: 'reassign-to', targetId: next.id },
+        })?.updated
+      ).toEqual([{ entity: 'task', id: task.id, field: 'sprintId', from: sprint.id, to: next.id }]);
+
+      store.deleteSprint(sprint.id);
+      expect(store.getSprint(sprint.id)).toBeUndefined();
+      expect(store.getTask(task.id)?.sprintId).toBe(null);
+      expect(store.restoreFromTrash('sprint', sprint.id)).toEqual([
+        { entity: 'sprint', id: sprint.id },
+      ]);
+    });
+
+    it('should delete the sprints of a deleted project with it', () => {
+      const sprint = createSprint('Sprint 1');
+      const task = createTask('todo', sprint.id);
+      const other = store.createProject({
+        name: 'Other',
+        description: '',
+        ownerId: 'user-1',
+        status: 'active',
+      });
+
+      store.deleteProject('project-1', {
+        projectTasks: { action: 'reassign-to', targetId: other.id },
+      });
+      expect(store.getSprint(sprint.id)).toBeUndefined();
+      expect(store.getTask(task.id)).toMatchObject({ projectId: other.id, sprintId: null });
+      expect(store.getTrash('sprint').map(entry => entry.id)).toEqual([sprint.id]);
+    });
+  });
+
+  describe('Reporting', () => {
+    let store: InMemoryDatabase;
+
+    const createTask = (status: string, sprintId: string | null = null) =>
+      store.createTask({
+        title: `A ${status} task`,
+        description: '',
+        projectId: 'project-1',
+        assigneeId: null,
+        status,
+        priority: 'medium',
+        dueDate: null,
+        tags: [],
+        sprintId,
+      });
+    const createSprint = (name: string) =>
+      store.createSprint({
+        projectId: 'project-1',
+        name,
+        goal: '',
+        kind: 'sprint',
+        startDate: new Date('2024-03-01'),
+        endDate: new Date('2024-03-14'),
+        capacity: null,
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-03-01T09:00:00Z'));
+      store = new InMemoryDatabase();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should count remaining and completed tasks at the end of each day', () => {
+      vi.setSystemTime(new Date('2024-03-02T10:00:00Z'));
+      createTask('todo');
+      store.updateTask('task-1', { status: 'done' });
+      vi.setSystemTime(new Date('2024-03-03T10:00:00Z'));
+      store.deleteTask('task-2');
+
+      expect(
+        store.getProjectBurndown('project-1', { from: new Date('2024-03-01') })?.points
+      ).toEqual([
+        { date: '2024-03-01', remaining: 2, completed: 0 },
+        { date: '2024-03-02', remaining: 2, completed: 1 },
+        { date: '2024-03-03', remaining: 1, completed: 1 },
+      ]);
+
+      const lastTwoWeeks = store.getProjectBurndown('project-1');
+      expect(lastTwoWeeks?.points).toHaveLength(14);
+      // The sample tasks were created in January
+      expect(lastTwoWeeks?.points[0]).toEqual({ date: '2024-02-19', remaining: 2, completed: 0 });
+      expect(store.getProjectBurndown('project-404')).toBeNull();
+    });
+
+    it('should chart a sprint from its start up to today', () => {
+      const sprint = createSprint('Sprint 1');
+      store.moveTasksToSprint(['task-1', 'task-2'], sprint.id);
+      vi.setSystemTime(new Date('2024-03-02T10:00:00Z'));
+      store.updateTask('task-2', { status: 'done' });
+      createTask('todo');
+
+      expect(store.getSprintBurndown(sprint.id)).toEqual({
+        projectId: 'project-1',
+        sprintId: sprint.id,
+        points: [
+          { date: '2024-03-01', remaining: 2, completed: 0 },
+          { date: '2024-03-02', remaining: 1, completed: 1 },
+        ],
+      });
+      expect(store.getSprintBurndown('sprint-404')).toBeNull();
+    });
+
+    it('should refuse ranges it cannot cover', () => {
+      expect(() =>
+        store.getProjectBurndown('project-1', {
+          from: new Date('2024-03-01'),
+          to: new Date('2024-02-01'),
+        })
+      ).toThrow(InvalidRangeError);
+      expect(() => store.getProjectBurndown('project-1', { from: new Date('2022-01-01') })).toThrow(
+        'Invalid range: a report covers at most 366 days'
+      );
+    });
+
+    it('should average the tasks done in the last closed sprints', () => {
+      const sprints = ['Sprint 1', 'Sprint 2', 'Sprint 3'].map(name => createSprint(name));
+      sprints.forEach((sprint, index) => {
+        for (let done = 0; done <= index; done++) createTask('done', sprint.id);
+        createTask('todo', sprint.id);
+        vi.setSystemTime(new Date(Date.now() + 86_400_000));
+        store.closeSprint(sprint.id);
+      });
+      createSprint('Sprint 4');
+      // Reopening a task of a closed sprint later leaves its velocity as it was
+      vi.setSystemTime(new Date(Date.now() + 86_400_000));
+      store.getSprintTasks(sprints[2]?.id ?? '').forEach(task => {
+        store.updateTask(task.id, { status: 'todo' });
+      });
+
+      const velocity = store.getVelocity('project-1', 2);
+      expect(velocity?.iterations.map(iteration => iteration.completed)).toEqual([2, 3]);
+      expect(velocity?.iterations.map(iteration => iteration.sprintId)).toEqual(
+        sprints.slice(1).map(sprint => sprint.id)
+      );
+      expect(velocity?.average).toBe(2.5);
+      expect(store.getVelocity('project-1')?.average).toBe(2);
+      expect(store.getVelocity('project-404')).toBeNull();
+    });
+  });
+
   describe('Tag operations', () => {
     it('should create a tag', () => {
       const tag = db.createTag({
@@ -225,6 +1223,668 @@ describe('InMemoryDatabase', () => {
     });
   });
 
+  describe('Referential integrity', () => {
+    const newTask = {
+      title: 'Reference Task',
+      description: 'Test',
+      projectId: 'project-1',
+      assigneeId: null,
+      status: 'todo' as const,
+      priority: 'low' as const,
+      dueDate: null,
+      tags: [],
+    };
+
+    it('should reject a project with a missing owner', () => {
+      expect(() =>
+        db.createProject({
+          name: 'Orphan Project',
+          description: 'Test',
+          ownerId: 'missing-user',
+          status: 'active',
+        })
+      ).toThrow(ReferenceNotFoundError);
+    });
+
+    it('should reject a task with a missing project, assignee or tag', () => {
+      expect(() => db.createTask({ ...newTask, projectId: 'missing-project' })).toThrow(
+        'Invalid projectId: project "missing-project" does not exist'
+      );
+      expect(() => db.createTask({ ...newTask, assigneeId: 'missing-user' })).toThrow(
+        'Invalid assigneeId: user "missing-user" does not exist'
+      );
+      expect(() => db.createTask({ ...newTask, tags: ['tag-1', 'missing-tag'] })).toThrow(
+        'Invalid tags: tag "missing-tag" does not exist'
+      );
+    });
+
+    it('should reject task updates with missing references', () => {
+      const task = db.createTask(newTask);
+      expect(() => db.updateTask(task.id, { assigneeId: 'missing-user' })).toThrow(
+        ReferenceNotFoundError
+      );
+      expect(db.getTask(task.id)?.assigneeId).toBeNull();
+    });
+
+    it('should reject a comment on a missing task or by a missing user', () => {
+      const user = db.getAllUsers()[0];
+      expect(() =>
+        db.createComment({ taskId: 'missing-task', userId: user.id, content: 'Hello' })
+      ).toThrow('Invalid taskId: task "missing-task" does not exist');
+      expect(() =>
+        db.createComment({ taskId: 'task-1', userId: 'missing-user', content: 'Hello' })
+      ).toThrow('Invalid userId: user "missing-user" does not exist');
+    });
+
+    it('should expose the bad reference on the error', () => {
+      try {
+        db.createTask({ ...newTask, projectId: 'missing-project' });
+        expect.fail('createTask should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ReferenceNotFoundError);
+        const referenceError = error as ReferenceNotFoundError;
+        expect(referenceError.field).toBe('projectId');
+        expect(referenceError.entity).toBe('project');
+        expect(referenceError.id).toBe('missing-project');
+      }
+    });
+  });
+
+  describe('Delete policies', () => {
+    let store: InMemoryDatabase;
+
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+    });
+
+    it('should restrict deleting a user who owns projects by default', () => {
+      expect(() => store.deleteUser('user-1')).toThrow(RestrictViolationError);
+      expect(store.getUser('user-1')).toBeDefined();
+    });
+
+    it('should unassign tasks of a deleted user by default', () => {
+      expect(store.deleteUser('user-2')).toBe(true);
+      expect(store.getTask('task-2')?.assigneeId).toBeNull();
+    });
+
+    it('should reassign owned projects and authored comments', () => {
+      store.deleteUser('user-1', {
+        projectOwner: { action: 'reassign-to', targetId: 'user-2' },
+        taskAssignee: { action: 'reassign-to', targetId: 'user-2' },
+        commentAuthor: { action: 'reassign-to', targetId: 'user-2' },
+      });
+
+      expect(store.getProject('project-1')?.ownerId).toBe('user-2');
+      expect(store.getTask('task-1')?.assigneeId).toBe('user-2');
+      expect(store.getComment('comment-1')?.userId).toBe('user-2');
+    });
+
+    it('should cascade from a user through projects, tasks and comments', () => {
+      store.deleteUser('user-1', {
+        projectOwner: { action: 'cascade' },
+        commentAuthor: { action: 'cascade' },
+      });
+
+      expect(store.getProject('project-1')).toBeUndefined();
+      expect(store.getAllTasks()).toHaveLength(0);
+      expect(store.getComment('comment-1')).toBeUndefined();
+    });
+
+    it('should apply the policies when clearing every user', () => {
+      expect(() => store.clearAllUsers()).toThrow(
+        'Cannot delete every user: still referenced by project "project-1" (projectOwner), comment "comment-1" (commentAuthor)'
+      );
+      expect(store.getAllUsers()).toHaveLength(2);
+
+      const policies = {
+        projectOwner: { action: 'cascade' },
+        commentAuthor: { action: 'cascade' },
+      } as const;
+      expect(store.planClearAllUsers(policies).deleted).toContainEqual({
+        entity: 'project',
+        id: 'project-1',
+      });
+      store.clearAllUsers(policies);
+      expect(store.getAllUsers()).toHaveLength(0);
+      expect(store.getAllProjects()).toHaveLength(0);
+      expect(store.getAllTasks()).toHaveLength(0);
+      expect(store.getComment('comment-1')).toBeUndefined();
+    });
+
+    it('should plan a deletion without changing anything', () => {
+      const plan = store.planUserDeletion('user-1', {
+        projectOwner: { action: 'cascade' },
+        commentAuthor: { action: 'cascade' },
+      });
+
+      expect(plan?.deleted).toEqual(
+        expect.arrayContaining([
+          { entity: 'user', id: 'user-1' },
+          { entity: 'project', id: 'project-1' },
+          { entity: 'task', id: 'task-1' },
+          { entity: 'task', id: 'task-2' },
+          { entity: 'comment', id: 'comment-1' },
+        ])
+      );
+      expect(plan?.deleted).toHaveLength(5);
+      // Tasks that are deleted anyway are not listed as unassigned
+      expect(plan?.updated).toEqual([]);
+      expect(plan?.blockedBy).toEqual([]);
+      expect(store.getProject('project-1')).toBeDefined();
+    });
+
+    it('should list restrict violations in a plan', () => {
+      const plan = store.planProjectDeletion('project-1', { projectTasks: { action: 'restrict' } });
+      expect(plan?.blockedBy.map(b => b.id).sort()).toEqual(['task-1', 'task-2']);
+      expect(() =>
+        store.deleteProject('project-1', { projectTasks: { action: 'restrict' } })
+      ).toThrow('Cannot delete project "project-1"');
+    });
+
+    it('should move tasks to another project', () => {
+      const other = store.createProject({
+        name: 'Other',
+        description: 'Target',
+        ownerId: 'user-1',
+        status: 'active',
+      });
+      store.deleteProject('project-1', {
+        projectTasks: { action: 'reassign-to', targetId: other.id },
+      });
+
+      expect(store.getTasksByProject(other.id)).toHaveLength(2);
+      expect(store.getComment('comment-1')).toBeDefined();
+    });
+
+    it('should replace a deleted tag on its tasks', () => {
+      store.deleteTag('tag-3', { taskTags: { action: 'reassign-to', targetId: 'tag-2' } });
+      expect(store.getTask('task-2')?.tags).toEqual(['tag-2']);
+    });
+
+    it('should reject unsupported or invalid policies', () => {
+      expect(() => store.deleteUser('user-1', { projectOwner: { action: 'set-null' } })).toThrow(
+        InvalidPolicyError
+      );
+      expect(() =>
+        store.deleteUser('user-2', { taskAssignee: { action: 'reassign-to', targetId: 'user-2' } })
+      ).toThrow(InvalidPolicyError);
+      expect(() =>
+        store.deleteUser('user-2', { taskAssignee: { action: 'reassign-to', targetId: 'nobody' } })
+      ).toThrow(ReferenceNotFoundError);
+    });
+  });
+
+  describe('Transactions', () => {
+    let store: InMemoryDatabase;
+
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+    });
+
+    it('should commit every change together', () => {
+      const task = store.transaction(tx => {
+        const project = tx.createProject({
+          name: 'Launch',
+          description: 'Launch plan',
+          ownerId: 'user-1',
+          status: 'active',
+        });
+        return tx.createTask({
+          title: 'Announce',
+          description: 'Write the announcement',
+          projectId: project.id,
+          assigneeId: null,
+          status: 'todo',
+          priority: 'medium',
+          dueDate: null,
+          tags: ['tag-1'],
+        });
+      });
+
+      expect(store.getTask(task.id)?.title).toBe('Announce');
+      expect(store.getProject(task.projectId)?.name).toBe('Launch');
+    });
+
+    it('should roll back every change when a step throws', () => {
+      expect(() =>
+        store.transaction(tx => {
+          tx.updateTask('task-1', { status: 'done' });
+          tx.createTag({ name: 'temporary', color: '#000000' });
+          tx.updateTask('task-2', { tags: ['tag-missing'] });
+        })
+      ).toThrow(ReferenceNotFoundError);
+
+      expect(store.getTask('task-1')?.status).toBe('in-progress');
+      expect(store.getAllTags()).toHaveLength(3);
+    });
+
+    it('should hide uncommitted changes from other readers', () => {
+      const transaction = store.beginTransaction();
+      transaction.db.updateUser('user-2', { name: 'Robert Smith' });
+
+      expect(transaction.db.getUser('user-2')?.name).toBe('Robert Smith');
+      expect(store.getUser('user-2')?.name).toBe('Bob Smith');
+
+      transaction.commit();
+      expect(store.getUser('user-2')?.name).toBe('Robert Smith');
+    });
+
+    it('should read from a snapshot taken when it began', () => {
+      const transaction = store.beginTransaction();
+      store.updateTask('task-1', { status: 'done' });
+
+      expect(transaction.db.getTask('task-1')?.status).toBe('in-progress');
+      transaction.rollback();
+    });
+
+    it('should discard changes on rollback', () => {
+      const transaction = store.beginTransaction();
+      transaction.db.deleteProject('project-1');
+      transaction.rollback();
+
+      expect(transaction.status).toBe('rolled-back');
+      expect(store.getProject('project-1')).toBeDefined();
+      expect(() => {
+        transaction.commit();
+      }).toThrow(TransactionClosedError);
+    });
+
+    it('should reject a commit that conflicts with a later change', () => {
+      const transaction = store.beginTransaction();
+      transaction.db.updateTask('task-1', { priority: 'low' });
+      store.updateTask('task-1', { status: 'done' });
+
+      expect(() => {
+        transaction.commit();
+      }).toThrow(TransactionConflictError);
+      expect(transaction.status).toBe('rolled-back');
+      expect(store.getTask('task-1')?.priority).toBe('high');
+    });
+
+    it('should reject a commit whose references were deleted meanwhile', () => {
+      const transaction = store.beginTransaction();
+      transaction.db.createComment({ taskId: 'task-2', userId: 'user-2', content: 'On it' });
+      store.deleteTask('task-2');
+
+      expect(() => {
+        transaction.commit();
+      }).toThrow(ReferenceNotFoundError);
+      expect(store.getCommentsByUser('user-2')).toHaveLength(0);
+    });
+
+    it('should reject a delete whose record gained a reference meanwhile', () => {
+      const transaction = store.beginTransaction();
+      transaction.db.deleteUser('user-2');
+      store.createComment({ taskId: 'task-1', userId: 'user-2', content: 'Late comment' });
+
+      expect(() => {
+        transaction.commit();
+      }).toThrow('user "user-2" is now referenced by comment');
+      expect(store.getUser('user-2')).toBeDefined();
+      expect(store.getTask('task-2')?.assigneeId).toBe('user-2');
+    });
+
+    it('should undo in-memory changes when storage rejects a write', () => {
+      const storage = new MemoryStorage();
+      const failing = new InMemoryDatabase(storage);
+      vi.spyOn(storage, 'write').mockImplementation(() => {
+        throw new Error('disk full');
+      });
+
+      expect(() => failing.deleteProject('project-1')).toThrow('disk full');
+      expect(failing.getProject('project-1')).toBeDefined();
+      expect(failing.getAllTasks()).toHaveLength(2);
+      expect(failing.getComment('comment-1')).toBeDefined();
+    });
+  });
+
+  describe('Trash', () => {
+    let store: InMemoryDatabase;
+
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+    });
+
+    it('should hide deleted records from every query', () => {
+      store.deleteTask('task-1');
+
+      expect(store.getTask('task-1')).toBeUndefined();
+      expect(store.getAllTasks().map(t => t.id)).toEqual(['task-2']);
+      expect(store.getTasksByTag('tag-1')).toHaveLength(0);
+      expect(store.getCommentsByUser('user-1')).toHaveLength(0);
+      expect(store.getTaskStatistics().total).toBe(1);
+    });
+
+    it('should list deleted records with a shared deletion time', () => {
+      store.deleteTask('task-1');
+      const trash = store.getTrash();
+
+      expect(trash.map(entry => `${entry.entity}:${entry.id}`).sort()).toEqual([
+        'comment:comment-1',
+        'task:task-1',
+      ]);
+      expect(trash[0]?.deletedAt).toEqual(trash[1]?.deletedAt);
+      expect(store.getTrash('comment')).toHaveLength(1);
+    });
+
+    it('should restore a task together with its comments', () => {
+      store.deleteTask('task-1');
+
+      expect(store.restoreFromTrash('task', 'task-1')).toEqual([
+        { entity: 'task', id: 'task-1' },
+        { entity: 'comment', id: 'comment-1' },
+      ]);
+      expect(store.getTask('task-1')?.deletedAt).toBeNull();
+      expect(store.getCommentsByTask('task-1')).toHaveLength(1);
+      expect(store.getTrash()).toHaveLength(0);
+    });
+
+    it('should not restore records deleted separately', () => {
+      store.deleteComment('comment-1');
+      store.deleteTask('task-1');
+      store.restoreFromTrash('task', 'task-1');
+
+      expect(store.getComment('comment-1')).toBeUndefined();
+    });
+
+    it('should refuse to restore a record whose parent is still in the trash', () => {
+      store.deleteProject('project-1');
+
+      expect(() => store.restoreFromTrash('task', 'task-1')).toThrow(ReferenceNotFoundError);
+      expect(store.getTask('task-1')).toBeUndefined();
+      expect(store.restoreFromTrash('project', 'project-1')).toHaveLength(4);
+      expect(store.getTasksByProject('project-1')).toHaveLength(2);
+    });
+
+    it('should reject new references to deleted records', () => {
+      store.deleteTag('tag-3');
+      expect(() => store.updateTask('task-1', { tags: ['tag-3'] })).toThrow(ReferenceNotFoundError);
+    });
+
+    it('should purge a record together with everything deleted along with it', () => {
+      store.deleteTask('task-1');
+      store.deleteTag('tag-2');
+
+      expect(store.planTrashPurge({ entity: 'task', id: 'task-1' })).toHaveLength(2);
+      store.purgeTrash({ entity: 'task', id: 'task-1' });
+      expect(store.getTrash().map(entry => entry.id)).toEqual(['tag-2']);
+      expect(store.restoreFromTrash('task', 'task-1')).toBeNull();
+
+      store.purgeTrash();
+      expect(store.getTrash()).toHaveLength(0);
+    });
+  });
+
+  describe('History', () => {
+    let store: InMemoryDatabase;
+
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+    });
+
+    it('should record a revision with the changed fields for every update', () => {
+      store.runAs('user-2', () => store.updateTask('task-1', { priority: 'low' }));
+
+      const history = store.getHistory('task', 'task-1');
+      expect(history.map(r => r.operation)).toEqual(['create', 'update']);
+      const update = history[1];
+      expect(update?.version).toBe(2);
+      expect(update?.actor).toBe('user-2');
+      expect(update?.before).toMatchObject({ priority: 'high' });
+      expect(update?.after).toMatchObject({ priority: 'low' });
+      expect(update?.changes.map(c => c.field).sort()).toEqual(['priority', 'updatedAt']);
+      expect(update?.changes.find(c => c.field === 'priority')).toEqual({
+        field: 'priority',
+        from: 'high',
+        to: 'low',
+      });
+    });
+
+    it('should record deletes, restores and purges', () => {
+      store.deleteTask('task-1');
+      store.restoreFromTrash('task', 'task-1');
+      store.deleteTask('task-1');
+      store.purgeTrash({ entity: 'task', id: 'task-1' });
+
+      expect(store.getHistory('task', 'task-1').map(r => r.operation)).toEqual([
+        'create',
+        'delete',
+        'restore',
+        'delete',
+        'purge',
+      ]);
+      expect(store.getHistory('comment', 'comment-1').at(-1)?.after).toBeNull();
+    });
+
+    it('should not record revisions for rolled back changes', () => {
+      expect(() =>
+        store.transaction(tx => {
+          tx.updateTask('task-1', { status: 'done' });
+          throw new Error('abort');
+        })
+      ).toThrow('abort');
+
+      expect(store.getHistory('task', 'task-1')).toHaveLength(1);
+    });
+
+    it('should record committed transaction changes in order', () => {
+      store.transaction(tx => {
+        tx.updateTask('task-2', { status: 'in-progress' });
+        tx.updateTask('task-2', { status: 'review' });
+      });
+
+      const history = store.getHistory('task', 'task-2');
+      expect(history.map(r => r.version)).toEqual([1, 2, 3]);
+      expect(history.at(-1)?.after).toMatchObject({ status: 'review' });
+    });
+
+    it('should read records as they were at a given time', async () => {
+      const before = new Date();
+      await new Promise(resolve => setTimeout(resolve, 5));
+      store.updateTask('task-1', { title: 'Redesign user interface' });
+      store.deleteTag('tag-1');
+
+      const past = store.asOf(before);
+      expect(past.getTask('task-1')?.title).toBe('Design user interface');
+      expect(past.getTag('tag-1')).toBeDefined();
+      expect(past.getTask('task-1')?.tags).toEqual(['tag-1']);
+
+      const beforeHistory = store.asOf(new Date('2000-01-01'));
+      expect(beforeHistory.getAllTasks()).toHaveLength(0);
+    });
+
+    it('should read a single record as it was at a given time', async () => {
+      const before = new Date();
+      await new Promise(resolve => setTimeout(resolve, 5));
+      store.updateTask('task-1', { title: 'Redesign user interface' });
+      store.deleteTag('tag-1');
+
+      expect(store.getRecordAsOf('task', 'task-1', before)).toMatchObject({
+        title: 'Design user interface',
+      });
+      expect(store.getRecordAsOf('tag', 'tag-1', before)).toBeDefined();
+      expect(store.getRecordAsOf('tag', 'tag-1', new Date())).toBeUndefined();
+      expect(store.getRecordAsOf('task', 'task-404', before)).toBeUndefined();
+    });
+
+    it('should date the sample data from when its records were created', () => {
+      expect(store.getHistory('task', 'task-1')[0]?.timestamp).toEqual(new Date('2024-01-05'));
+      expect(store.getRecordAsOf('task', 'task-2', new Date('2024-01-07'))).toBeUndefined();
+      expect(store.getRecordAsOf('task', 'task-2', new Date('2024-01-08'))).toBeDefined();
+    });
+  });
+
+  describe('Revert', () => {
+    let store: InMemoryDatabase;
+
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+    });
+
+    function capture(operation: () => unknown): Revision[] {
+      const revisions: Revision[] = [];
+      const unsubscribe = store.onChange(changes => revisions.push(...changes));
+      operation();
+      unsubscribe();
+      return revisions;
+    }
+
+    it('should restore the whole graph removed by a cascaded delete', () => {
+      const deleted = capture(() =>
+        store.deleteProject('project-1', { projectTasks: { action: 'cascade' } })
+      );
+      expect(store.getTask('task-1')).toBeUndefined();
+
+      store.revert(deleted);
+
+      expect(store.getProject('project-1')).toBeDefined();
+      expect(store.getTasksByProject('project-1')).toHaveLength(2);
+      expect(store.getComment('comment-1')).toBeDefined();
+      expect(store.getTrash()).toHaveLength(0);
+    });
+
+    it('should return revisions that redo the reverted change', () => {
+      const created = capture(() => store.createTag({ name: 'docs', color: '#000000' }));
+      const undone = store.revert(created);
+      expect(store.getAllTags()).toHaveLength(3);
+
+      store.revert(undone);
+      expect(store.getAllTags().map(t => t.name)).toContain('docs');
+    });
+
+    it('should refuse to revert a record that changed since', () => {
+      const updated = capture(() => store.updateTask('task-1', { status: 'done' }));
+      store.updateTask('task-1', { priority: 'low' });
+
+      expect(() => store.revert(updated)).toThrow(RevertConflictError);
+      expect(store.getTask('task-1')?.status).toBe('done');
+    });
+
+    it('should refuse to remove a created record that is now referenced', () => {
+      const created = capture(() => store.createTag({ name: 'docs', color: '#000000' }));
+      const tagId = store.getAllTags().find(t => t.name === 'docs')?.id ?? '';
+      store.createTask({
+        title: 'Write docs',
+        description: '',
+        projectId: 'project-1',
+        assigneeId: null,
+        status: 'todo',
+        priority: 'low',
+        dueDate: null,
+        tags: [tagId],
+      });
+
+      expect(() => store.revert(created)).toThrow(RevertConflictError);
+      expect(store.getTag(tagId)).toBeDefined();
+    });
+  });
+
+  describe('Acting user', () => {
+    let store: InMemoryDatabase;
+
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+    });
+
+    const newTask = {
+      title: 'Write release notes',
+      description: '',
+      projectId: 'project-1',
+      assigneeId: null,
+      status: 'todo' as const,
+      priority: 'low' as const,
+      dueDate: null,
+      tags: [],
+    };
+
+    it('should record the acting user as the creator of a task', () => {
+      expect(store.runAs('user-2', () => store.createTask(newTask)).createdBy).toBe('user-2');
+      expect(store.createTask(newTask).createdBy).toBeNull();
+    });
+
+    it('should keep the acting user across asynchronous steps', async () => {
+      const task = await store.runAs('user-2', async () => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        return store.createTask(newTask);
+      });
+      expect(task.createdBy).toBe('user-2');
+      expect(store.getHistory('task', task.id)[0]?.actor).toBe('user-2');
+    });
+
+    it('should write comments as the acting user', () => {
+      const comment = store.runAs('user-2', () =>
+        store.createComment({ taskId: 'task-1', content: 'On it' })
+      );
+      expect(comment.userId).toBe('user-2');
+
+      expect(() =>
+        store.runAs('user-2', () =>
+          store.createComment({ taskId: 'task-1', userId: 'user-1', content: 'As Alice' })
+        )
+      ).toThrow(AttributionError);
+      expect(() => store.createComment({ taskId: 'task-1', content: 'Anonymous' })).toThrow(
+        'Invalid userId: required when no user is acting'
+      );
+    });
+
+    it('should default the project owner to the acting user', () => {
+      const project = store.runAs('user-2', () =>
+        store.createProject({ name: 'Docs', description: '', status: 'active' })
+      );
+      expect(project.ownerId).toBe('user-2');
+      expect(() =>
+        store.createProject({ name: 'Docs', description: '', status: 'active' })
+      ).toThrow(AttributionError);
+    });
+  });
+
+  describe('Audit log', () => {
+    let store: InMemoryDatabase;
+
+    beforeEach(() => {
+      store = new InMemoryDatabase();
+    });
+
+    function audit(tool: string, actor: string | null, entities: AuditEntry['entities'] = []) {
+      return store.recordAudit({
+        sessionId: 'session-1',
+        actor,
+        tool,
+        arguments: {},
+        outcome: 'success',
+        error: null,
+        entities,
+      });
+    }
+
+    it('should filter entries by actor, tool and changed record', () => {
+      audit('update_task', 'user-1', [{ entity: 'task', id: 'task-1' }]);
+      audit('update_task', 'user-2', [{ entity: 'task', id: 'task-2' }]);
+      audit('list_tasks', 'user-2');
+
+      expect(store.getAuditLog()).toHaveLength(3);
+      expect(store.getAuditLog({ actor: 'user-2' }).map(e => e.tool)).toEqual([
+        'update_task',
+        'list_tasks',
+      ]);
+      expect(store.getAuditLog({ entity: 'task' })).toHaveLength(2);
+      expect(store.getAuditLog({ entity: 'task', entityId: 'task-1' })[0]?.actor).toBe('user-1');
+      expect(store.getAuditLog({ tool: 'list_tasks', actor: 'user-1' })).toHaveLength(0);
+    });
+
+    it('should filter entries by time range', async () => {
+      audit('list_tasks', null);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const from = new Date();
+      audit('list_users', null);
+
+      expect(store.getAuditLog({ from }).map(e => e.tool)).toEqual(['list_users']);
+      expect(store.getAuditLog({ to: new Date(from.getTime() - 1) }).map(e => e.tool)).toEqual([
+        'list_tasks',
+      ]);
+    });
+  });
+
   describe('Statistics', () => {
     it('should get task statistics', () => {
       const stats = db.getTaskStatistics();
@@ -1,19 +1,726 @@
-import type { User, Project, Task, Tag, Comment, Database } from './types.js';
+import { AsyncLocalStorage } from 'async_hooks';
+import { loadStorageConfig } from './config.js';
+import { DeletionPlanner, isAncestor } from './deletion.js';
+import { findDependencyPath, longestDependencyChain } from './dependencies.js';
+import {
+  AttributionError,
+  DependencyCycleError,
+  InvalidRangeError,
+  InvalidSprintError,
+  InvalidStatusError,
+  InvalidWorkflowError,
+  ReferenceNotFoundError,
+  RestrictViolationError,
+  RevertConflictError,
+  StatusTransitionError,
+  TaskBlockedError,
+  TaskCycleError,
+  TransactionConflictError,
+} from './errors.js';
+import { rankMatches } from './fuzzy.js';
+import { diffRecords, revisionOperation, stateAt } from './history.js';
+import { DAY_MS, dayCount, DEFAULT_REPORT_DAYS, MAX_REPORT_DAYS, reportDays } from './reporting.js';
+import { SearchIndex } from './search-index.js';
+import type { IndexedField } from './search-index.js';
+import { createStorage, MemoryStorage, SnapshotStorage } from './storage/index.js';
+import type {
+  Collection,
+  EntityOf,
+  Mutation,
+  StorageBackend,
+  StoredData,
+} from './storage/index.js';
+import { matchesTaskQuery, sortTasks } from './task-query.js';
+import { compileTaskSearch } from './task-search.js';
+import { Transaction } from './transaction.js';
+import {
+  allowedTransitions,
+  defaultWorkflow,
+  statusCategory,
+  statusOrder,
+  validateWorkflow,
+} from './workflow.js';
+import type {
+  AuditEntry,
+  AuditFilter,
+  BlockedTask,
+  BulkDeletionPlan,
+  Burndown,
+  BurndownPoint,
+  User,
+  Project,
+  Task,
+  Tag,
+  Comment,
+  CriticalPath,
+  Database,
+  DateRange,
+  DeletePolicies,
+  DeletionPlan,
+  EntityRecord,
+  EntityRef,
+  EntityType,
+  PlannedUpdate,
+  Revision,
+  SearchableEntity,
+  SearchResult,
+  Sprint,
+  SprintClosure,
+  StatusCategory,
+  SubtaskEntry,
+  Suggestion,
+  TaskProgress,
+  TaskQuery,
+  TrashEntry,
+  TrashScope,
+  Velocity,
+  Workflow,
+} from './types.js';
+
+const COLLECTION_BY_ENTITY: Record<EntityType, Collection> = {
+  user: 'users',
+  project: 'projects',
+  task: 'tasks',
+  tag: 'tags',
+  comment: 'comments',
+  sprint: 'sprints',
+};
+
+const ENTITY_BY_COLLECTION = Object.fromEntries(
+  Object.entries(COLLECTION_BY_ENTITY).map(([entity, collection]) => [collection, entity])
+) as Record<Collection, EntityType>;
+
+// Fill in the fields a record stored before they existed lacks: projects stored before
+// workflows use the default one, and tasks stored before subtasks, dependencies and
+// sprints have no parentTaskId, blockedBy or sprintId
+function withDefaults(collection: Collection, record: EntityRecord): EntityRecord {
+  switch (collection) {
+    case 'projects': {
+      const { workflow = defaultWorkflow() } = record as Partial<Project>;
+      return { ...(record as Project), workflow };
+    }
+    case 'tasks': {
+      const { parentTaskId = null, blockedBy = [], sprintId = null } = record as Partial<Task>;
+      return { ...(record as Task), parentTaskId, blockedBy, sprintId };
+    }
+    default:
+      return record;
+  }
+}
 
-class InMemoryDatabase {
-  private db: Database;
+// User that changes made in the current async context are attributed to, set by runAs()
+// Shared by every database, so transaction working copies see the same actor
+const actorScope = new AsyncLocalStorage<string | null>();
 
-  constructor() {
+export class InMemoryDatabase {
+  private db: Database;
+  // Mutations collected while an atomic operation is running, with the steps
+  // that undo them in memory if the operation fails
+  private pending: { mutations: Mutation[]; undo: Array<() => void> } | null = null;
+  // Bumped for every group of mutations written to storage; transactions compare
+  // it against the version of each record they change to detect conflicts
+  private version = 0;
+  private readonly recordVersions = new Map<string, number>();
+  private lastDeletedAt = 0;
+  // Revisions of every record, keyed by "entity:id", in version order
+  private readonly history = new Map<string, Revision[]>();
+  // Every recorded tool call, oldest first
+  private auditLog: AuditEntry[] = [];
+  // Notified with the revisions of every group of changes once it is stored
+  private readonly changeListeners = new Set<(revisions: Revision[]) => void>();
+  // Full-text index of tasks, comments and projects, built on the first search and
+  // then kept current from the revisions of every stored change
+  private searchIndex: SearchIndex | null = null;
+  // Set while the sample data is stored, so its revisions are dated when its records
+  // were created rather than when the server started
+  private seeding = false;
+
+  constructor(private readonly storage: StorageBackend = new MemoryStorage()) {
     this.db = {
       users: new Map(),
       projects: new Map(),
       tasks: new Map(),
       tags: new Map(),
       comments: new Map(),
+      sprints: new Map(),
+    };
+
+    const stored = storage.load();
+    if (stored) {
+      this.loadStoredData(stored);
+    } else {
+      // Initialize a store that was never written to with some sample data
+      // A store emptied since then stays empty
+      this.seeding = true;
+      try {
+        this.atomically(() => {
+          this.initializeSampleData();
+        });
+      } finally {
+        this.seeding = false;
+      }
+    }
+  }
+
+  // Release the underlying storage backend
+  close(): void {
+    this.storage.close();
+  }
+
+  private loadStoredData(stored: StoredData): void {
+    Object.values(COLLECTION_BY_ENTITY).forEach(collection => {
+      const table = this.table(collection) as Map<string, EntityRecord>;
+      (stored[collection] as EntityRecord[]).forEach(record => {
+        table.set(record.id, withDefaults(collection, record));
+      });
+    });
+    stored.revisions
+      .slice()
+      .sort((a, b) => a.version - b.version)
+      .forEach(revision => {
+        const key = `${revision.entity}:${revision.entityId}`;
+        this.history.set(key, [...(this.history.get(key) ?? []), revision]);
+      });
+    this.auditLog = stored.auditLog
+      .slice()
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    this.lastDeletedAt = this.getTrash().reduce(
+      (latest, entry) => Math.max(latest, entry.deletedAt.getTime()),
+      0
+    );
+  }
+
+  private table<C extends Collection>(collection: C): Map<string, EntityOf<C>> {
+    return this.db[collection] as Map<string, EntityOf<C>>;
+  }
+
+  // Records in the trash are invisible to every lookup and query
+  private find<C extends Collection>(collection: C, id: string): EntityOf<C> | undefined {
+    const record = this.table(collection).get(id);
+    return record && !record.deletedAt ? record : undefined;
+  }
+
+  private live<C extends Collection>(collection: C): Array<EntityOf<C>> {
+    return Array.from(this.table(collection).values()).filter(record => !record.deletedAt);
+  }
+
+  // Store a record and write it through to the storage backend
+  private put<C extends Collection>(collection: C, record: EntityOf<C>): void {
+    const table = this.table(collection);
+    const previous = table.get(record.id);
+    this.atomically(() => {
+      table.set(record.id, record);
+      this.persist({ type: 'put', collection, record }, () => {
+        if (previous) {
+          table.set(record.id, previous);
+        } else {
+          table.delete(record.id);
+        }
+      });
+      this.recordRevision(collection, previous ?? null, record);
+    });
+  }
+
+  // Remove a record and write the deletion through to the storage backend
+  private remove(collection: Collection, id: string): boolean {
+    const table = this.table(collection);
+    const previous = table.get(id);
+    if (!previous) return false;
+    this.atomically(() => {
+      table.delete(id);
+      this.persist({ type: 'delete', collection, id }, () => {
+        table.set(id, previous);
+      });
+      this.recordRevision(collection, previous, null);
+    });
+    return true;
+  }
+
+  // Remove every record of a collection
+  private clear(collection: Collection): void {
+    const table = this.table(collection);
+    const previous = new Map(table);
+    this.atomically(() => {
+      table.clear();
+      this.persist({ type: 'clear', collection }, () => {
+        previous.forEach((record, id) => table.set(id, record));
+      });
+      previous.forEach(record => {
+        this.recordRevision(collection, record, null);
+      });
+    });
+  }
+
+  // Append a revision to the history of the changed record
+  private recordRevision(
+    collection: Collection,
+    before: EntityRecord | null,
+    after: EntityRecord | null
+  ): void {
+    const record = after ?? before;
+    if (!record) return;
+
+    const entity = ENTITY_BY_COLLECTION[collection];
+    const key = `${entity}:${record.id}`;
+    const revisions = this.history.get(key) ?? [];
+    const version = revisions.length + 1;
+    const revision: Revision = {
+      id: `${key}:${version}`,
+      entity,
+      entityId: record.id,
+      version,
+      operation: revisionOperation(before, after),
+      actor: this.actor,
+      timestamp: this.seeding ? record.createdAt : new Date(),
+      before,
+      after,
+      changes: diffRecords(before, after),
+    };
+    this.history.set(key, [...revisions, revision]);
+    this.persist({ type: 'put', collection: 'revisions', record: revision }, () => {
+      this.history.set(key, revisions);
+    });
+  }
+
+  // Referential integrity: every foreign key must point at an existing record
+  private assertReference(field: string, entity: EntityType, id: string): void {
+    if (!this.find(COLLECTION_BY_ENTITY[entity], id)) {
+      throw new ReferenceNotFoundError(field, entity, id, this.findSimilar(entity, id, 3));
+    }
+  }
+
+  private validateProjectReferences(project: Partial<Project>): void {
+    if (project.ownerId !== undefined) {
+      this.assertReference('ownerId', 'user', project.ownerId);
+    }
+  }
+
+  private validateTaskReferences(task: Partial<Task>): void {
+    if (task.projectId !== undefined) {
+      this.assertReference('projectId', 'project', task.projectId);
+    }
+    if (task.assigneeId) {
+      this.assertReference('assigneeId', 'user', task.assigneeId);
+    }
+    task.tags?.forEach(tagId => {
+      this.assertReference('tags', 'tag', tagId);
+    });
+    if (task.parentTaskId) {
+      this.assertReference('parentTaskId', 'task', task.parentTaskId);
+      if (
+        task.id !== undefined &&
+        (task.parentTaskId === task.id || isAncestor(this, task.id, task.parentTaskId))
+      ) {
+        throw new TaskCycleError(task.id, task.parentTaskId);
+      }
+    }
+    task.blockedBy?.forEach(blockerId => {
+      this.assertReference('blockedBy', 'task', blockerId);
+      if (task.id === undefined) return;
+      // A task cannot wait on a task that already waits on it, however indirectly
+      const path = findDependencyPath(this, blockerId, task.id);
+      if (path) {
+        throw new DependencyCycleError(task.id, [task.id, ...path]);
+      }
+    });
+    if (task.sprintId) {
+      this.assertReference('sprintId', 'sprint', task.sprintId);
+    }
+  }
+
+  // A task can only be planned into an open sprint of its own project that has room for it;
+  // a missing sprint is reported by validateTaskReferences
+  private validateTaskSprint(task: Pick<Task, 'projectId' | 'sprintId'> & { id?: string }): void {
+    const sprint = task.sprintId === null ? undefined : this.find('sprints', task.sprintId);
+    if (!sprint) return;
+    if (sprint.projectId !== task.projectId) {
+      throw new InvalidSprintError(
+        'sprintId',
+        `sprint "${sprint.id}" belongs to project "${sprint.projectId}", not "${task.projectId}"`
+      );
+    }
+    if (sprint.status === 'closed') {
+      throw new InvalidSprintError('sprintId', `sprint "${sprint.id}" is closed`);
+    }
+    const planned = this.getSprintTasks(sprint.id).filter(t => t.id !== task.id).length;
+    if (sprint.capacity !== null && planned >= sprint.capacity) {
+      throw new InvalidSprintError(
+        'sprintId',
+        `sprint "${sprint.id}" is full; it holds at most ${String(sprint.capacity)} tasks`
+      );
+    }
+  }
+
+  // A task's status has to be one of its project's workflow; a missing project is
+  // reported by validateTaskReferences
+  private validateTaskStatus(task: Pick<Task, 'projectId' | 'status'>): void {
+    const project = this.find('projects', task.projectId);
+    const statuses = project?.workflow.statuses.map(status => status.name) ?? [];
+    if (project && !statuses.includes(task.status)) {
+      throw new InvalidStatusError(project.id, task.status, statuses);
+    }
+  }
+
+  private validateSprintReferences(sprint: Partial<Sprint>): void {
+    if (sprint.projectId !== undefined) {
+      this.assertReference('projectId', 'project', sprint.projectId);
+    }
+  }
+
+  private validateSprintDates(sprint: Pick<Sprint, 'startDate' | 'endDate'>): void {
+    if (sprint.endDate < sprint.startDate) {
+      throw new InvalidSprintError('endDate', 'a sprint cannot end before it starts');
+    }
+  }
+
+  private validateCommentReferences(comment: Partial<Comment>): void {
+    if (comment.taskId !== undefined) {
+      this.assertReference('taskId', 'task', comment.taskId);
+    }
+    if (comment.userId !== undefined) {
+      this.assertReference('userId', 'user', comment.userId);
+    }
+  }
+
+  // Apply a deletion plan as one atomic group of changes
+  private executeDeletionPlan(plan: DeletionPlan | BulkDeletionPlan): void {
+    if (plan.blockedBy.length > 0) {
+      throw new RestrictViolationError(plan);
+    }
+
+    // Everything deleted together shares one timestamp, which is how a restore
+    // finds the records that were deleted along with the one being restored;
+    // separate deletes never share one, even within the same millisecond
+    const deletedAt = new Date(Math.max(Date.now(), this.lastDeletedAt + 1));
+    this.lastDeletedAt = deletedAt.getTime();
+    this.atomically(() => {
+      plan.updated.forEach(update => {
+        this.applyPlannedUpdate(update);
+      });
+      plan.deleted.forEach(ref => {
+        const collection = COLLECTION_BY_ENTITY[ref.entity];
+        const record = this.table(collection).get(ref.id);
+        if (record) {
+          this.put(collection, { ...record, deletedAt });
+        }
+      });
+    });
+  }
+
+  // Trashed records that were deleted together with the given one, following
+  // the relationships a delete cascades along
+  private deletedWith(ref: EntityRef, deletedAt: Date): EntityRef[] {
+    const sameDelete = (record: { deletedAt: Date | null }) =>
+      record.deletedAt?.getTime() === deletedAt.getTime();
+    const all = <C extends Collection>(collection: C) =>
+      Array.from(this.table(collection).values()).filter(sameDelete);
+
+    let children: EntityRef[] = [];
+    switch (ref.entity) {
+      case 'user':
+        children = [
+          ...all('projects')
+            .filter(p => p.ownerId === ref.id)
+            .map(p => ({ entity: 'project' as const, id: p.id })),
+          ...all('tasks')
+            .filter(t => t.assigneeId === ref.id)
+            .map(t => ({ entity: 'task' as const, id: t.id })),
+          ...all('comments')
+            .filter(c => c.userId === ref.id)
+            .map(c => ({ entity: 'comment' as const, id: c.id })),
+        ];
+        break;
+      case 'project':
+        children = [
+          ...all('tasks')
+            .filter(t => t.projectId === ref.id)
+            .map(t => ({ entity: 'task' as const, id: t.id })),
+          ...all('sprints')
+            .filter(s => s.projectId === ref.id)
+            .map(s => ({ entity: 'sprint' as const, id: s.id })),
+        ];
+        break;
+      case 'task':
+        children = [
+          ...all('comments')
+            .filter(c => c.taskId === ref.id)
+            .map(c => ({ entity: 'comment' as const, id: c.id })),
+          ...all('tasks')
+            .filter(t => t.parentTaskId === ref.id)
+            .map(t => ({ entity: 'task' as const, id: t.id })),
+        ];
+        break;
+      default:
+        break;
+    }
+
+    const refs = new Map<string, EntityRef>();
+    children.forEach(child => {
+      [child, ...this.deletedWith(child, deletedAt)].forEach(r =>
+        refs.set(`${r.entity}:${r.id}`, r)
+      );
+    });
+    return Array.from(refs.values());
+  }
+
+  private applyPlannedUpdate(update: PlannedUpdate): void {
+    switch (update.field) {
+      case 'ownerId':
+        this.updateProject(update.id, { ownerId: update.to });
+        break;
+      case 'assigneeId':
+        this.updateTask(update.id, { assigneeId: update.to });
+        break;
+      case 'projectId':
+        this.updateTask(update.id, { projectId: update.to });
+        break;
+      case 'tags':
+        this.updateTask(update.id, { tags: update.to });
+        break;
+      case 'parentTaskId':
+        this.updateTask(update.id, { parentTaskId: update.to });
+        break;
+      case 'blockedBy':
+        this.updateTask(update.id, { blockedBy: update.to });
+        break;
+      case 'sprintId':
+        this.updateTask(update.id, { sprintId: update.to });
+        break;
+      case 'userId':
+        this.updateComment(update.id, { userId: update.to });
+        break;
+    }
+  }
+
+  private persist(mutation: Mutation, undo: () => void): void {
+    if (this.pending) {
+      this.pending.mutations.push(mutation);
+      this.pending.undo.push(undo);
+      return;
+    }
+    let revisions: Revision[];
+    try {
+      revisions = this.flush([mutation]);
+    } catch (error) {
+      undo();
+      throw error;
+    }
+    this.notifyChange(revisions);
+  }
+
+  // Write mutations to storage; returns the revisions among them
+  private flush(mutations: Mutation[]): Revision[] {
+    this.storage.write(mutations);
+    this.version++;
+    const revisions: Revision[] = [];
+    mutations.forEach(mutation => {
+      if (mutation.collection === 'revisions' && mutation.type === 'put') {
+        revisions.push(mutation.record as Revision);
+      }
+      if (!isEntityMutation(mutation)) return;
+      if (mutation.type === 'clear') {
+        this.recordVersions.set(`${mutation.collection}:*`, this.version);
+      } else {
+        const id = mutation.type === 'put' ? mutation.record.id : mutation.id;
+        this.recordVersions.set(`${mutation.collection}:${id}`, this.version);
+      }
+    });
+    return revisions;
+  }
+
+  private notifyChange(revisions: Revision[]): void {
+    if (revisions.length === 0) return;
+    this.changeListeners.forEach(listener => {
+      listener(revisions);
+    });
+  }
+
+  // Run a multi-step operation so that its mutations reach storage as one group
+  // If any step throws, the steps before it are undone and nothing is written
+  private atomically<T>(operation: () => T): T {
+    if (this.pending) {
+      return operation();
+    }
+
+    const pending: { mutations: Mutation[]; undo: Array<() => void> } = {
+      mutations: [],
+      undo: [],
     };
+    this.pending = pending;
+    let result: T;
+    let revisions: Revision[];
+    try {
+      result = operation();
+      revisions = this.flush(pending.mutations);
+    } catch (error) {
+      // Undo in reverse order so every record ends up as it was before the operation
+      pending.undo.reverse().forEach(undo => {
+        undo();
+      });
+      throw error;
+    } finally {
+      this.pending = null;
+    }
+    // Listeners only hear about changes that were stored
+    this.notifyChange(revisions);
+    return result;
+  }
+
+  // Whether this is the working copy of a transaction
+  get inTransaction(): boolean {
+    return this.storage instanceof SnapshotStorage;
+  }
+
+  // Start a transaction working on a snapshot of the current state
+  // Nothing it changes is visible outside it until commit()
+  beginTransaction(): Transaction {
+    const baseVersion = this.version;
+    const storage = new SnapshotStorage({
+      users: Array.from(this.db.users.values()),
+      projects: Array.from(this.db.projects.values()),
+      tasks: Array.from(this.db.tasks.values()),
+      tags: Array.from(this.db.tags.values()),
+      comments: Array.from(this.db.comments.values()),
+      sprints: Array.from(this.db.sprints.values()),
+      revisions: Array.from(this.history.values()).flat(),
+      // Tool calls are audited by the database they run against, not by its transactions
+      auditLog: [],
+    });
+    return new Transaction(new InMemoryDatabase(storage), storage, mutations => {
+      this.applyTransaction(mutations, baseVersion);
+    });
+  }
+
+  // Run a synchronous operation in a transaction: it is committed if the operation
+  // returns and rolled back if it throws
+  transaction<T>(operation: (tx: InMemoryDatabase) => T): T {
+    const transaction = this.beginTransaction();
+    let result: T;
+    try {
+      result = operation(transaction.db);
+    } catch (error) {
+      transaction.rollback();
+      throw error;
+    }
+    transaction.commit();
+    return result;
+  }
+
+  // First committer wins: a transaction that changes a record which was changed
+  // after the transaction began is rejected as a whole
+  private applyTransaction(mutations: readonly Mutation[], baseVersion: number): void {
+    // Revisions made in the working copy are left out: applying the changes here
+    // records them again, with versions that follow this database's history
+    const changes = mutations.filter(isEntityMutation);
+    const changedSince = (key: string) => (this.recordVersions.get(key) ?? 0) > baseVersion;
+    changes.forEach(mutation => {
+      const collection = mutation.collection;
+      if (mutation.type === 'clear') {
+        const changed = Array.from(this.recordVersions.keys()).some(
+          key => key.startsWith(`${collection}:`) && changedSince(key)
+        );
+        if (changed) {
+          throw new TransactionConflictError(`${collection} changed after the transaction began`);
+        }
+        return;
+      }
+      const id = mutation.type === 'put' ? mutation.record.id : mutation.id;
+      if (changedSince(`${collection}:${id}`) || changedSince(`${collection}:*`)) {
+        throw new TransactionConflictError(
+          `${ENTITY_BY_COLLECTION[collection]} "${id}" changed after the transaction began`
+        );
+      }
+    });
+
+    this.atomically(() => {
+      changes.forEach(mutation => {
+        switch (mutation.type) {
+          case 'put': {
+            const record = mutation.record as EntityOf<Collection>;
+            // Records committed meanwhile may have removed something this one points at
+            this.validateReferences(mutation.collection, record);
+            this.put(mutation.collection, record);
+            break;
+          }
+          case 'delete':
+            this.remove(mutation.collection, mutation.id);
+            break;
+          case 'clear':
+            this.clear(mutation.collection);
+            break;
+        }
+      });
+
+      // Likewise, records committed meanwhile may point at something this one deleted
+      changes.forEach(mutation => {
+        if (mutation.type === 'clear') return;
+        const id = mutation.type === 'put' ? mutation.record.id : mutation.id;
+        if (this.find(mutation.collection, id)) return;
+        const referrer = this.findReferrer(mutation.collection, id);
+        if (referrer) {
+          const entity = ENTITY_BY_COLLECTION[mutation.collection];
+          throw new TransactionConflictError(
+            `${entity} "${id}" is now referenced by ${referrer.entity} "${referrer.id}"`
+          );
+        }
+      });
+    });
+  }
 
-    // Initialize with some sample data
-    this.initializeSampleData();
+  private validateReferences(collection: Collection, record: EntityOf<Collection>): void {
+    switch (collection) {
+      case 'projects':
+        this.validateProjectReferences(record as Project);
+        break;
+      case 'tasks':
+        this.validateTaskReferences(record as Task);
+        break;
+      case 'comments':
+        this.validateCommentReferences(record as Comment);
+        break;
+      case 'sprints':
+        this.validateSprintReferences(record as Sprint);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private findReferrer(collection: Collection, id: string): EntityRef | undefined {
+    switch (collection) {
+      case 'users': {
+        const project = this.getProjectsByOwner(id)[0];
+        if (project) return { entity: 'project', id: project.id };
+        const task = this.getTasksByAssignee(id)[0];
+        if (task) return { entity: 'task', id: task.id };
+        const comment = this.getCommentsByUser(id)[0];
+        return comment && { entity: 'comment', id: comment.id };
+      }
+      case 'projects': {
+        const task = this.getTasksByProject(id)[0];
+        if (task) return { entity: 'task', id: task.id };
+        const sprint = this.getSprintsByProject(id)[0];
+        return sprint && { entity: 'sprint', id: sprint.id };
+      }
+      case 'tasks': {
+        const comment = this.getCommentsByTask(id)[0];
+        if (comment) return { entity: 'comment', id: comment.id };
+        const subtask = this.getSubtasks(id)[0];
+        if (subtask) return { entity: 'task', id: subtask.id };
+        const dependent = this.getDependents(id)[0];
+        return dependent && { entity: 'task', id: dependent.id };
+      }
+      case 'tags': {
+        const task = this.getTasksByTag(id)[0];
+        return task && { entity: 'task', id: task.id };
+      }
+      case 'comments':
+        return undefined;
+      case 'sprints': {
+        const task = this.getSprintTasks(id)[0];
+        return task && { entity: 'task', id: task.id };
+      }
+    }
   }
 
   private initializeSampleData(): void {
@@ -25,6 +732,7 @@ class InMemoryDatabase {
       role: 'admin',
       createdAt: new Date('2024-01-01'),
       updatedAt: new Date('2024-01-01'),
+      deletedAt: null,
     };
 
     const user2: User = {
@@ -34,10 +742,11 @@ class InMemoryDatabase {
       role: 'user',
       createdAt: new Date('2024-01-02'),
       updatedAt: new Date('2024-01-02'),
+      deletedAt: null,
     };
 
-    this.db.users.set(user1.id, user1);
-    this.db.users.set(user2.id, user2);
+    this.put('users', user1);
+    this.put('users', user2);
 
     // Sample tags
     const tag1: Tag = {
@@ -45,6 +754,7 @@ class InMemoryDatabase {
       name: 'frontend',
       color: '#3b82f6',
       createdAt: new Date('2024-01-01'),
+      deletedAt: null,
     };
 
     const tag2: Tag = {
@@ -52,6 +762,7 @@ class InMemoryDatabase {
       name: 'backend',
       color: '#10b981',
       createdAt: new Date('2024-01-01'),
+      deletedAt: null,
     };
 
     const tag3: Tag = {
@@ -59,11 +770,12 @@ class InMemoryDatabase {
       name: 'bug',
       color: '#ef4444',
       createdAt: new Date('2024-01-01'),
+      deletedAt: null,
     };
 
-    this.db.tags.set(tag1.id, tag1);
-    this.db.tags.set(tag2.id, tag2);
-    this.db.tags.set(tag3.id, tag3);
+    this.put('tags', tag1);
+    this.put('tags', tag2);
+    this.put('tags', tag3);
 
     // Sample project
     const project1: Project = {
@@ -72,11 +784,13 @@ class InMemoryDatabase {
       description: 'Building a modern web application',
       ownerId: user1.id,
       status: 'active',
+      workflow: defaultWorkflow(),
       createdAt: new Date('2024-01-03'),
       updatedAt: new Date('2024-01-03'),
+      deletedAt: null,
     };
 
-    this.db.projects.set(project1.id, project1);
+    this.put('projects', project1);
 
     // Sample tasks
     const task1: Task = {
@@ -89,8 +803,13 @@ class InMemoryDatabase {
       priority: 'high',
       dueDate: new Date('2024-02-01'),
       tags: [tag1.id],
+      parentTaskId: null,
+      blockedBy: [],
+      sprintId: null,
+      createdBy: user1.id,
       createdAt: new Date('2024-01-05'),
       updatedAt: new Date('2024-01-10'),
+      deletedAt: null,
     };
 
     const task2: Task = {
@@ -103,12 +822,17 @@ class InMemoryDatabase {
       priority: 'urgent',
       dueDate: new Date('2024-01-20'),
       tags: [tag2.id, tag3.id],
+      parentTaskId: null,
+      blockedBy: [],
+      sprintId: null,
+      createdBy: user1.id,
       createdAt: new Date('2024-01-08'),
       updatedAt: new Date('2024-01-08'),
+      deletedAt: null,
     };
 
-    this.db.tasks.set(task1.id, task1);
-    this.db.tasks.set(task2.id, task2);
+    this.put('tasks', task1);
+    this.put('tasks', task2);
 
     // Sample comments
     const comment1: Comment = {
@@ -118,13 +842,14 @@ class InMemoryDatabase {
       content: 'Working on the design system first',
       createdAt: new Date('2024-01-06'),
       updatedAt: new Date('2024-01-06'),
+      deletedAt: null,
     };
 
-    this.db.comments.set(comment1.id, comment1);
+    this.put('comments', comment1);
   }
 
   // User operations
-  createUser(user: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): User {
+  createUser(user: Omit<User, 'id' | 'createdAt' | 'updatedAt' | 'deletedAt'>): User {
     const id = `user-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
     const now = new Date();
     const newUser: User = {
@@ -132,21 +857,25 @@ class InMemoryDatabase {
       id,
       createdAt: now,
       updatedAt: now,
+      deletedAt: null,
     };
-    this.db.users.set(id, newUser);
+    this.put('users', newUser);
     return newUser;
   }
 
   getUser(id: string): User | undefined {
-    return this.db.users.get(id);
+    return this.find('users', id);
   }
 
   getAllUsers(): User[] {
-    return Array.from(this.db.users.values());
+    return this.live('users');
   }
 
-  updateUser(id: string, updates: Partial<Omit<User, 'id' | 'createdAt'>>): User | null {
-    const user = this.db.users.get(id);
+  updateUser(
+    id: string,
+    updates: Partial<Omit<User, 'id' | 'createdAt' | 'deletedAt'>>
+  ): User | null {
+    const user = this.find('users', id);
     if (!user) return null;
 
     const updated: User = {
@@ -154,220 +883,895 @@ class InMemoryDatabase {
       ...updates,
       updatedAt: new Date(),
     };
-    this.db.users.set(id, updated);
+    this.put('users', updated);
     return updated;
   }
 
-  deleteUser(id: string): boolean {
-    return this.db.users.delete(id);
+  // Delete a user, applying the given policies to the projects they own,
+  // the tasks assigned to them and the comments they wrote
+  deleteUser(id: string, policies: DeletePolicies = {}): boolean {
+    const plan = this.planUserDeletion(id, policies);
+    if (!plan) return false;
+    this.executeDeletionPlan(plan);
+    return true;
+  }
+
+  // Work out what deleteUser would change, without changing anything
+  planUserDeletion(id: string, policies: DeletePolicies = {}): DeletionPlan | null {
+    const user = this.find('users', id);
+    return user ? new DeletionPlanner(this, policies).planUser(user) : null;
+  }
+
+  // Delete every user, applying the policies to what refers to them as deleteUser does
+  clearAllUsers(policies: DeletePolicies = {}): void {
+    this.executeDeletionPlan(this.planClearAllUsers(policies));
   }
 
-  clearAllUsers(): void {
-    this.db.users.clear();
+  planClearAllUsers(policies: DeletePolicies = {}): BulkDeletionPlan {
+    return new DeletionPlanner(this, policies).planAllUsers(this.getAllUsers());
   }
 
   // Project operations
-  createProject(project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>): Project {
+  // The owner defaults to the acting user, and the workflow to todo, in-progress, review, done
+  createProject(
+    project: Omit<
+      Project,
+      'id' | 'ownerId' | 'workflow' | 'createdAt' | 'updatedAt' | 'deletedAt'
+    > & {
+      ownerId?: string;
+      workflow?: Workflow;
+    }
+  ): Project {
+    const ownerId = project.ownerId ?? this.actor;
+    if (ownerId === null) {
+      throw new AttributionError('ownerId', 'required when no user is acting');
+    }
+    this.validateProjectReferences({ ownerId });
+    const workflow = project.workflow ?? defaultWorkflow();
+    validateWorkflow(workflow);
     const id = `project-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
     const now = new Date();
     const newProject: Project = {
       ...project,
+      ownerId,
+      workflow,
       id,
       createdAt: now,
       updatedAt: now,
+      deletedAt: null,
     };
-    this.db.projects.set(id, newProject);
+    this.put('projects', newProject);
     return newProject;
   }
 
   getProject(id: string): Project | undefined {
-    return this.db.projects.get(id);
+    return this.find('projects', id);
   }
 
   getAllProjects(): Project[] {
-    return Array.from(this.db.projects.values());
+    return this.live('projects');
   }
 
   getProjectsByOwner(ownerId: string): Project[] {
-    return Array.from(this.db.projects.values()).filter(p => p.ownerId === ownerId);
+    return this.live('projects').filter(p => p.ownerId === ownerId);
   }
 
-  updateProject(id: string, updates: Partial<Omit<Project, 'id' | 'createdAt'>>): Project | null {
-    const project = this.db.projects.get(id);
+  // A user belongs to a project they own or have a task assigned in
+  isProjectMember(projectId: string, userId: string): boolean {
+    return (
+      this.find('projects', projectId)?.ownerId === userId ||
+      this.getTasksByProject(projectId).some(t => t.assigneeId === userId)
+    );
+  }
+
+  updateProject(
+    id: string,
+    updates: Partial<Omit<Project, 'id' | 'createdAt' | 'deletedAt'>>
+  ): Project | null {
+    const project = this.find('projects', id);
     if (!project) return null;
+    this.validateProjectReferences(updates);
+    if (updates.workflow) {
+      validateWorkflow(updates.workflow);
+      // A new workflow has to keep every status the project's tasks are in
+      const statuses = updates.workflow.statuses.map(status => status.name);
+      const stranded = this.getTasksByProject(id).find(task => !statuses.includes(task.status));
+      if (stranded) {
+        throw new InvalidWorkflowError(
+          `status "${stranded.status}" is still used by task "${stranded.id}"`
+        );
+      }
+    }
 
     const updated: Project = {
       ...project,
       ...updates,
       updatedAt: new Date(),
     };
-    this.db.projects.set(id, updated);
+    this.put('projects', updated);
     return updated;
   }
 
-  deleteProject(id: string): boolean {
-    // Also delete associated tasks and comments
-    const tasks = this.getTasksByProject(id);
-    tasks.forEach(task => {
-      this.deleteTask(task.id);
-    });
-    return this.db.projects.delete(id);
+  // Delete a project; its tasks are deleted with it unless another policy is given
+  deleteProject(id: string, policies: DeletePolicies = {}): boolean {
+    const plan = this.planProjectDeletion(id, policies);
+    if (!plan) return false;
+    this.executeDeletionPlan(plan);
+    return true;
+  }
+
+  planProjectDeletion(id: string, policies: DeletePolicies = {}): DeletionPlan | null {
+    const project = this.find('projects', id);
+    return project ? new DeletionPlanner(this, policies).planProject(project) : null;
   }
 
   // Task operations
-  createTask(task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>): Task {
+  // A task given a parentTaskId is a subtask of that task, and one given a sprintId
+  // is planned for that sprint rather than left in the backlog; like updateTask, it cannot
+  // start out in progress or done while tasks it is blocked by are not done, unless forced
+  createTask(
+    task: Omit<
+      Task,
+      | 'id'
+      | 'parentTaskId'
+      | 'blockedBy'
+      | 'sprintId'
+      | 'createdBy'
+      | 'createdAt'
+      | 'updatedAt'
+      | 'deletedAt'
+    > & {
+      parentTaskId?: string | null;
+      blockedBy?: string[];
+      sprintId?: string | null;
+    },
+    options: { force?: boolean } = {}
+  ): Task {
+    this.validateTaskReferences(task);
+    this.validateTaskStatus(task);
+    const sprintId = task.sprintId ?? null;
+    this.validateTaskSprint({ ...task, sprintId });
     const id = `task-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    const blockedBy = task.blockedBy ?? [];
+    const blockers = this.categoryOf(task) === 'todo' ? [] : this.openBlockers({ blockedBy });
+    if (blockers.length > 0 && !options.force) {
+      throw new TaskBlockedError(
+        id,
+        task.status,
+        blockers.map(blocker => blocker.id)
+      );
+    }
     const now = new Date();
     const newTask: Task = {
       ...task,
+      parentTaskId: task.parentTaskId ?? null,
+      blockedBy,
+      sprintId,
       id,
+      createdBy: this.actor,
       createdAt: now,
       updatedAt: now,
+      deletedAt: null,
     };
-    this.db.tasks.set(id, newTask);
+    this.put('tasks', newTask);
     return newTask;
   }
 
   getTask(id: string): Task | undefined {
-    return this.db.tasks.get(id);
+    return this.find('tasks', id);
   }
 
   getAllTasks(): Task[] {
-    return Array.from(this.db.tasks.values());
+    return this.live('tasks');
   }
 
   getTasksByProject(projectId: string): Task[] {
-    return Array.from(this.db.tasks.values()).filter(t => t.projectId === projectId);
+    return this.live('tasks').filter(t => t.projectId === projectId);
   }
 
   getTasksByAssignee(assigneeId: string): Task[] {
-    return Array.from(this.db.tasks.values()).filter(t => t.assigneeId === assigneeId);
+    return this.live('tasks').filter(t => t.assigneeId === assigneeId);
   }
 
   getTasksByStatus(status: Task['status']): Task[] {
-    return Array.from(this.db.tasks.values()).filter(t => t.status === status);
+    return this.live('tasks').filter(t => t.status === status);
   }
 
   getTasksByTag(tagId: string): Task[] {
-    return Array.from(this.db.tasks.values()).filter(t => t.tags.includes(tagId));
+    return this.live('tasks').filter(t => t.tags.includes(tagId));
+  }
+
+  // Tasks matching every criterion of the query, in the order of its sort keys
+  queryTasks(query: TaskQuery = {}): Task[] {
+    const tasks = this.live('tasks').filter(task => matchesTaskQuery(task, query));
+    return query.sort ? sortTasks(tasks, query.sort, this.getStatusOrder()) : tasks;
   }
 
-  updateTask(id: string, updates: Partial<Omit<Task, 'id' | 'createdAt'>>): Task | null {
-    const task = this.db.tasks.get(id);
+  // A status change has to be a transition the project's workflow allows, and starting or
+  // finishing a task fails while tasks it is blocked by are not done, unless the update is forced
+  updateTask(
+    id: string,
+    updates: Partial<Omit<Task, 'id' | 'createdBy' | 'createdAt' | 'deletedAt'>>,
+    options: { force?: boolean } = {}
+  ): Task | null {
+    const task = this.find('tasks', id);
     if (!task) return null;
+    this.validateTaskReferences({ ...updates, id });
+    const merged = { ...task, ...updates };
+    if (updates.status !== undefined || updates.projectId !== undefined) {
+      this.validateTaskStatus(merged);
+    }
+    if (merged.sprintId !== task.sprintId || merged.projectId !== task.projectId) {
+      // A closed sprint keeps the tasks its closure recorded as completed
+      const current = task.sprintId === null ? undefined : this.find('sprints', task.sprintId);
+      if (merged.sprintId !== task.sprintId && current?.status === 'closed') {
+        throw new InvalidSprintError(
+          'sprintId',
+          `sprint "${current.id}" is closed; its tasks cannot be moved out of it`
+        );
+      }
+      this.validateTaskSprint(merged);
+    }
+    const { status } = updates;
+    if (status !== undefined && status !== task.status) {
+      // Moving to another project starts over in that project's workflow
+      if (merged.projectId === task.projectId) {
+        const allowed = allowedTransitions(this.workflowOf(task.projectId), task.status);
+        if (!allowed.includes(status)) {
+          throw new StatusTransitionError(id, task.status, status, allowed);
+        }
+      }
+      const blockers = this.categoryOf(merged) === 'todo' ? [] : this.openBlockers(merged);
+      if (blockers.length > 0 && !options.force) {
+        throw new TaskBlockedError(
+          id,
+          status,
+          blockers.map(blocker => blocker.id)
+        );
+      }
+    }
 
     const updated: Task = {
       ...task,
       ...updates,
       updatedAt: new Date(),
     };
-    this.db.tasks.set(id, updated);
+    this.put('tasks', updated);
     return updated;
   }
 
-  deleteTask(id: string): boolean {
-    // Also delete associated comments
-    const comments = this.getCommentsByTask(id);
-    comments.forEach(comment => {
-      this.db.comments.delete(comment.id);
+  // Delete a task together with its comments; its subtasks are deleted with it
+  // unless another policy is given
+  deleteTask(id: string, policies: DeletePolicies = {}): boolean {
+    const plan = this.planTaskDeletion(id, policies);
+    if (!plan) return false;
+    this.executeDeletionPlan(plan);
+    return true;
+  }
+
+  planTaskDeletion(id: string, policies: DeletePolicies = {}): DeletionPlan | null {
+    const task = this.find('tasks', id);
+    return task ? new DeletionPlanner(this, policies).planTask(task) : null;
+  }
+
+  // Direct subtasks of a task, in creation order
+  getSubtasks(parentTaskId: string): Task[] {
+    return this.live('tasks').filter(t => t.parentTaskId === parentTaskId);
+  }
+
+  // Every task below a task, depth first with each task followed by its own subtasks;
+  // returns null when the task does not exist
+  getSubtaskTree(id: string): SubtaskEntry[] | null {
+    if (!this.find('tasks', id)) return null;
+    const below = (parentTaskId: string, depth: number): SubtaskEntry[] =>
+      this.getSubtasks(parentTaskId).flatMap(task => [
+        { task, depth },
+        ...below(task.id, depth + 1),
+      ]);
+    return below(id, 1);
+  }
+
+  // Completion of a task rolled up from the statuses of the tasks below it
+  getTaskProgress(id: string): TaskProgress | null {
+    const task = this.find('tasks', id);
+    const tree = this.getSubtaskTree(id);
+    if (!task || !tree) return null;
+
+    // Every status of the task's workflow is listed, along with any other status a subtask has
+    const byStatus: Record<string, number> = Object.fromEntries(
+      this.workflowOf(task.projectId).statuses.map(status => [status.name, 0])
+    );
+    tree.forEach(entry => {
+      byStatus[entry.task.status] = (byStatus[entry.task.status] ?? 0) + 1;
     });
-    return this.db.tasks.delete(id);
+    const byCategory = this.countByCategory(tree.map(entry => entry.task));
+    // Only tasks at the bottom count, as the status of a task with subtasks follows theirs
+    const leaves = tree
+      .map(entry => entry.task)
+      .filter(subtask => !tree.some(entry => entry.task.parentTaskId === subtask.id));
+    const counted = leaves.length > 0 ? leaves : [task];
+    const done = counted.filter(subtask => this.categoryOf(subtask) === 'done').length;
+    return {
+      taskId: id,
+      subtasks: tree.length,
+      byStatus,
+      byCategory,
+      percentComplete: Math.round((done / counted.length) * 100),
+    };
+  }
+
+  // Tasks blocked by a task, in creation order
+  getDependents(taskId: string): Task[] {
+    return this.live('tasks').filter(t => t.blockedBy.includes(taskId));
+  }
+
+  // Tasks that are not done but wait on tasks that are not done either,
+  // optionally only those in one project
+  getBlockedTasks(projectId?: string): BlockedTask[] {
+    return this.live('tasks')
+      .filter(task => this.categoryOf(task) !== 'done')
+      .filter(task => projectId === undefined || task.projectId === projectId)
+      .flatMap(task => {
+        const blockers = this.openBlockers(task);
+        return blockers.length > 0 ? [{ task, blockers }] : [];
+      });
+  }
+
+  // The longest chain of open tasks in a project that have to be done one after another;
+  // returns null when the project does not exist
+  getCriticalPath(projectId: string): CriticalPath | null {
+    if (!this.find('projects', projectId)) return null;
+    const open = this.getTasksByProject(projectId).filter(task => this.categoryOf(task) !== 'done');
+    return { projectId, tasks: longestDependencyChain(open) };
+  }
+
+  private openBlockers(task: Pick<Task, 'blockedBy'>): Task[] {
+    return task.blockedBy
+      .map(blockerId => this.find('tasks', blockerId))
+      .filter(
+        (blocker): blocker is Task => blocker !== undefined && this.categoryOf(blocker) !== 'done'
+      );
+  }
+
+  private workflowOf(projectId: string): Workflow {
+    return this.find('projects', projectId)?.workflow ?? defaultWorkflow();
+  }
+
+  private categoryOf(task: Pick<Task, 'projectId' | 'status'>): StatusCategory {
+    return statusCategory(this.workflowOf(task.projectId), task.status);
+  }
+
+  // Every status of the projects' workflows, from not started to done
+  getStatusOrder(): string[] {
+    return statusOrder(this.live('projects').map(project => project.workflow));
   }
 
   // Tag operations
-  createTag(tag: Omit<Tag, 'id' | 'createdAt'>): Tag {
+  createTag(tag: Omit<Tag, 'id' | 'createdAt' | 'deletedAt'>): Tag {
     const id = `tag-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
     const now = new Date();
     const newTag: Tag = {
       ...tag,
       id,
       createdAt: now,
+      deletedAt: null,
     };
-    this.db.tags.set(id, newTag);
+    this.put('tags', newTag);
     return newTag;
   }
 
   getTag(id: string): Tag | undefined {
-    return this.db.tags.get(id);
+    return this.find('tags', id);
   }
 
   getAllTags(): Tag[] {
-    return Array.from(this.db.tags.values());
+    return this.live('tags');
   }
 
-  updateTag(id: string, updates: Partial<Omit<Tag, 'id' | 'createdAt'>>): Tag | null {
-    const tag = this.db.tags.get(id);
+  updateTag(id: string, updates: Partial<Omit<Tag, 'id' | 'createdAt' | 'deletedAt'>>): Tag | null {
+    const tag = this.find('tags', id);
     if (!tag) return null;
 
     const updated: Tag = {
       ...tag,
       ...updates,
     };
-    this.db.tags.set(id, updated);
+    this.put('tags', updated);
     return updated;
   }
 
-  deleteTag(id: string): boolean {
-    // Remove tag from all tasks
-    const tasks = this.getTasksByTag(id);
-    tasks.forEach(task => {
-      const updatedTags = task.tags.filter(tagId => tagId !== id);
-      this.updateTask(task.id, { tags: updatedTags });
+  // Delete a tag; it is removed from its tasks unless another policy is given
+  deleteTag(id: string, policies: DeletePolicies = {}): boolean {
+    const plan = this.planTagDeletion(id, policies);
+    if (!plan) return false;
+    this.executeDeletionPlan(plan);
+    return true;
+  }
+
+  planTagDeletion(id: string, policies: DeletePolicies = {}): DeletionPlan | null {
+    const tag = this.find('tags', id);
+    return tag ? new DeletionPlanner(this, policies).planTag(tag) : null;
+  }
+
+  // Sprint operations
+  // Sprints start out planned; closeSprint is the only way to close one
+  createSprint(
+    sprint: Omit<Sprint, 'id' | 'status' | 'closedAt' | 'createdAt' | 'updatedAt' | 'deletedAt'>
+  ): Sprint {
+    this.validateSprintReferences(sprint);
+    this.validateSprintDates(sprint);
+    const id = `sprint-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    const now = new Date();
+    const newSprint: Sprint = {
+      ...sprint,
+      status: 'planned',
+      closedAt: null,
+      id,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null,
+    };
+    this.put('sprints', newSprint);
+    return newSprint;
+  }
+
+  getSprint(id: string): Sprint | undefined {
+    return this.find('sprints', id);
+  }
+
+  getAllSprints(): Sprint[] {
+    return this.live('sprints');
+  }
+
+  // Sprints of a project, by start date
+  getSprintsByProject(projectId: string): Sprint[] {
+    return this.live('sprints')
+      .filter(s => s.projectId === projectId)
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  }
+
+  // Tasks planned for a sprint, in creation order
+  getSprintTasks(sprintId: string): Task[] {
+    return this.live('tasks').filter(t => t.sprintId === sprintId);
+  }
+
+  // A sprint stays in its project, and a closed sprint cannot be planned or started again
+  updateSprint(
+    id: string,
+    updates: Partial<
+      Omit<
+        Sprint,
+        'id' | 'projectId' | 'status' | 'closedAt' | 'createdAt' | 'updatedAt' | 'deletedAt'
+      >
+    > & { status?: 'planned' | 'active' }
+  ): Sprint | null {
+    const sprint = this.find('sprints', id);
+    if (!sprint) return null;
+    if (updates.status !== undefined && sprint.status === 'closed') {
+      throw new InvalidSprintError('status', `sprint "${id}" is closed`);
+    }
+    const merged = { ...sprint, ...updates };
+    this.validateSprintDates(merged);
+    const planned = this.getSprintTasks(id).length;
+    if (merged.capacity !== null && merged.capacity < planned) {
+      throw new InvalidSprintError(
+        'capacity',
+        `sprint "${id}" already holds ${String(planned)} tasks`
+      );
+    }
+
+    const updated: Sprint = {
+      ...merged,
+      updatedAt: new Date(),
+    };
+    this.put('sprints', updated);
+    return updated;
+  }
+
+  // Plan tasks into a sprint, or move them back to the backlog when sprintId is null;
+  // either every task moves or none does
+  moveTasksToSprint(taskIds: readonly string[], sprintId: string | null): Task[] {
+    return this.atomically(() =>
+      taskIds.map(taskId => {
+        const task = this.updateTask(taskId, { sprintId });
+        if (!task) {
+          throw new ReferenceNotFoundError(
+            'taskIds',
+            'task',
+            taskId,
+            this.findSimilar('task', taskId, 3)
+          );
+        }
+        return task;
+      })
+    );
+  }
+
+  // Close a sprint: its done tasks stay with it and the others are carried over to the given
+  // sprint of the same project, or back to the backlog; returns null when the sprint does not exist
+  closeSprint(id: string, carryOverTo: string | null = null): SprintClosure | null {
+    const sprint = this.find('sprints', id);
+    if (!sprint) return null;
+    if (sprint.status === 'closed') {
+      throw new InvalidSprintError('sprintId', `sprint "${id}" is already closed`);
+    }
+    if (carryOverTo === id) {
+      throw new InvalidSprintError('carryOverTo', 'a sprint cannot carry tasks over to itself');
+    }
+    if (carryOverTo !== null) {
+      this.validateCarryOver(sprint, carryOverTo);
+    }
+
+    const tasks = this.getSprintTasks(id);
+    const unfinished = tasks.filter(task => this.categoryOf(task) !== 'done');
+    const now = new Date();
+    const closed: Sprint = { ...sprint, status: 'closed', closedAt: now, updatedAt: now };
+    this.atomically(() => {
+      unfinished.forEach(task => {
+        this.updateTask(task.id, { sprintId: carryOverTo });
+      });
+      this.put('sprints', closed);
     });
-    return this.db.tags.delete(id);
+    return {
+      sprint: closed,
+      completed: tasks.filter(task => !unfinished.includes(task)).map(task => task.id),
+      carriedOver: unfinished.map(task => task.id),
+      carriedOverTo: carryOverTo,
+    };
+  }
+
+  // Unfinished tasks can only be carried over to an open sprint of the same project,
+  // whether or not there are any to move; its capacity is checked as they move
+  private validateCarryOver(sprint: Sprint, carryOverTo: string): void {
+    this.assertReference('carryOverTo', 'sprint', carryOverTo);
+    const target = this.find('sprints', carryOverTo);
+    if (target && target.projectId !== sprint.projectId) {
+      throw new InvalidSprintError(
+        'carryOverTo',
+        `sprint "${target.id}" belongs to project "${target.projectId}", not "${sprint.projectId}"`
+      );
+    }
+    if (target?.status === 'closed') {
+      throw new InvalidSprintError('carryOverTo', `sprint "${target.id}" is closed`);
+    }
+  }
+
+  // Delete a sprint; its tasks go back to the backlog unless another policy is given
+  deleteSprint(id: string, policies: DeletePolicies = {}): boolean {
+    const plan = this.planSprintDeletion(id, policies);
+    if (!plan) return false;
+    this.executeDeletionPlan(plan);
+    return true;
+  }
+
+  planSprintDeletion(id: string, policies: DeletePolicies = {}): DeletionPlan | null {
+    const sprint = this.find('sprints', id);
+    return sprint ? new DeletionPlanner(this, policies).planSprint(sprint) : null;
   }
 
   // Comment operations
-  createComment(comment: Omit<Comment, 'id' | 'createdAt' | 'updatedAt'>): Comment {
+  // Comments are written by the acting user when there is one
+  createComment(
+    comment: Omit<Comment, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'deletedAt'> & {
+      userId?: string;
+    }
+  ): Comment {
+    const userId = this.actor ?? comment.userId;
+    if (userId === undefined) {
+      throw new AttributionError('userId', 'required when no user is acting');
+    }
+    if (comment.userId !== undefined && comment.userId !== userId) {
+      throw new AttributionError('userId', `comments are written as the acting user "${userId}"`);
+    }
+    this.validateCommentReferences({ ...comment, userId });
     const id = `comment-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
     const now = new Date();
     const newComment: Comment = {
       ...comment,
+      userId,
       id,
       createdAt: now,
       updatedAt: now,
+      deletedAt: null,
     };
-    this.db.comments.set(id, newComment);
+    this.put('comments', newComment);
     return newComment;
   }
 
   getComment(id: string): Comment | undefined {
-    return this.db.comments.get(id);
+    return this.find('comments', id);
   }
 
   getCommentsByTask(taskId: string): Comment[] {
-    return Array.from(this.db.comments.values())
+    return this.live('comments')
       .filter(c => c.taskId === taskId)
       .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
 
   getCommentsByUser(userId: string): Comment[] {
-    return Array.from(this.db.comments.values())
+    return this.live('comments')
       .filter(c => c.userId === userId)
       .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
 
-  updateComment(id: string, updates: Partial<Omit<Comment, 'id' | 'createdAt'>>): Comment | null {
-    const comment = this.db.comments.get(id);
+  updateComment(
+    id: string,
+    updates: Partial<Omit<Comment, 'id' | 'createdAt' | 'deletedAt'>>
+  ): Comment | null {
+    const comment = this.find('comments', id);
     if (!comment) return null;
+    this.validateCommentReferences(updates);
 
     const updated: Comment = {
       ...comment,
       ...updates,
       updatedAt: new Date(),
     };
-    this.db.comments.set(id, updated);
+    this.put('comments', updated);
     return updated;
   }
 
   deleteComment(id: string): boolean {
-    return this.db.comments.delete(id);
+    const plan = this.planCommentDeletion(id);
+    if (!plan) return false;
+    this.executeDeletionPlan(plan);
+    return true;
+  }
+
+  planCommentDeletion(id: string): DeletionPlan | null {
+    const comment = this.find('comments', id);
+    return comment ? new DeletionPlanner(this, {}).planComment(comment) : null;
+  }
+
+  // Trash operations
+  // Deletes only move records to the trash; they stay there until restored or purged
+  getTrash(entity?: EntityType): TrashEntry[] {
+    const entities = entity ? [entity] : (Object.keys(COLLECTION_BY_ENTITY) as EntityType[]);
+    return entities
+      .flatMap(e =>
+        Array.from(this.table(COLLECTION_BY_ENTITY[e]).values()).flatMap(record =>
+          record.deletedAt
+            ? [{ entity: e, id: record.id, deletedAt: record.deletedAt, record }]
+            : []
+        )
+      )
+      .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  // Restore a record together with everything deleted along with it, such as a
+  // task's comments; returns null when the record is not in the trash
+  // References cleared by the delete (set-null, reassign-to) are not put back
+  restoreFromTrash(entity: EntityType, id: string): EntityRef[] | null {
+    const record = this.table(COLLECTION_BY_ENTITY[entity]).get(id);
+    if (!record?.deletedAt) return null;
+
+    const refs = [{ entity, id }, ...this.deletedWith({ entity, id }, record.deletedAt)];
+    this.atomically(() => {
+      refs.forEach(ref => {
+        const collection = COLLECTION_BY_ENTITY[ref.entity];
+        const trashed = this.table(collection).get(ref.id);
+        if (trashed) {
+          this.put(collection, { ...trashed, deletedAt: null });
+        }
+      });
+      // A restored record may point at something that is still in the trash or gone
+      refs.forEach(ref => {
+        const collection = COLLECTION_BY_ENTITY[ref.entity];
+        const restored = this.table(collection).get(ref.id);
+        if (restored) {
+          this.validateReferences(collection, restored);
+        }
+      });
+    });
+    return refs;
+  }
+
+  // Permanently delete a trashed record together with everything deleted along with it,
+  // or everything in the trash, optionally only records of one entity type
+  // Returns null when the given record is not in the trash
+  purgeTrash(scope: TrashScope = {}): EntityRef[] | null {
+    const refs = this.planTrashPurge(scope);
+    if (!refs) return null;
+    this.atomically(() => {
+      refs.forEach(ref => {
+        this.remove(COLLECTION_BY_ENTITY[ref.entity], ref.id);
+      });
+    });
+    return refs;
+  }
+
+  // Work out what purgeTrash would delete, without deleting anything
+  planTrashPurge(scope: TrashScope = {}): EntityRef[] | null {
+    let entries: TrashEntry[];
+    if ('id' in scope) {
+      const entry = this.getTrash(scope.entity).find(e => e.id === scope.id);
+      if (!entry) return null;
+      entries = [entry];
+    } else {
+      entries = this.getTrash(scope.entity);
+    }
+
+    const refs = new Map<string, EntityRef>();
+    entries.forEach(entry => {
+      const ref = { entity: entry.entity, id: entry.id };
+      [ref, ...this.deletedWith(ref, entry.deletedAt)].forEach(r =>
+        refs.set(`${r.entity}:${r.id}`, r)
+      );
+    });
+    return Array.from(refs.values());
+  }
+
+  // History operations
+  // Every change to a record is kept as a revision, including deletes and purges
+  getHistory(entity: EntityType, id: string): Revision[] {
+    return [...(this.history.get(`${entity}:${id}`) ?? [])];
+  }
+
+  // A single record as it was at the given time, or undefined when it did not exist or
+  // was in the trash then; only replays the record's own history, unlike asOf()
+  getRecordAsOf(entity: EntityType, id: string, at: Date): EntityRecord | undefined {
+    const collection = COLLECTION_BY_ENTITY[entity];
+    const revisions = this.history.get(`${entity}:${id}`);
+    if (revisions) {
+      const state = stateAt(revisions, at);
+      return state && !state.deletedAt ? withDefaults(collection, state) : undefined;
+    }
+    // Records loaded from storage written before history was kept have no revisions
+    const record = this.find(collection, id);
+    return record && record.createdAt <= at ? record : undefined;
+  }
+
+  // A read-only view of the database as it was at the given time
+  // Changes made through the view are discarded
+  asOf(at: Date): InMemoryDatabase {
+    const data: StoredData = {
+      users: [],
+      projects: [],
+      tasks: [],
+      tags: [],
+      comments: [],
+      sprints: [],
+      revisions: [],
+      auditLog: [],
+    };
+    const add = (entity: EntityType, record: EntityRecord) => {
+      (data[COLLECTION_BY_ENTITY[entity]] as EntityRecord[]).push(record);
+    };
+
+    this.history.forEach(revisions => {
+      const first = revisions[0];
+      const state = stateAt(revisions, at);
+      if (first && state) add(first.entity, state);
+    });
+    // Records loaded from storage written before history was kept have no revisions
+    (Object.keys(COLLECTION_BY_ENTITY) as EntityType[]).forEach(entity => {
+      this.table(COLLECTION_BY_ENTITY[entity]).forEach(record => {
+        if (!this.history.has(`${entity}:${record.id}`) && record.createdAt <= at) {
+          add(entity, record);
+        }
+      });
+    });
+
+    return new InMemoryDatabase(new SnapshotStorage(data));
+  }
+
+  // Put every record touched by the given revisions back into the state it had
+  // before them, as one atomic change; returns the revisions this records
+  // Fails without changing anything if one of the records was changed since
+  revert(revisions: readonly Revision[]): Revision[] {
+    const targets = new Map<
+      string,
+      { entity: EntityType; id: string; state: EntityRecord | null; version: number }
+    >();
+    revisions.forEach(revision => {
+      const key = `${revision.entity}:${revision.entityId}`;
+      const target = targets.get(key);
+      if (target) {
+        target.version = revision.version;
+      } else {
+        targets.set(key, {
+          entity: revision.entity,
+          id: revision.entityId,
+          state: revision.before,
+          version: revision.version,
+        });
+      }
+    });
+    targets.forEach((target, key) => {
+      if (this.history.get(key)?.at(-1)?.version !== target.version) {
+        throw new RevertConflictError(`${target.entity} "${target.id}" has changed since`);
+      }
+    });
+
+    const recorded: Revision[] = [];
+    const unsubscribe = this.onChange(changes => recorded.push(...changes));
+    try {
+      this.atomically(() => {
+        targets.forEach(target => {
+          const collection = COLLECTION_BY_ENTITY[target.entity];
+          if (target.state) {
+            this.put(collection, target.state);
+          } else {
+            this.remove(collection, target.id);
+          }
+        });
+        // Records changed by others meanwhile must still point at live records
+        targets.forEach(target => {
+          const collection = COLLECTION_BY_ENTITY[target.entity];
+          const record = this.find(collection, target.id);
+          if (record) {
+            this.validateReferences(collection, record);
+            return;
+          }
+          const referrer = this.findReferrer(collection, target.id);
+          if (referrer) {
+            throw new RevertConflictError(
+              `${target.entity} "${target.id}" is now referenced by ${referrer.entity} "${referrer.id}"`
+            );
+          }
+        });
+      });
+    } finally {
+      unsubscribe();
+    }
+    return recorded;
+  }
+
+  // Register a listener for stored changes; returns a function that removes it
+  onChange(listener: (revisions: Revision[]) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  // Append an entry to the audit log
+  recordAudit(entry: Omit<AuditEntry, 'id' | 'timestamp'>): AuditEntry {
+    const recorded: AuditEntry = {
+      ...entry,
+      id: `audit-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      timestamp: new Date(),
+    };
+    this.auditLog.push(recorded);
+    this.persist({ type: 'put', collection: 'auditLog', record: recorded }, () => {
+      this.auditLog.pop();
+    });
+    return recorded;
+  }
+
+  // Audit entries matching the filter, oldest first
+  getAuditLog(filter: AuditFilter = {}): AuditEntry[] {
+    return this.auditLog.filter(
+      entry =>
+        (filter.actor === undefined || entry.actor === filter.actor) &&
+        (filter.tool === undefined || entry.tool === filter.tool) &&
+        (filter.from === undefined || entry.timestamp >= filter.from) &&
+        (filter.to === undefined || entry.timestamp <= filter.to) &&
+        (filter.entity === undefined ||
+          entry.entities.some(
+            ref =>
+              ref.entity === filter.entity &&
+              (filter.entityId === undefined || ref.id === filter.entityId)
+          ))
+    );
+  }
+
+  // Run an operation with its changes attributed to the given user
+  // Asynchronous operations keep the actor until they settle
+  runAs<T>(actor: string | null, operation: () => T): T {
+    return actorScope.run(actor, operation);
+  }
+
+  // ID of the user the current operation runs on behalf of, if any
+  get actor(): string | null {
+    return actorScope.getStore() ?? null;
   }
 
   // Analytics and queries
   getTaskStatistics(): {
     total: number;
     byStatus: Record<string, number>;
+    byCategory: Record<StatusCategory, number>;
     byPriority: Record<string, number>;
     overdue: number;
   } {
@@ -383,7 +1787,7 @@ class InMemoryDatabase {
       byStatus[task.status] = (byStatus[task.status] || 0) + 1;
       byPriority[task.priority] = (byPriority[task.priority] || 0) + 1;
 
-      if (task.dueDate && task.dueDate < now && task.status !== 'done') {
+      if (task.dueDate && task.dueDate < now && this.categoryOf(task) !== 'done') {
         overdue++;
       }
     });
@@ -391,6 +1795,7 @@ class InMemoryDatabase {
     return {
       total: tasks.length,
       byStatus,
+      byCategory: this.countByCategory(tasks),
       byPriority,
       overdue,
     };
@@ -400,6 +1805,7 @@ class InMemoryDatabase {
     totalTasks: number;
     completedTasks: number;
     inProgressTasks: number;
+    byCategory: Record<StatusCategory, number>;
     teamMembers: string[];
   } {
     const tasks = this.getTasksByProject(projectId);
@@ -411,23 +1817,237 @@ class InMemoryDatabase {
       }
     });
 
+    const byCategory = this.countByCategory(tasks);
     return {
       totalTasks: tasks.length,
-      completedTasks: tasks.filter(t => t.status === 'done').length,
-      inProgressTasks: tasks.filter(t => t.status === 'in-progress').length,
+      completedTasks: byCategory.done,
+      inProgressTasks: byCategory['in-progress'],
+      byCategory,
       teamMembers: Array.from(assigneeIds),
     };
   }
 
+  // Remaining and completed tasks of a project at the end of each day of the range, the last
+  // two weeks by default; returns null when the project does not exist
+  getProjectBurndown(projectId: string, range: DateRange = {}): Burndown | null {
+    if (!this.find('projects', projectId)) return null;
+    const to = range.to ?? new Date();
+    const from = range.from ?? new Date(to.getTime() - (DEFAULT_REPORT_DAYS - 1) * DAY_MS);
+    return {
+      projectId,
+      sprintId: null,
+      points: this.burndownPoints(from, to, task => task.projectId === projectId),
+    };
+  }
+
+  // The same for the tasks planned for a sprint, from its start date through its end date
+  // by default; returns null when the sprint does not exist
+  getSprintBurndown(sprintId: string, range: DateRange = {}): Burndown | null {
+    const sprint = this.find('sprints', sprintId);
+    if (!sprint) return null;
+    return {
+      projectId: sprint.projectId,
+      sprintId,
+      points: this.burndownPoints(
+        range.from ?? sprint.startDate,
+        range.to ?? sprint.endDate,
+        task => task.sprintId === sprintId
+      ),
+    };
+  }
+
+  // Tasks done in each of the last closed sprints of a project, and their average;
+  // returns null when the project does not exist
+  getVelocity(projectId: string, count = 3): Velocity | null {
+    if (!this.find('projects', projectId)) return null;
+    const iterations = this.getSprintsByProject(projectId)
+      .flatMap(sprint => (sprint.closedAt ? [{ sprint, closedAt: sprint.closedAt }] : []))
+      .sort((a, b) => a.closedAt.getTime() - b.closedAt.getTime())
+      .slice(-count)
+      .map(({ sprint, closedAt }) => ({
+        sprintId: sprint.id,
+        name: sprint.name,
+        closedAt,
+        // Tasks as they were when the sprint closed, so reopening or moving one later does
+        // not change the past
+        completed: this.tasksAt(closedAt).filter(
+          task => task.sprintId === sprint.id && this.categoryOf(task) === 'done'
+        ).length,
+      }));
+    const total = iterations.reduce((sum, iteration) => sum + iteration.completed, 0);
+    return {
+      projectId,
+      iterations,
+      average: iterations.length > 0 ? Math.round((total / iterations.length) * 10) / 10 : 0,
+    };
+  }
+
+  private burndownPoints(from: Date, to: Date, inScope: (task: Task) => boolean): BurndownPoint[] {
+    if (from > to) {
+      throw new InvalidRangeError('from is after to');
+    }
+    if (dayCount(from, to) > MAX_REPORT_DAYS) {
+      throw new InvalidRangeError(`a report covers at most ${String(MAX_REPORT_DAYS)} days`);
+    }
+    return reportDays(from, to).map(({ date, at }) => {
+      const tasks = this.tasksAt(at).filter(inScope);
+      const completed = tasks.filter(task => this.categoryOf(task) === 'done').length;
+      return { date, remaining: tasks.length - completed, completed };
+    });
+  }
+
+  // Tasks that were live at the given time, as they were then
+  // Their status is categorized by the project's current workflow
+  private tasksAt(at: Date): Task[] {
+    const tasks: Task[] = [];
+    this.history.forEach((revisions, key) => {
+      if (!key.startsWith('task:')) return;
+      const state = stateAt(revisions, at);
+      if (state && !state.deletedAt) tasks.push(withDefaults('tasks', state) as Task);
+    });
+    // Tasks loaded from storage written before history was kept have no revisions
+    this.table('tasks').forEach(task => {
+      if (!this.history.has(`task:${task.id}`) && task.createdAt <= at && !task.deletedAt) {
+        tasks.push(task);
+      }
+    });
+    return tasks;
+  }
+
+  // Number of tasks in each status category, whatever their workflows call the statuses
+  private countByCategory(tasks: readonly Task[]): Record<StatusCategory, number> {
+    const counts: Record<StatusCategory, number> = { todo: 0, 'in-progress': 0, done: 0 };
+    tasks.forEach(task => {
+      counts[this.categoryOf(task)]++;
+    });
+    return counts;
+  }
+
+  // Tasks matching a search query such as `status:todo priority:>=high "login bug"`
+  // Throws a QueryParseError pointing at the bad token when the query does not parse
   searchTasks(query: string): Task[] {
-    const lowerQuery = query.toLowerCase();
-    return this.getAllTasks().filter(
-      task =>
-        task.title.toLowerCase().includes(lowerQuery) ||
-        task.description.toLowerCase().includes(lowerQuery)
+    const criteria = compileTaskSearch(query, this);
+    return this.live('tasks').filter(task =>
+      criteria.every(criterion => matchesTaskQuery(task, criterion))
     );
   }
+
+  // Live records whose ID or name is close to the value, best match first: the same
+  // but for case, a prefix of it or a few typos away. Backs "did you mean" hints in
+  // not-found errors and the completion of record IDs
+  findSimilar(entity: EntityType, value: string, limit?: number): Suggestion[] {
+    const records: EntityRecord[] = this.live(COLLECTION_BY_ENTITY[entity]);
+    return rankMatches(value, records, record => lookupKeys(entity, record).keys)
+      .slice(0, limit)
+      .map(record => ({ entity, id: record.id, label: lookupKeys(entity, record).label }));
+  }
+
+  // Tasks, comments and projects containing any word of the query, most relevant first
+  search(query: string, entities?: readonly SearchableEntity[]): SearchResult[] {
+    return this.getSearchIndex().search(query, entities);
+  }
+
+  private getSearchIndex(): SearchIndex {
+    if (this.searchIndex) return this.searchIndex;
+    const index = new SearchIndex();
+    this.live('tasks').forEach(task => {
+      index.put('task', task.id, searchFields('task', task));
+    });
+    this.live('comments').forEach(comment => {
+      index.put('comment', comment.id, searchFields('comment', comment));
+    });
+    this.live('projects').forEach(project => {
+      index.put('project', project.id, searchFields('project', project));
+    });
+    this.onChange(revisions => {
+      revisions.forEach(({ entity, entityId, after }) => {
+        if (entity !== 'task' && entity !== 'comment' && entity !== 'project') return;
+        if (after && !after.deletedAt) {
+          index.put(entity, entityId, searchFields(entity, after));
+        } else {
+          index.remove(entity, entityId);
+        }
+      });
+    });
+    this.searchIndex = index;
+    return index;
+  }
+}
+
+// What a record can be looked up by, and the name shown when suggesting it
+function lookupKeys(entity: EntityType, record: EntityRecord): { keys: string[]; label: string } {
+  switch (entity) {
+    case 'user': {
+      const user = record as User;
+      return { keys: [user.id, user.name, user.email], label: user.name };
+    }
+    case 'project':
+    case 'tag':
+    case 'sprint': {
+      const named = record as Project | Tag | Sprint;
+      return { keys: [named.id, named.name], label: named.name };
+    }
+    case 'task': {
+      const task = record as Task;
+      return { keys: [task.id, task.title], label: task.title };
+    }
+    case 'comment': {
+      const { content } = record as Comment;
+      return {
+        keys: [record.id],
+        label: content.length > 40 ? `${content.slice(0, 40)}…` : content,
+      };
+    }
+  }
 }
 
-// Singleton instance
-export const db = new InMemoryDatabase();
+// Text of a record that full-text search covers; titles and names weigh more than the rest
+function searchFields(entity: SearchableEntity, record: EntityRecord): IndexedField[] {
+  switch (entity) {
+    case 'task': {
+      const task = record as Task;
+      return [
+        { name: 'title', text: task.title, boost: 2 },
+        { name: 'description', text: task.description, boost: 1 },
+      ];
+    }
+    case 'comment':
+      return [{ name: 'content', text: (record as Comment).content, boost: 1 }];
+    case 'project': {
+      const project = record as Project;
+      return [
+        { name: 'name', text: project.name, boost: 2 },
+        { name: 'description', text: project.description, boost: 1 },
+      ];
+    }
+  }
+}
+
+function isEntityMutation(mutation: Mutation): mutation is Mutation & { collection: Collection } {
+  return mutation.collection in ENTITY_BY_COLLECTION;
+}
+
+// Working copy that `db` stands for in the current async context, set by runInTransaction()
+const workingCopy = new AsyncLocalStorage<InMemoryDatabase>();
+
+// Singleton instance, backed by the storage selected through the environment
+// Within runInTransaction() it forwards to the transaction's working copy instead
+export const db: InMemoryDatabase = new Proxy(
+  new InMemoryDatabase(createStorage(loadStorageConfig())),
+  {
+    get(target, property) {
+      const current = workingCopy.getStore() ?? target;
+      const value: unknown = Reflect.get(current, property, current);
+      return typeof value === 'function'
+        ? (value as (...args: unknown[]) => unknown).bind(current)
+        : value;
+    },
+  }
+);
+
+// Run an operation with `db` standing for the working copy of the transaction, so code
+// written against the database singleton becomes part of the transaction
+// Asynchronous operations keep the working copy until they settle
+export function runInTransaction<T>(transaction: Transaction, operation: () => T): T {
+  return workingCopy.run(transaction.db, operation);
+}
@@ -0,0 +1,454 @@
+import { InvalidPolicyError, ReferenceNotFoundError } from './errors.js';
+import type {
+  BulkDeletionPlan,
+  Comment,
+  DeletePolicies,
+  DeleteRelationship,
+  DeletionPlan,
+  EntityRef,
+  PlannedUpdate,
+  Project,
+  ReferencePolicy,
+  Sprint,
+  Tag,
+  Task,
+  User,
+} from './types.js';
+
+// Policies applied to relationships the caller does not mention
+export const DEFAULT_DELETE_POLICIES: Required<DeletePolicies> = {
+  projectOwner: { action: 'restrict' },
+  taskAssignee: { action: 'set-null' },
+  commentAuthor: { action: 'restrict' },
+  projectTasks: { action: 'cascade' },
+  taskTags: { action: 'set-null' },
+  subtasks: { action: 'cascade' },
+  blockedTasks: { action: 'set-null' },
+  sprintTasks: { action: 'set-null' },
+};
+
+// Actions each relationship supports
+// set-null is only possible where the referencing field may be empty
+const SUPPORTED_ACTIONS: Record<DeleteRelationship, Array<ReferencePolicy['action']>> = {
+  projectOwner: ['restrict', 'cascade', 'reassign-to'],
+  taskAssignee: ['restrict', 'cascade', 'set-null', 'reassign-to'],
+  commentAuthor: ['restrict', 'cascade', 'reassign-to'],
+  projectTasks: ['restrict', 'cascade', 'reassign-to'],
+  taskTags: ['restrict', 'set-null', 'reassign-to'],
+  subtasks: ['restrict', 'cascade', 'set-null', 'reassign-to'],
+  blockedTasks: ['restrict', 'set-null'],
+  sprintTasks: ['restrict', 'set-null', 'reassign-to'],
+};
+
+// Read access the planner needs; InMemoryDatabase provides it
+export interface DeletionSource {
+  getUser(id: string): User | undefined;
+  getProject(id: string): Project | undefined;
+  getTask(id: string): Task | undefined;
+  getTag(id: string): Tag | undefined;
+  getSprint(id: string): Sprint | undefined;
+  getProjectsByOwner(ownerId: string): Project[];
+  getTasksByProject(projectId: string): Task[];
+  getTasksByAssignee(assigneeId: string): Task[];
+  getTasksByTag(tagId: string): Task[];
+  getSubtasks(parentTaskId: string): Task[];
+  getDependents(taskId: string): Task[];
+  getSprintsByProject(projectId: string): Sprint[];
+  getSprintTasks(sprintId: string): Task[];
+  getCommentsByTask(taskId: string): Comment[];
+  getCommentsByUser(userId: string): Comment[];
+}
+
+// Works out everything a delete would touch without changing anything
+// The same plan backs dry runs and real deletes, so a dry run lists exactly
+// what the delete would do
+export class DeletionPlanner {
+  private readonly policies: Required<DeletePolicies>;
+  private readonly deleted = new Map<string, EntityRef>();
+  private readonly updated: PlannedUpdate[] = [];
+  private readonly blockedBy: DeletionPlan['blockedBy'] = [];
+
+  constructor(
+    private readonly source: DeletionSource,
+    policies: DeletePolicies
+  ) {
+    this.policies = { ...DEFAULT_DELETE_POLICIES, ...policies };
+    (Object.keys(this.policies) as DeleteRelationship[]).forEach(relationship => {
+      const { action } = this.policies[relationship];
+      if (!SUPPORTED_ACTIONS[relationship].includes(action)) {
+        throw new InvalidPolicyError(relationship, action);
+      }
+    });
+  }
+
+  planUser(user: User): DeletionPlan {
+    this.user(user.id);
+    return this.build({ entity: 'user', id: user.id });
+  }
+
+  planAllUsers(users: readonly User[]): BulkDeletionPlan {
+    users.forEach(user => {
+      this.user(user.id);
+    });
+    return { entity: 'user', ...this.collect() };
+  }
+
+  planProject(project: Project): DeletionPlan {
+    this.project(project.id);
+    return this.build({ entity: 'project', id: project.id });
+  }
+
+  planTask(task: Task): DeletionPlan {
+    this.task(task.id);
+    return this.build({ entity: 'task', id: task.id });
+  }
+
+  planTag(tag: Tag): DeletionPlan {
+    this.tag(tag.id);
+    return this.build({ entity: 'tag', id: tag.id });
+  }
+
+  planSprint(sprint: Sprint): DeletionPlan {
+    this.sprint(sprint.id);
+    return this.build({ entity: 'sprint', id: sprint.id });
+  }
+
+  planComment(comment: Comment): DeletionPlan {
+    this.markDeleted({ entity: 'comment', id: comment.id });
+    return this.build({ entity: 'comment', id: comment.id });
+  }
+
+  private user(id: string): void {
+    if (!this.markDeleted({ entity: 'user', id })) return;
+
+    const projectOwner = this.policies.projectOwner;
+    this.source.getProjectsByOwner(id).forEach(project => {
+      const ref = { entity: 'project' as const, id: project.id };
+      switch (projectOwner.action) {
+        case 'restrict':
+          this.blockedBy.push({ ...ref, relationship: 'projectOwner' });
+          break;
+        case 'cascade':
+          this.project(project.id);
+          break;
+        case 'reassign-to':
+          this.updated.push({
+            ...ref,
+            field: 'ownerId',
+            from: project.ownerId,
+            to: this.reassignTarget('projectOwner', 'user', projectOwner.targetId),
+          });
+          break;
+      }
+    });
+
+    const taskAssignee = this.policies.taskAssignee;
+    this.source.getTasksByAssignee(id).forEach(task => {
+      const ref = { entity: 'task' as const, id: task.id };
+      switch (taskAssignee.action) {
+        case 'restrict':
+          this.blockedBy.push({ ...ref, relationship: 'taskAssignee' });
+          break;
+        case 'cascade':
+          this.task(task.id);
+          break;
+        case 'set-null':
+          this.updated.push({ ...ref, field: 'assigneeId', from: task.assigneeId, to: null });
+          break;
+        case 'reassign-to':
+          this.updated.push({
+            ...ref,
+            field: 'assigneeId',
+            from: task.assigneeId,
+            to: this.reassignTarget('taskAssignee', 'user', taskAssignee.targetId),
+          });
+          break;
+      }
+    });
+
+    const commentAuthor = this.policies.commentAuthor;
+    this.source.getCommentsByUser(id).forEach(comment => {
+      const ref = { entity: 'comment' as const, id: comment.id };
+      switch (commentAuthor.action) {
+        case 'restrict':
+          this.blockedBy.push({ ...ref, relationship: 'commentAuthor' });
+          break;
+        case 'cascade':
+          this.markDeleted(ref);
+          break;
+        case 'reassign-to':
+          this.updated.push({
+            ...ref,
+            field: 'userId',
+            from: comment.userId,
+            to: this.reassignTarget('commentAuthor', 'user', commentAuthor.targetId),
+          });
+          break;
+      }
+    });
+  }
+
+  private project(id: string): void {
+    if (!this.markDeleted({ entity: 'project', id })) return;
+
+    // Sprints never outlive their project; they go first so that tasks moved to another
+    // project leave their sprint before they move
+    this.source.getSprintsByProject(id).forEach(sprint => {
+      this.sprint(sprint.id);
+    });
+
+    const projectTasks = this.policies.projectTasks;
+    this.source.getTasksByProject(id).forEach(task => {
+      const ref = { entity: 'task' as const, id: task.id };
+      switch (projectTasks.action) {
+        case 'restrict':
+          this.blockedBy.push({ ...ref, relationship: 'projectTasks' });
+          break;
+        case 'cascade':
+          this.task(task.id);
+          break;
+        case 'reassign-to':
+          this.updated.push({
+            ...ref,
+            field: 'projectId',
+            from: task.projectId,
+            to: this.reassignTarget('projectTasks', 'project', projectTasks.targetId),
+          });
+          break;
+      }
+    });
+  }
+
+  private task(id: string): void {
+    if (!this.markDeleted({ entity: 'task', id })) return;
+
+    // Comments never outlive their task
+    this.source.getCommentsByTask(id).forEach(comment => {
+      this.markDeleted({ entity: 'comment', id: comment.id });
+    });
+
+    const subtasks = this.policies.subtasks;
+    this.source.getSubtasks(id).forEach(task => {
+      const ref = { entity: 'task' as const, id: task.id };
+      switch (subtasks.action) {
+        case 'restrict':
+          this.blockedBy.push({ ...ref, relationship: 'subtasks' });
+          break;
+        case 'cascade':
+          this.task(task.id);
+          break;
+        case 'set-null':
+          this.updated.push({ ...ref, field: 'parentTaskId', from: task.parentTaskId, to: null });
+          break;
+        case 'reassign-to': {
+          const targetId = this.reassignTarget('subtasks', 'task', subtasks.targetId);
+          // Moving subtasks below themselves would make the hierarchy a cycle
+          if (isAncestor(this.source, id, targetId)) {
+            throw new InvalidPolicyError(
+              'subtasks',
+              'reassign-to',
+              `cannot target task "${targetId}", which is below task "${id}"`
+            );
+          }
+          this.updated.push({
+            ...ref,
+            field: 'parentTaskId',
+            from: task.parentTaskId,
+            to: targetId,
+          });
+          break;
+        }
+      }
+    });
+
+    const blockedTasks = this.policies.blockedTasks;
+    this.source.getDependents(id).forEach(task => {
+      const ref = { entity: 'task' as const, id: task.id };
+      switch (blockedTasks.action) {
+        case 'restrict':
+          this.blockedBy.push({ ...ref, relationship: 'blockedTasks' });
+          break;
+        case 'set-null': {
+          // A task waiting on several deleted tasks gets one update dropping all of them
+          const planned = this.updated.find(
+            (update): update is Extract<PlannedUpdate, { field: 'blockedBy' }> =>
+              update.field === 'blockedBy' && update.id === task.id
+          );
+          if (planned) {
+            planned.to = planned.to.filter(blockerId => blockerId !== id);
+          } else {
+            this.updated.push({
+              ...ref,
+              field: 'blockedBy',
+              from: task.blockedBy,
+              to: task.blockedBy.filter(blockerId => blockerId !== id),
+            });
+          }
+          break;
+        }
+      }
+    });
+  }
+
+  private sprint(id: string): void {
+    if (!this.markDeleted({ entity: 'sprint', id })) return;
+
+    const sprintTasks = this.policies.sprintTasks;
+    this.source.getSprintTasks(id).forEach(task => {
+      const ref = { entity: 'task' as const, id: task.id };
+      switch (sprintTasks.action) {
+        case 'restrict':
+          this.blockedBy.push({ ...ref, relationship: 'sprintTasks' });
+          break;
+        case 'set-null':
+          this.updated.push({ ...ref, field: 'sprintId', from: task.sprintId, to: null });
+          break;
+        case 'reassign-to':
+          this.updated.push({
+            ...ref,
+            field: 'sprintId',
+            from: task.sprintId,
+            to: this.reassignTarget('sprintTasks', 'sprint', sprintTasks.targetId),
+          });
+          break;
+      }
+    });
+  }
+
+  private tag(id: string): void {
+    if (!this.markDeleted({ entity: 'tag', id })) return;
+
+    const taskTags = this.policies.taskTags;
+    this.source.getTasksByTag(id).forEach(task => {
+      const ref = { entity: 'task' as const, id: task.id };
+      switch (taskTags.action) {
+        case 'restrict':
+          this.blockedBy.push({ ...ref, relationship: 'taskTags' });
+          break;
+        case 'set-null':
+          this.updated.push({
+            ...ref,
+            field: 'tags',
+            from: task.tags,
+            to: task.tags.filter(tagId => tagId !== id),
+          });
+          break;
+        case 'reassign-to': {
+          const targetId = this.reassignTarget('taskTags', 'tag', taskTags.targetId);
+          const tags = task.tags.map(tagId => (tagId === id ? targetId : tagId));
+          this.updated.push({ ...ref, field: 'tags', from: task.tags, to: [...new Set(tags)] });
+          break;
+        }
+      }
+    });
+  }
+
+  // Returns false when the record is already part of the plan
+  private markDeleted(ref: EntityRef): boolean {
+    const key = `${ref.entity}:${ref.id}`;
+    if (this.deleted.has(key)) return false;
+    this.deleted.set(key, ref);
+    return true;
+  }
+
+  private reassignTarget(
+    relationship: DeleteRelationship,
+    entity: 'user' | 'project' | 'task' | 'tag' | 'sprint',
+    targetId: string
+  ): string {
+    const lookup = {
+      user: (id: string) => this.source.getUser(id),
+      project: (id: string) => this.source.getProject(id),
+      task: (id: string) => this.source.getTask(id),
+      tag: (id: string) => this.source.getTag(id),
+      sprint: (id: string) => this.source.getSprint(id),
+    };
+    if (!lookup[entity](targetId)) {
+      throw new ReferenceNotFoundError(`${relationship}.targetId`, entity, targetId);
+    }
+    return targetId;
+  }
+
+  private build(target: EntityRef): DeletionPlan {
+    return { target, ...this.collect() };
+  }
+
+  private collect(): Omit<DeletionPlan, 'target'> {
+    const isDeleted = (ref: EntityRef) => this.deleted.has(`${ref.entity}:${ref.id}`);
+
+    this.updated.forEach(update => {
+      // Reassigning to a record that is itself being deleted would leave a dangling reference
+      const targetEntity = referencedEntity(update);
+      const targets = Array.isArray(update.to) ? update.to : [update.to];
+      targets.forEach(targetId => {
+        if (targetId !== null && isDeleted({ entity: targetEntity, id: targetId })) {
+          throw new InvalidPolicyError(
+            relationshipOf(update),
+            'reassign-to',
+            `cannot target ${targetEntity} "${targetId}", which is being deleted`
+          );
+        }
+      });
+    });
+
+    return {
+      deleted: Array.from(this.deleted.values()),
+      // Changes to records that are deleted anyway are left out
+      updated: this.updated.filter(update => !isDeleted(update)),
+      blockedBy: this.blockedBy.filter(blocker => !isDeleted(blocker)),
+    };
+  }
+}
+
+// Whether a task is above another one in the task hierarchy
+export function isAncestor(
+  source: Pick<DeletionSource, 'getTask'>,
+  ancestorId: string,
+  taskId: string
+): boolean {
+  const seen = new Set<string>();
+  let parentId = source.getTask(taskId)?.parentTaskId ?? null;
+  while (parentId !== null && !seen.has(parentId)) {
+    if (parentId === ancestorId) return true;
+    seen.add(parentId);
+    parentId = source.getTask(parentId)?.parentTaskId ?? null;
+  }
+  return false;
+}
+
+function relationshipOf(update: PlannedUpdate): DeleteRelationship {
+  switch (update.field) {
+    case 'ownerId':
+      return 'projectOwner';
+    case 'assigneeId':
+      return 'taskAssignee';
+    case 'projectId':
+      return 'projectTasks';
+    case 'tags':
+      return 'taskTags';
+    case 'userId':
+      return 'commentAuthor';
+    case 'parentTaskId':
+      return 'subtasks';
+    case 'blockedBy':
+      return 'blockedTasks';
+    case 'sprintId':
+      return 'sprintTasks';
+  }
+}
+
+function referencedEntity(update: PlannedUpdate): 'user' | 'project' | 'task' | 'tag' | 'sprint' {
+  switch (update.field) {
+    case 'projectId':
+      return 'project';
+    case 'parentTaskId':
+    case 'blockedBy':
+      return 'task';
+    case 'tags':
+      return 'tag';
+    case 'sprintId':
+      return 'sprint';
+    default:
+      return 'user';
+  }
+}
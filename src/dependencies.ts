@@ -0,0 +1,50 @@
+import type { Task } from './types.js';
+
+// The chain of tasks from one task to another, each waiting on the next one through
+// blockedBy; null when the first task does not wait on the other at all
+export function findDependencyPath(
+  source: { getTask(id: string): Task | undefined },
+  fromId: string,
+  toId: string
+): string[] | null {
+  const seen = new Set<string>();
+  const visit = (id: string): string[] | null => {
+    if (id === toId) return [id];
+    if (seen.has(id)) return null;
+    seen.add(id);
+    for (const blockerId of source.getTask(id)?.blockedBy ?? []) {
+      const path = visit(blockerId);
+      if (path) return [id, ...path];
+    }
+    return null;
+  };
+  return visit(fromId);
+}
+
+// The longest chain of the given open tasks where each task waits on the one before it,
+// first task first; only dependencies between the given tasks count, so done tasks are left
+// out by the caller. Of equally long chains, the one ending with the earliest task wins
+export function longestDependencyChain(tasks: readonly Task[]): Task[] {
+  const open = new Map(tasks.map(task => [task.id, task]));
+  const chains = new Map<string, Task[]>();
+  const chainTo = (task: Task): Task[] => {
+    const known = chains.get(task.id);
+    if (known) return known;
+    // Stands in while the blockers are walked, so a cycle in stored data cannot loop forever
+    chains.set(task.id, [task]);
+    let longest: Task[] = [];
+    task.blockedBy.forEach(blockerId => {
+      const blocker = open.get(blockerId);
+      if (!blocker) return;
+      const chain = chainTo(blocker);
+      if (chain.length > longest.length) longest = chain;
+    });
+    const chain = [...longest, task];
+    chains.set(task.id, chain);
+    return chain;
+  };
+  return Array.from(open.values()).reduce<Task[]>((longest, task) => {
+    const chain = chainTo(task);
+    return chain.length > longest.length ? chain : longest;
+  }, []);
+}
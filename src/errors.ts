@@ -0,0 +1,212 @@
+import { didYouMean } from './fuzzy.js';
+import type {
+  BulkDeletionPlan,
+  DeleteRelationship,
+  DeletionPlan,
+  EntityType,
+  ReferencePolicy,
+  Suggestion,
+} from './types.js';
+
+// Base class for errors raised by the database layer
+// Tools turn these into isError responses instead of failing the request
+export class DatabaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatabaseError';
+  }
+}
+
+// Raised when a record points at another record that does not exist
+// Records with a similar ID or name are suggested in the message
+export class ReferenceNotFoundError extends DatabaseError {
+  constructor(
+    readonly field: string,
+    readonly entity: EntityType,
+    readonly id: string,
+    readonly suggestions: readonly Suggestion[] = []
+  ) {
+    super(`Invalid ${field}: ${entity} "${id}" does not exist${didYouMean(suggestions)}`);
+    this.name = 'ReferenceNotFoundError';
+  }
+}
+
+// Raised when the author or owner of a new record cannot be taken from the acting user
+export class AttributionError extends DatabaseError {
+  constructor(
+    readonly field: string,
+    reason: string
+  ) {
+    super(`Invalid ${field}: ${reason}`);
+    this.name = 'AttributionError';
+  }
+}
+
+// Raised when a relationship's policy does not support the requested action
+export class InvalidPolicyError extends DatabaseError {
+  constructor(
+    readonly relationship: DeleteRelationship,
+    readonly action: ReferencePolicy['action'],
+    reason = `is not supported for ${relationship}`
+  ) {
+    super(`Invalid ${relationship} policy: "${action}" ${reason}`);
+    this.name = 'InvalidPolicyError';
+  }
+}
+
+// Raised when making a task a subtask would make the task hierarchy a cycle
+export class TaskCycleError extends DatabaseError {
+  constructor(
+    readonly taskId: string,
+    readonly parentTaskId: string
+  ) {
+    super(
+      taskId === parentTaskId
+        ? `Invalid parentTaskId: task "${taskId}" cannot be a subtask of itself`
+        : `Invalid parentTaskId: task "${parentTaskId}" is a subtask of task "${taskId}"`
+    );
+    this.name = 'TaskCycleError';
+  }
+}
+
+// Raised when a dependency would make tasks wait on each other in a cycle
+// The cycle starts and ends with the task being changed
+export class DependencyCycleError extends DatabaseError {
+  constructor(
+    readonly taskId: string,
+    readonly cycle: readonly string[]
+  ) {
+    super(
+      `Invalid blockedBy: task "${taskId}" would wait on itself: ${cycle.map(id => `"${id}"`).join(' → ')}`
+    );
+    this.name = 'DependencyCycleError';
+  }
+}
+
+// Raised when a task is started or finished while tasks it waits on are not done
+export class TaskBlockedError extends DatabaseError {
+  constructor(
+    readonly taskId: string,
+    readonly status: string,
+    readonly blockerIds: readonly string[]
+  ) {
+    const blockers = blockerIds.map(id => `"${id}"`).join(', ');
+    super(
+      `Cannot move task "${taskId}" to ${status} while ${blockerIds.length === 1 ? `task ${blockers} is` : `tasks ${blockers} are`} not done; force the update to override`
+    );
+    this.name = 'TaskBlockedError';
+  }
+}
+
+// Raised when a project workflow is not usable, such as one without a done status
+export class InvalidWorkflowError extends DatabaseError {
+  constructor(reason: string) {
+    super(`Invalid workflow: ${reason}`);
+    this.name = 'InvalidWorkflowError';
+  }
+}
+
+// Raised when a task is given a status its project's workflow does not have
+export class InvalidStatusError extends DatabaseError {
+  constructor(
+    readonly projectId: string,
+    readonly status: string,
+    readonly statuses: readonly string[]
+  ) {
+    super(
+      `Invalid status: "${status}" is not a status of project "${projectId}"; expected one of ${statuses.join(', ')}`
+    );
+    this.name = 'InvalidStatusError';
+  }
+}
+
+// Raised when the workflow does not allow a task to move from its status to the new one
+export class StatusTransitionError extends DatabaseError {
+  constructor(
+    readonly taskId: string,
+    readonly from: string,
+    readonly to: string,
+    readonly allowed: readonly string[]
+  ) {
+    super(
+      `Cannot move task "${taskId}" from ${from} to ${to}; ${
+        allowed.length > 0 ? `${from} only moves to ${allowed.join(', ')}` : `${from} is final`
+      }`
+    );
+    this.name = 'StatusTransitionError';
+  }
+}
+
+// Raised when a sprint or its task membership breaks a sprint rule, such as a sprint
+// ending before it starts, a task planned into a full or closed sprint, or into a sprint
+// of another project
+export class InvalidSprintError extends DatabaseError {
+  constructor(
+    readonly field: string,
+    reason: string
+  ) {
+    super(`Invalid ${field}: ${reason}`);
+    this.name = 'InvalidSprintError';
+  }
+}
+
+// Raised when a report is asked for a time range it cannot cover
+export class InvalidRangeError extends DatabaseError {
+  constructor(reason: string) {
+    super(`Invalid range: ${reason}`);
+    this.name = 'InvalidRangeError';
+  }
+}
+
+// Raised when a delete is blocked by records under a restrict policy
+export class RestrictViolationError extends DatabaseError {
+  constructor(readonly plan: DeletionPlan | BulkDeletionPlan) {
+    const blockers = plan.blockedBy
+      .map(blocker => `${blocker.entity} "${blocker.id}" (${blocker.relationship})`)
+      .join(', ');
+    const target =
+      'target' in plan ? `${plan.target.entity} "${plan.target.id}"` : `every ${plan.entity}`;
+    super(`Cannot delete ${target}: still referenced by ${blockers}`);
+    this.name = 'RestrictViolationError';
+  }
+}
+
+// Raised when a transaction cannot commit because its changes clash with
+// changes committed after it began
+export class TransactionConflictError extends DatabaseError {
+  constructor(reason: string) {
+    super(`Transaction conflict: ${reason}`);
+    this.name = 'TransactionConflictError';
+  }
+}
+
+// Raised when a transaction is used after it was committed or rolled back
+export class TransactionClosedError extends DatabaseError {
+  constructor(readonly status: 'committed' | 'rolled-back') {
+    super(`Transaction is already ${status}`);
+    this.name = 'TransactionClosedError';
+  }
+}
+
+// Raised when changes cannot be reverted because the records involved were changed since
+export class RevertConflictError extends DatabaseError {
+  constructor(reason: string) {
+    super(`Cannot revert: ${reason}`);
+    this.name = 'RevertConflictError';
+  }
+}
+
+// Raised when a task search query cannot be parsed or names something that does not exist
+// The message quotes the query and underlines the offending token
+export class QueryParseError extends DatabaseError {
+  constructor(
+    readonly query: string,
+    readonly start: number,
+    readonly end: number,
+    reason: string
+  ) {
+    const marker = ' '.repeat(start) + '^'.repeat(Math.max(1, end - start));
+    super(`Invalid query at column ${String(start + 1)}: ${reason}\n${query}\n${marker}`);
+    this.name = 'QueryParseError';
+  }
+}
@@ -0,0 +1,67 @@
+import type { Suggestion } from './types.js';
+
+// Edit distance between two strings, counting a swap of neighbouring characters as one edit
+// (optimal string alignment), so "Alsie" is as close to "Alise" as "Alice" is
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  const at = (i: number, j: number) => rows[i]?.[j] ?? 0;
+  for (let i = 1; i <= a.length; i++) {
+    const row = rows[i] ?? [];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(at(i - 1, j) + 1, at(i, j - 1) + 1, at(i - 1, j - 1) + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, at(i - 2, j - 2) + 1);
+      }
+      row[j] = distance;
+    }
+  }
+  return at(a.length, b.length);
+}
+
+// How well a value matches the keys of a record (its ID, name, email, ...), lower is better:
+//   0  a key equals the value
+//   1  a key starts with the value
+//   2  a word of a key starts with the value
+//   3+ a key or one of its words is a few typos away; one typo per three characters
+// Undefined when nothing matches. Case is ignored throughout
+export function matchScore(value: string, keys: readonly string[]): number | undefined {
+  const needle = value.trim().toLowerCase();
+  const haystack = keys.map(key => key.toLowerCase());
+  if (haystack.includes(needle)) return 0;
+  if (haystack.some(key => key.startsWith(needle))) return 1;
+  const words = haystack.flatMap(key => key.split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+  if (words.some(word => word.startsWith(needle))) return 2;
+  if (needle.length < 3) return undefined;
+
+  const allowed = Math.max(1, Math.floor(needle.length / 3));
+  const distance = Math.min(...[...haystack, ...words].map(key => editDistance(needle, key)));
+  return distance <= allowed ? 3 + distance : undefined;
+}
+
+// Records matching a value, best match first; equally good matches keep their order
+export function rankMatches<T>(
+  value: string,
+  records: readonly T[],
+  keys: (record: T) => string[]
+): T[] {
+  return records
+    .flatMap(record => {
+      const score = matchScore(value, keys(record));
+      return score === undefined ? [] : [{ record, score }];
+    })
+    .sort((a, b) => a.score - b.score)
+    .map(({ record }) => record);
+}
+
+// "; did you mean ...?" to end an error message with, or nothing when there is no suggestion
+export function didYouMean(suggestions: readonly Suggestion[]): string {
+  if (suggestions.length === 0) return '';
+  const names = suggestions.map(suggestion =>
+    suggestion.label ? `"${suggestion.id}" (${suggestion.label})` : `"${suggestion.id}"`
+  );
+  const last = names.pop() ?? '';
+  return `; did you mean ${names.length > 0 ? `${names.join(', ')} or ${last}` : last}?`;
+}
@@ -0,0 +1,41 @@
+import type { EntityRecord, FieldChange, Revision } from './types.js';
+
+// What kind of change turned `before` into `after`
+export function revisionOperation(
+  before: EntityRecord | null,
+  after: EntityRecord | null
+): Revision['operation'] {
+  if (!after) return 'purge';
+  if (!before) return 'create';
+  if (!before.deletedAt && after.deletedAt) return 'delete';
+  if (before.deletedAt && !after.deletedAt) return 'restore';
+  return 'update';
+}
+
+// Fields whose value differs between two states of a record, compared in JSON form
+export function diffRecords(
+  before: EntityRecord | null,
+  after: EntityRecord | null
+): FieldChange[] {
+  const from = toJson(before);
+  const to = toJson(after);
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+  return Array.from(fields)
+    .filter(field => JSON.stringify(from[field]) !== JSON.stringify(to[field]))
+    .map(field => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+// State of a record at the given time according to its revisions, in version order
+// Undefined when the record did not exist yet or had been purged by then
+export function stateAt(revisions: readonly Revision[], at: Date): EntityRecord | undefined {
+  let state: EntityRecord | undefined;
+  for (const revision of revisions) {
+    if (revision.timestamp > at) break;
+    state = revision.after ?? undefined;
+  }
+  return state;
+}
+
+function toJson(record: EntityRecord | null): Record<string, unknown> {
+  return record ? (JSON.parse(JSON.stringify(record)) as Record<string, unknown>) : {};
+}
@@ -1,22 +1,22 @@
 #!/usr/bin/env node
 
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { createServer } from './mcp/server.js';
+import { loadServerConfig } from './config.js';
+import { db } from './database.js';
+import { startServer } from './transports/index.js';
+import type { RunningServer } from './transports/index.js';
 
-const mcpServer = createServer();
+let server: RunningServer | undefined;
 
 process.on('SIGINT', () => {
-  void mcpServer.close().then(() => {
+  void (server?.close() ?? Promise.resolve()).then(() => {
+    db.close();
     process.exit(0);
   });
 });
 
 // Start the server
 async function main() {
-  const transport = new StdioServerTransport();
-  await mcpServer.connect(transport);
-  // Server is now ready - don't output anything to stdout/stderr
-  // as it would interfere with JSON-RPC communication
+  server = await startServer(loadServerConfig());
 }
 
 main().catch((error: unknown) => {
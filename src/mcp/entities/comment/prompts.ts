@@ -1,15 +1,20 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
 import { z } from 'zod';
 import { db } from '../../../database.js';
+import { completeId, notFoundSentence } from '../../lookup.js';
 import { createPromptMessage, schema, validateInput } from '../../utils.js';
 
 // Define schemas for prompt arguments
 const getCommentPromptSchema = z.object({
-  commentId: z.string().describe('Comment ID to get details for'),
+  commentId: completable(
+    z.string().describe('Comment ID to get details for'),
+    completeId('comment')
+  ),
 });
 
 const getCommentsByTaskPromptSchema = z.object({
-  taskId: z.string().describe('Task ID to get comments for'),
+  taskId: completable(z.string().describe('Task ID to get comments for'), completeId('task')),
 });
 
 export function registerCommentPrompts(mcpServer: McpServer): void {
@@ -25,7 +30,7 @@ export function registerCommentPrompts(mcpServer: McpServer): void {
       const comment = db.getComment(validated.commentId);
 
       if (!comment) {
-        return createPromptMessage('user', `Comment with ID "${validated.commentId}" not found.`);
+        return createPromptMessage('user', notFoundSentence('comment', validated.commentId));
       }
 
       const task = db.getTask(comment.taskId);
@@ -57,7 +62,7 @@ Last Updated: ${comment.updatedAt.toISOString()}`
       const task = db.getTask(validated.taskId);
 
       if (!task) {
-        return createPromptMessage('user', `Task with ID "${validated.taskId}" not found.`);
+        return createPromptMessage('user', notFoundSentence('task', validated.taskId));
       }
 
       if (comments.length === 0) {
@@ -1,6 +1,8 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { db } from '../../../database.js';
+import { completeId, notFoundMessage } from '../../lookup.js';
+import { pagedResourceList } from '../../pagination.js';
 
 export function registerCommentResources(mcpServer: McpServer): void {
   mcpServer.registerResource(
@@ -40,34 +42,17 @@ export function registerCommentResources(mcpServer: McpServer): void {
   mcpServer.registerResource(
     'Comment by ID',
     new ResourceTemplate('comment-manager://comments/{commentId}', {
-      list: async () => {
-        // Get all comments
-        const tasks = db.getAllTasks();
-        const allComments: Array<{ id: string; taskId: string; userId: string; content: string }> =
-          [];
-        tasks.forEach(task => {
-          const comments = db.getCommentsByTask(task.id);
-          allComments.push(...comments);
-        });
-        return {
-          resources: allComments.map(comment => ({
-            uri: `comment-manager://comments/${comment.id}`,
-            name: `Comment on task ${comment.taskId}`,
-            description: `Comment by user ${comment.userId}: ${comment.content.substring(0, 50)}...`,
-            mimeType: 'application/json',
-          })),
-        };
-      },
+      list: pagedResourceList(
+        () => db.getAllTasks().flatMap(task => db.getCommentsByTask(task.id)),
+        comment => ({
+          uri: `comment-manager://comments/${comment.id}`,
+          name: `Comment on task ${comment.taskId}`,
+          description: `Comment by user ${comment.userId}: ${comment.content.substring(0, 50)}...`,
+          mimeType: 'application/json',
+        })
+      ),
       complete: {
-        commentId: async () => {
-          const tasks = db.getAllTasks();
-          const allCommentIds: string[] = [];
-          tasks.forEach(task => {
-            const comments = db.getCommentsByTask(task.id);
-            allCommentIds.push(...comments.map(c => c.id));
-          });
-          return allCommentIds;
-        },
+        commentId: completeId('comment'),
       },
     }),
     {
@@ -97,7 +82,7 @@ export function registerCommentResources(mcpServer: McpServer): void {
             {
               uri: uri.toString(),
               mimeType: 'application/json',
-              text: JSON.stringify({ error: 'Comment not found' }, null, 2),
+              text: JSON.stringify({ error: notFoundMessage('comment', commentId) }, null, 2),
             },
           ],
         };
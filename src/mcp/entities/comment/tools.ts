@@ -1,34 +1,72 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { db } from '../../../database.js';
-import { createToolConfig, createToolResponse, validateInput } from '../../utils.js';
+import { notFoundResponse } from '../../lookup.js';
+import { listPage, nextCursorSchema, paginationSchema } from '../../pagination.js';
+import {
+  asOfSchema,
+  createErrorResponse,
+  createToolConfig,
+  createToolResponse,
+  deletionResultSchema,
+  timestampSchema,
+  validateInput,
+} from '../../utils.js';
 
 // Define schemas for validation
-const createCommentSchema = z.object({
+export const createCommentSchema = z.object({
   taskId: z.string().describe('Task ID'),
-  userId: z.string().describe('User ID (comment author)'),
+  userId: z
+    .string()
+    .optional()
+    .describe('User ID of the author (defaults to, and must match, the acting user)'),
   content: z.string().describe('Comment content'),
 });
 
 const getCommentSchema = z.object({
   commentId: z.string().describe('Comment ID'),
+  asOf: asOfSchema.describe('Return the comment as it was at this time (ISO string, optional)'),
 });
 
-const getCommentsByTaskSchema = z.object({
-  taskId: z.string().describe('Task ID'),
-});
+const getCommentsByTaskSchema = z
+  .object({
+    taskId: z.string().describe('Task ID'),
+  })
+  .merge(paginationSchema);
 
-const getCommentsByUserSchema = z.object({
-  userId: z.string().describe('User ID'),
-});
+const getCommentsByUserSchema = z
+  .object({
+    userId: z.string().describe('User ID'),
+  })
+  .merge(paginationSchema);
 
-const updateCommentSchema = z.object({
+export const updateCommentSchema = z.object({
   commentId: z.string().describe('Comment ID'),
   content: z.string().describe('Comment content'),
 });
 
-const deleteCommentSchema = z.object({
+export const deleteCommentSchema = z.object({
   commentId: z.string().describe('Comment ID'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('List what would be deleted or changed without deleting anything'),
+});
+
+// Define models of the tool output
+export const commentModel = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  userId: z.string(),
+  content: z.string(),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+  deletedAt: timestampSchema.nullable(),
+});
+
+const commentListModel = z.object({
+  comments: z.array(commentModel),
+  nextCursor: nextCursorSchema,
 });
 
 // Infer TypeScript types from Zod schemas
@@ -40,77 +78,89 @@ export type DeleteCommentInput = z.infer<typeof deleteCommentSchema>;
 export function registerCommentTools(mcpServer: McpServer): void {
   mcpServer.registerTool(
     'create_comment',
-    createToolConfig('Create a new comment on a task', createCommentSchema),
+    createToolConfig('Create a new comment on a task', createCommentSchema, commentModel),
     async (args: unknown) => {
       const validated = validateInput(createCommentSchema, args);
-      const comment = db.createComment({
-        taskId: validated.taskId,
-        userId: validated.userId,
-        content: validated.content,
-      });
-      return createToolResponse(JSON.stringify(comment, null, 2));
+      try {
+        const comment = db.createComment({
+          taskId: validated.taskId,
+          content: validated.content,
+          ...(validated.userId !== undefined && { userId: validated.userId }),
+        });
+        return createToolResponse({ structuredContent: comment });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
     }
   );
 
   mcpServer.registerTool(
     'get_comment',
-    createToolConfig('Get comment details by ID', getCommentSchema),
+    createToolConfig('Get comment details by ID', getCommentSchema, commentModel),
     async (args: unknown) => {
       const validated = validateInput(getCommentSchema, args);
-      const comment = db.getComment(validated.commentId);
+      const at = validated.asOf ? new Date(validated.asOf) : undefined;
+      const comment = at
+        ? db.getRecordAsOf('comment', validated.commentId, at)
+        : db.getComment(validated.commentId);
       if (!comment) {
-        return createToolResponse('Comment not found', true);
+        // Suggest records that existed at that time
+        return notFoundResponse('comment', validated.commentId, at && db.asOf(at));
       }
-      return createToolResponse(JSON.stringify(comment, null, 2));
+      return createToolResponse({ structuredContent: comment });
     }
   );
 
   mcpServer.registerTool(
     'get_comments_by_task',
-    createToolConfig('Get all comments for a task', getCommentsByTaskSchema),
+    createToolConfig('Get all comments for a task', getCommentsByTaskSchema, commentListModel),
     async (args: unknown) => {
       const validated = validateInput(getCommentsByTaskSchema, args);
       const comments = db.getCommentsByTask(validated.taskId);
-      return createToolResponse(JSON.stringify(comments, null, 2));
+      return createToolResponse({ structuredContent: listPage('comments', comments, validated) });
     }
   );
 
   mcpServer.registerTool(
     'get_comments_by_user',
-    createToolConfig('Get all comments by a user', getCommentsByUserSchema),
+    createToolConfig('Get all comments by a user', getCommentsByUserSchema, commentListModel),
     async (args: unknown) => {
       const validated = validateInput(getCommentsByUserSchema, args);
       const comments = db.getCommentsByUser(validated.userId);
-      return createToolResponse(JSON.stringify(comments, null, 2));
+      return createToolResponse({ structuredContent: listPage('comments', comments, validated) });
     }
   );
 
   mcpServer.registerTool(
     'update_comment',
-    createToolConfig('Update comment content', updateCommentSchema),
+    createToolConfig('Update comment content', updateCommentSchema, commentModel),
     async (args: unknown) => {
       const validated = validateInput(updateCommentSchema, args);
       const { commentId, ...updates } = validated;
       const comment = db.updateComment(commentId, updates);
       if (!comment) {
-        return createToolResponse('Comment not found', true);
+        return notFoundResponse('comment', commentId);
       }
-      return createToolResponse(JSON.stringify(comment, null, 2));
+      return createToolResponse({ structuredContent: comment });
     }
   );
 
   mcpServer.registerTool(
     'delete_comment',
-    createToolConfig('Delete a comment', deleteCommentSchema),
+    createToolConfig('Delete a comment', deleteCommentSchema, deletionResultSchema),
     async (args: unknown) => {
       const validated = validateInput(deleteCommentSchema, args);
-      const deleted = db.deleteComment(validated.commentId);
-      if (!deleted) {
-        return createToolResponse('Comment not found', true);
+      const plan = db.planCommentDeletion(validated.commentId);
+      if (!plan) {
+        return notFoundResponse('comment', validated.commentId);
       }
-      return createToolResponse(
-        JSON.stringify({ success: true, message: 'Comment deleted' }, null, 2)
-      );
+      if (validated.dryRun) {
+        return createToolResponse({ structuredContent: { dryRun: true, ...plan } });
+      }
+      db.deleteComment(validated.commentId);
+      return createToolResponse({
+        structuredContent: { success: true, message: 'Comment deleted', ...plan },
+      });
     }
   );
 }
@@ -1,6 +1,7 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { registerComment } from './comment/index.js';
 import { registerProject } from './project/index.js';
+import { registerSprint } from './sprint/index.js';
 import { registerTag } from './tag/index.js';
 import { registerTask } from './task/index.js';
 import { registerUser } from './user/index.js';
@@ -11,4 +12,5 @@ export function registerAllEntities(mcpServer: McpServer): void {
   registerTask(mcpServer);
   registerTag(mcpServer);
   registerComment(mcpServer);
+  registerSprint(mcpServer);
 }
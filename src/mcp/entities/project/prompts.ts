@@ -1,15 +1,23 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
 import { z } from 'zod';
 import { db } from '../../../database.js';
+import { completeId, notFoundSentence } from '../../lookup.js';
 import { createPromptMessage, schema, validateInput } from '../../utils.js';
 
 // Define schemas for prompt arguments
 const getProjectPromptSchema = z.object({
-  projectId: z.string().describe('Project ID to get details for'),
+  projectId: completable(
+    z.string().describe('Project ID to get details for'),
+    completeId('project')
+  ),
 });
 
 const getProjectsByOwnerPromptSchema = z.object({
-  ownerId: z.string().describe('Owner user ID to get projects for'),
+  ownerId: completable(
+    z.string().describe('Owner user ID to get projects for'),
+    completeId('user')
+  ),
 });
 
 export function registerProjectPrompts(mcpServer: McpServer): void {
@@ -25,11 +33,18 @@ export function registerProjectPrompts(mcpServer: McpServer): void {
       const project = db.getProject(validated.projectId);
 
       if (!project) {
-        return createPromptMessage('user', `Project with ID "${validated.projectId}" not found.`);
+        return createPromptMessage('user', notFoundSentence('project', validated.projectId));
       }
 
       const owner = db.getUser(project.ownerId);
       const ownerName = owner ? owner.name : 'Unknown';
+      // One line per status, with its category and where a task in it can move
+      const workflow = project.workflow.statuses
+        .map(
+          status =>
+            `- ${status.name} (${status.category}) → ${status.transitions ? status.transitions.join(', ') || 'nothing' : 'any status'}`
+        )
+        .join('\n');
 
       return createPromptMessage(
         'user',
@@ -40,7 +55,9 @@ Description: ${project.description}
 Status: ${project.status}
 Owner: ${ownerName} (${project.ownerId})
 Created: ${project.createdAt.toISOString()}
-Last Updated: ${project.updatedAt.toISOString()}`
+Last Updated: ${project.updatedAt.toISOString()}
+Workflow:
+${workflow}`
       );
     }
   );
@@ -85,7 +102,7 @@ Last Updated: ${project.updatedAt.toISOString()}`
       const owner = db.getUser(validated.ownerId);
 
       if (!owner) {
-        return createPromptMessage('user', `User with ID "${validated.ownerId}" not found.`);
+        return createPromptMessage('user', notFoundSentence('user', validated.ownerId));
       }
 
       if (projects.length === 0) {
@@ -1,6 +1,8 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { db } from '../../../database.js';
+import { completeId, notFoundMessage } from '../../lookup.js';
+import { pagedResourceList } from '../../pagination.js';
 
 export function registerProjectResources(mcpServer: McpServer): void {
   mcpServer.registerResource(
@@ -27,22 +29,17 @@ export function registerProjectResources(mcpServer: McpServer): void {
   mcpServer.registerResource(
     'Project by ID',
     new ResourceTemplate('project-manager://projects/{projectId}', {
-      list: async () => {
-        const projects = db.getAllProjects();
-        return {
-          resources: projects.map(project => ({
-            uri: `project-manager://projects/${project.id}`,
-            name: project.name,
-            description: `Project: ${project.name} (${project.status})`,
-            mimeType: 'application/json',
-          })),
-        };
-      },
+      list: pagedResourceList(
+        () => db.getAllProjects(),
+        project => ({
+          uri: `project-manager://projects/${project.id}`,
+          name: project.name,
+          description: `Project: ${project.name} (${project.status})`,
+          mimeType: 'application/json',
+        })
+      ),
       complete: {
-        projectId: async () => {
-          const projects = db.getAllProjects();
-          return projects.map(project => project.id);
-        },
+        projectId: completeId('project'),
       },
     }),
     {
@@ -72,7 +69,7 @@ export function registerProjectResources(mcpServer: McpServer): void {
             {
               uri: uri.toString(),
               mimeType: 'application/json',
-              text: JSON.stringify({ error: 'Project not found' }, null, 2),
+              text: JSON.stringify({ error: notFoundMessage('project', projectId) }, null, 2),
             },
           ],
         };
@@ -1,33 +1,108 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { db } from '../../../database.js';
-import { createToolConfig, createToolResponse, validateInput } from '../../utils.js';
+import type { DeletePolicies } from '../../../types.js';
+import { notFoundResponse } from '../../lookup.js';
+import { listPage, nextCursorSchema, paginationSchema } from '../../pagination.js';
+import {
+  asOfSchema,
+  createErrorResponse,
+  createToolConfig,
+  createToolResponse,
+  deletionResultSchema,
+  referencePolicySchema,
+  timestampSchema,
+  validateInput,
+} from '../../utils.js';
+
+const statusCategorySchema = z.enum(['todo', 'in-progress', 'done']);
 
 // Define schemas for validation
-const createProjectSchema = z.object({
+const workflowSchema = z.object({
+  statuses: z
+    .array(
+      z.object({
+        name: z.string().describe('Status name'),
+        category: statusCategorySchema.describe(
+          'Where the status stands: todo (not started), in-progress or done'
+        ),
+        transitions: z
+          .array(z.string())
+          .nullable()
+          .default(null)
+          .describe('Statuses a task may move to from this one (default: any status)'),
+      })
+    )
+    .describe('Statuses in board column order'),
+});
+
+export const createProjectSchema = z.object({
   name: z.string().describe('Project name'),
   description: z.string().describe('Project description'),
-  ownerId: z.string().describe('Owner user ID'),
+  ownerId: z.string().optional().describe('Owner user ID (defaults to the acting user)'),
   status: z.enum(['active', 'archived', 'completed']).describe('Project status'),
+  workflow: workflowSchema
+    .optional()
+    .describe('Statuses of the project tasks (default: todo, in-progress, review, done)'),
 });
 
 const getProjectSchema = z.object({
   projectId: z.string().describe('Project ID'),
+  asOf: asOfSchema.describe('Return the project as it was at this time (ISO string, optional)'),
 });
 
-const getProjectsByOwnerSchema = z.object({
-  ownerId: z.string().describe('Owner user ID'),
-});
+const getProjectsByOwnerSchema = z
+  .object({
+    ownerId: z.string().describe('Owner user ID'),
+  })
+  .merge(paginationSchema);
 
-const updateProjectSchema = z.object({
+export const updateProjectSchema = z.object({
   projectId: z.string().describe('Project ID'),
   name: z.string().optional().describe('Project name'),
   description: z.string().optional().describe('Project description'),
+  ownerId: z.string().optional().describe('New owner user ID'),
   status: z.enum(['active', 'archived', 'completed']).optional().describe('Project status'),
+  workflow: workflowSchema
+    .optional()
+    .describe('Statuses of the project tasks; every status a task is in has to stay'),
 });
 
-const deleteProjectSchema = z.object({
+export const deleteProjectSchema = z.object({
   projectId: z.string().describe('Project ID'),
+  projectTasks: referencePolicySchema.describe(
+    'What to do with the project tasks: cascade (default), restrict or reassign-to'
+  ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('List what would be deleted or changed without deleting anything'),
+});
+
+// Define models of the tool output
+export const projectModel = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  ownerId: z.string(),
+  status: z.enum(['active', 'archived', 'completed']),
+  workflow: z.object({
+    statuses: z.array(
+      z.object({
+        name: z.string(),
+        category: statusCategorySchema,
+        transitions: z.array(z.string()).nullable(),
+      })
+    ),
+  }),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+  deletedAt: timestampSchema.nullable(),
+});
+
+const projectListModel = z.object({
+  projects: z.array(projectModel),
+  nextCursor: nextCursorSchema,
 });
 
 // Infer TypeScript types from Zod schemas
@@ -40,54 +115,72 @@ export type DeleteProjectInput = z.infer<typeof deleteProjectSchema>;
 export function registerProjectTools(mcpServer: McpServer): void {
   mcpServer.registerTool(
     'create_project',
-    createToolConfig('Create a new project', createProjectSchema),
+    createToolConfig(
+      'Create a new project, optionally with its own workflow of task statuses',
+      createProjectSchema,
+      projectModel
+    ),
     async (args: unknown) => {
       const validated = validateInput(createProjectSchema, args);
-      const project = db.createProject({
-        name: validated.name,
-        description: validated.description,
-        ownerId: validated.ownerId,
-        status: validated.status,
-      });
-      return createToolResponse(JSON.stringify(project, null, 2));
+      try {
+        const project = db.createProject({
+          name: validated.name,
+          description: validated.description,
+          status: validated.status,
+          ...(validated.ownerId !== undefined && { ownerId: validated.ownerId }),
+          ...(validated.workflow !== undefined && { workflow: validated.workflow }),
+        });
+        return createToolResponse({ structuredContent: project });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
     }
   );
 
   mcpServer.registerTool(
     'get_project',
-    createToolConfig('Get project details by ID', getProjectSchema),
+    createToolConfig('Get project details by ID', getProjectSchema, projectModel),
     async (args: unknown) => {
       const validated = validateInput(getProjectSchema, args);
-      const project = db.getProject(validated.projectId);
+      const at = validated.asOf ? new Date(validated.asOf) : undefined;
+      const project = at
+        ? db.getRecordAsOf('project', validated.projectId, at)
+        : db.getProject(validated.projectId);
       if (!project) {
-        return createToolResponse('Project not found', true);
+        // Suggest records that existed at that time
+        return notFoundResponse('project', validated.projectId, at && db.asOf(at));
       }
-      return createToolResponse(JSON.stringify(project, null, 2));
+      return createToolResponse({ structuredContent: project });
     }
   );
 
   mcpServer.registerTool(
     'list_projects',
-    createToolConfig('List all projects in the system'),
-    async () => {
+    createToolConfig('List all projects in the system', paginationSchema, projectListModel),
+    async (args: unknown) => {
+      const validated = validateInput(paginationSchema, args);
       const projects = db.getAllProjects();
-      return createToolResponse(JSON.stringify(projects, null, 2));
+      return createToolResponse({ structuredContent: listPage('projects', projects, validated) });
     }
   );
 
   mcpServer.registerTool(
     'get_projects_by_owner',
-    createToolConfig('Get all projects owned by a user', getProjectsByOwnerSchema),
+    createToolConfig(
+      'Get all projects owned by a user',
+      getProjectsByOwnerSchema,
+      projectListModel
+    ),
     async (args: unknown) => {
       const validated = validateInput(getProjectsByOwnerSchema, args);
       const projects = db.getProjectsByOwner(validated.ownerId);
-      return createToolResponse(JSON.stringify(projects, null, 2));
+      return createToolResponse({ structuredContent: listPage('projects', projects, validated) });
     }
   );
 
   mcpServer.registerTool(
     'update_project',
-    createToolConfig('Update project details', updateProjectSchema),
+    createToolConfig('Update project details', updateProjectSchema, projectModel),
     async (args: unknown) => {
       const validated = validateInput(updateProjectSchema, args);
       const { projectId, ...updates } = validated;
@@ -95,26 +188,43 @@ export function registerProjectTools(mcpServer: McpServer): void {
       const filteredUpdates = Object.fromEntries(
         Object.entries(updates).filter(([, value]) => value !== undefined)
       );
-      const project = db.updateProject(projectId, filteredUpdates);
-      if (!project) {
-        return createToolResponse('Project not found', true);
+      try {
+        const project = db.updateProject(projectId, filteredUpdates);
+        if (!project) {
+          return notFoundResponse('project', projectId);
+        }
+        return createToolResponse({ structuredContent: project });
+      } catch (error) {
+        return createErrorResponse(error);
       }
-      return createToolResponse(JSON.stringify(project, null, 2));
     }
   );
 
   mcpServer.registerTool(
     'delete_project',
-    createToolConfig('Delete a project', deleteProjectSchema),
+    createToolConfig(
+      'Delete a project together with its sprints, choosing what happens to its tasks',
+      deleteProjectSchema,
+      deletionResultSchema
+    ),
     async (args: unknown) => {
-      const validated = validateInput(deleteProjectSchema, args);
-      const deleted = db.deleteProject(validated.projectId);
-      if (!deleted) {
-        return createToolResponse('Project not found', true);
+      const { projectId, dryRun, projectTasks } = validateInput(deleteProjectSchema, args);
+      const policies: DeletePolicies = projectTasks ? { projectTasks } : {};
+      try {
+        const plan = db.planProjectDeletion(projectId, policies);
+        if (!plan) {
+          return notFoundResponse('project', projectId);
+        }
+        if (dryRun) {
+          return createToolResponse({ structuredContent: { dryRun: true, ...plan } });
+        }
+        db.deleteProject(projectId, policies);
+        return createToolResponse({
+          structuredContent: { success: true, message: 'Project deleted', ...plan },
+        });
+      } catch (error) {
+        return createErrorResponse(error);
       }
-      return createToolResponse(
-        JSON.stringify({ success: true, message: 'Project deleted' }, null, 2)
-      );
     }
   );
 }
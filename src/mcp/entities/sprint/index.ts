@@ -0,0 +1,10 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerSprintPrompts } from './prompts.js';
+import { registerSprintResources } from './resources.js';
+import { registerSprintTools } from './tools.js';
+
+export function registerSprint(mcpServer: McpServer): void {
+  registerSprintTools(mcpServer);
+  registerSprintResources(mcpServer);
+  registerSprintPrompts(mcpServer);
+}
@@ -0,0 +1,96 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { z } from 'zod';
+import { db } from '../../../database.js';
+import { defaultWorkflow, statusCategory } from '../../../workflow.js';
+import { completeId, notFoundSentence } from '../../lookup.js';
+import { createPromptMessage, schema, validateInput } from '../../utils.js';
+
+// Define schemas for prompt arguments
+const getSprintPromptSchema = z.object({
+  sprintId: completable(z.string().describe('Sprint ID to get details for'), completeId('sprint')),
+});
+
+const getSprintsByProjectPromptSchema = z.object({
+  projectId: completable(
+    z.string().describe('Project ID to list sprints for'),
+    completeId('project')
+  ),
+});
+
+export function registerSprintPrompts(mcpServer: McpServer): void {
+  mcpServer.registerPrompt(
+    'get_sprint_details',
+    {
+      description: 'Get detailed information about a sprint or milestone and its tasks',
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      argsSchema: schema(getSprintPromptSchema),
+    },
+    async (args: unknown) => {
+      const validated = validateInput(getSprintPromptSchema, args);
+      const sprint = db.getSprint(validated.sprintId);
+
+      if (!sprint) {
+        return createPromptMessage('user', notFoundSentence('sprint', validated.sprintId));
+      }
+
+      const project = db.getProject(sprint.projectId);
+      const workflow = project?.workflow ?? defaultWorkflow();
+      const tasks = db.getSprintTasks(sprint.id);
+      const done = tasks.filter(task => statusCategory(workflow, task.status) === 'done').length;
+      const taskList =
+        tasks.map(task => `- [${task.status}] ${task.title} (${task.id})`).join('\n') || 'None';
+      const capacity = sprint.capacity === null ? 'unlimited' : String(sprint.capacity);
+
+      return createPromptMessage(
+        'user',
+        `${sprint.kind === 'milestone' ? 'Milestone' : 'Sprint'} Details:
+ID: ${sprint.id}
+Name: ${sprint.name}
+Goal: ${sprint.goal || 'None'}
+Project: ${project ? project.name : 'Unknown'} (${sprint.projectId})
+Status: ${sprint.status}
+Dates: ${sprint.startDate.toISOString()} to ${sprint.endDate.toISOString()}
+Capacity: ${tasks.length} of ${capacity} task(s) planned
+Done: ${done} of ${tasks.length} task(s)
+Tasks:
+${taskList}`
+      );
+    }
+  );
+
+  mcpServer.registerPrompt(
+    'get_sprints_by_project',
+    {
+      description: 'List the sprints and milestones of a project',
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      argsSchema: schema(getSprintsByProjectPromptSchema),
+    },
+    async (args: unknown) => {
+      const validated = validateInput(getSprintsByProjectPromptSchema, args);
+      const project = db.getProject(validated.projectId);
+
+      if (!project) {
+        return createPromptMessage('user', notFoundSentence('project', validated.projectId));
+      }
+
+      const sprints = db.getSprintsByProject(project.id);
+
+      if (sprints.length === 0) {
+        return createPromptMessage('user', `${project.name} has no sprints.`);
+      }
+
+      const sprintList = sprints
+        .map(
+          sprint =>
+            `- ${sprint.name} (${sprint.kind}, ${sprint.status}) - ${sprint.startDate.toISOString()} to ${sprint.endDate.toISOString()} - ${db.getSprintTasks(sprint.id).length} task(s) - ID: ${sprint.id}`
+        )
+        .join('\n');
+
+      return createPromptMessage(
+        'user',
+        `Sprints of ${project.name} (${sprints.length} total):\n\n${sprintList}`
+      );
+    }
+  );
+}
@@ -0,0 +1,89 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { db } from '../../../database.js';
+import { completeId, notFoundMessage } from '../../lookup.js';
+import { pagedResourceList } from '../../pagination.js';
+
+export function registerSprintResources(mcpServer: McpServer): void {
+  mcpServer.registerResource(
+    'All Sprints',
+    'sprint-manager://sprints',
+    {
+      description: 'List of all sprints and milestones in the system',
+      mimeType: 'application/json',
+    },
+    async () => {
+      const sprints = db.getAllSprints();
+      return {
+        contents: [
+          {
+            uri: 'sprint-manager://sprints',
+            mimeType: 'application/json',
+            text: JSON.stringify(sprints, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  mcpServer.registerResource(
+    'Sprint by ID',
+    new ResourceTemplate('sprint-manager://sprints/{sprintId}', {
+      list: pagedResourceList(
+        () => db.getAllSprints(),
+        sprint => ({
+          uri: `sprint-manager://sprints/${sprint.id}`,
+          name: sprint.name,
+          description: `${sprint.kind === 'milestone' ? 'Milestone' : 'Sprint'}: ${sprint.name}`,
+          mimeType: 'application/json',
+        })
+      ),
+      complete: {
+        sprintId: completeId('sprint'),
+      },
+    }),
+    {
+      description: 'Get a specific sprint or milestone by ID',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const sprintId = Array.isArray(variables.sprintId)
+        ? variables.sprintId[0]
+        : variables.sprintId;
+      if (!sprintId || typeof sprintId !== 'string') {
+        return {
+          contents: [
+            {
+              uri: uri.toString(),
+              mimeType: 'application/json',
+              text: JSON.stringify({ error: 'Sprint ID is required' }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const sprint = db.getSprint(sprintId);
+      if (!sprint) {
+        return {
+          contents: [
+            {
+              uri: uri.toString(),
+              mimeType: 'application/json',
+              text: JSON.stringify({ error: notFoundMessage('sprint', sprintId) }, null, 2),
+            },
+          ],
+        };
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.toString(),
+            mimeType: 'application/json',
+            text: JSON.stringify(sprint, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
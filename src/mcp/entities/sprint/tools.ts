@@ -0,0 +1,403 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { db } from '../../../database.js';
+import { RestrictViolationError } from '../../../errors.js';
+import type { DeletePolicies, DeletionPlan } from '../../../types.js';
+import { notFoundResponse } from '../../lookup.js';
+import { listPage, nextCursorSchema, paginationSchema } from '../../pagination.js';
+import {
+  asOfSchema,
+  createErrorResponse,
+  createToolConfig,
+  createToolResponse,
+  dateSchema,
+  deletionResultSchema,
+  referencePolicySchema,
+  timestampSchema,
+  validateInput,
+} from '../../utils.js';
+import { taskModel } from '../task/tools.js';
+
+// Define schemas for validation
+export const createSprintSchema = z.object({
+  projectId: z.string().describe('Project ID'),
+  name: z.string().describe('Sprint name'),
+  goal: z.string().optional().describe('What the sprint is meant to achieve (optional)'),
+  kind: z
+    .enum(['sprint', 'milestone'])
+    .optional()
+    .describe('sprint (default) for an iteration, milestone for a delivery'),
+  startDate: dateSchema.unwrap().describe('Start date (ISO string)'),
+  endDate: dateSchema.unwrap().describe('End date (ISO string), not before the start date'),
+  capacity: z
+    .number()
+    .int()
+    .nonnegative()
+    .nullable()
+    .optional()
+    .describe('Most tasks the sprint can hold (optional, default no limit)'),
+});
+
+const getSprintSchema = z.object({
+  sprintId: z.string().describe('Sprint ID'),
+  asOf: asOfSchema.describe('Return the sprint as it was at this time (ISO string, optional)'),
+});
+
+const listSprintsSchema = z
+  .object({
+    projectId: z.string().optional().describe('Only sprints of this project'),
+    status: z
+      .enum(['planned', 'active', 'closed'])
+      .optional()
+      .describe('Only sprints with this status'),
+  })
+  .merge(paginationSchema);
+
+export const updateSprintSchema = z.object({
+  sprintId: z.string().describe('Sprint ID'),
+  name: z.string().optional().describe('Sprint name'),
+  goal: z.string().optional().describe('What the sprint is meant to achieve'),
+  kind: z.enum(['sprint', 'milestone']).optional().describe('sprint or milestone'),
+  startDate: dateSchema.describe('Start date (ISO string)'),
+  endDate: dateSchema.describe('End date (ISO string)'),
+  capacity: z
+    .number()
+    .int()
+    .nonnegative()
+    .nullable()
+    .optional()
+    .describe('Most tasks the sprint can hold, or null for no limit'),
+  status: z
+    .enum(['planned', 'active'])
+    .optional()
+    .describe('Start the sprint with active; use close_sprint to close it'),
+});
+
+export const deleteSprintSchema = z.object({
+  sprintId: z.string().describe('Sprint ID'),
+  sprintTasks: referencePolicySchema.describe(
+    'What to do with the tasks planned for the sprint: set-null (back to the backlog, default), restrict or reassign-to (plan them for another sprint)'
+  ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('List what would be deleted or changed without deleting anything'),
+});
+
+const sprintTaskIdsSchema = z.object({
+  sprintId: z.string().describe('Sprint ID'),
+  taskIds: z.array(z.string()).min(1).describe('Task IDs'),
+});
+
+const getSprintTasksSchema = z
+  .object({
+    sprintId: z.string().describe('Sprint ID'),
+  })
+  .merge(paginationSchema);
+
+export const closeSprintSchema = z.object({
+  sprintId: z.string().describe('Sprint ID'),
+  carryOverTo: z
+    .string()
+    .nullable()
+    .optional()
+    .describe(
+      'ID of the sprint of the same project that unfinished tasks move to (optional, default the backlog)'
+    ),
+});
+
+// Define models of the tool output
+export const sprintModel = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  name: z.string(),
+  goal: z.string(),
+  kind: z.enum(['sprint', 'milestone']),
+  startDate: timestampSchema,
+  endDate: timestampSchema,
+  capacity: z.number().int().nullable(),
+  status: z.enum(['planned', 'active', 'closed']),
+  closedAt: timestampSchema.nullable(),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+  deletedAt: timestampSchema.nullable(),
+});
+
+const sprintListModel = z.object({ sprints: z.array(sprintModel), nextCursor: nextCursorSchema });
+
+const sprintTaskListModel = z.object({ tasks: z.array(taskModel), nextCursor: nextCursorSchema });
+
+// add_tasks_to_sprint and remove_tasks_from_sprint return the tasks they moved
+const movedTasksModel = z.object({ tasks: z.array(taskModel) });
+
+// close_sprint reports which tasks stayed with the sprint and which were carried over
+const sprintClosureModel = z.object({
+  sprint: sprintModel,
+  completed: z.array(z.string()),
+  carriedOver: z.array(z.string()),
+  carriedOverTo: z.string().nullable(),
+});
+
+// A declined confirmation reports only success: false and a message
+const sprintDeletionResultSchema = deletionResultSchema.partial();
+
+// Infer TypeScript types from Zod schemas
+export type CreateSprintInput = z.infer<typeof createSprintSchema>;
+export type UpdateSprintInput = z.infer<typeof updateSprintSchema>;
+export type DeleteSprintInput = z.infer<typeof deleteSprintSchema>;
+export type CloseSprintInput = z.infer<typeof closeSprintSchema>;
+
+export function registerSprintTools(mcpServer: McpServer): void {
+  mcpServer.registerTool(
+    'create_sprint',
+    createToolConfig(
+      'Create a sprint or milestone of a project; it starts out planned',
+      createSprintSchema,
+      sprintModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(createSprintSchema, args);
+      try {
+        const sprint = db.createSprint({
+          projectId: validated.projectId,
+          name: validated.name,
+          goal: validated.goal ?? '',
+          kind: validated.kind ?? 'sprint',
+          startDate: new Date(validated.startDate),
+          endDate: new Date(validated.endDate),
+          capacity: validated.capacity ?? null,
+        });
+        return createToolResponse({ structuredContent: sprint });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    'get_sprint',
+    createToolConfig('Get sprint details by ID', getSprintSchema, sprintModel),
+    async (args: unknown) => {
+      const validated = validateInput(getSprintSchema, args);
+      const at = validated.asOf ? new Date(validated.asOf) : undefined;
+      const sprint = at
+        ? db.getRecordAsOf('sprint', validated.sprintId, at)
+        : db.getSprint(validated.sprintId);
+      if (!sprint) {
+        // Suggest records that existed at that time
+        return notFoundResponse('sprint', validated.sprintId, at && db.asOf(at));
+      }
+      return createToolResponse({ structuredContent: sprint });
+    }
+  );
+
+  mcpServer.registerTool(
+    'list_sprints',
+    createToolConfig(
+      'List sprints and milestones, optionally only those of one project or with one status',
+      listSprintsSchema,
+      sprintListModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(listSprintsSchema, args);
+      const sprints = (
+        validated.projectId ? db.getSprintsByProject(validated.projectId) : db.getAllSprints()
+      ).filter(sprint => validated.status === undefined || sprint.status === validated.status);
+      return createToolResponse({ structuredContent: listPage('sprints', sprints, validated) });
+    }
+  );
+
+  mcpServer.registerTool(
+    'update_sprint',
+    createToolConfig('Update sprint details', updateSprintSchema, sprintModel),
+    async (args: unknown) => {
+      const validated = validateInput(updateSprintSchema, args);
+      const { sprintId, startDate, endDate, ...updates } = validated;
+      // Filter out undefined values for exactOptionalPropertyTypes
+      const filteredUpdates: Parameters<typeof db.updateSprint>[1] = Object.fromEntries(
+        Object.entries(updates).filter(([, value]) => value !== undefined)
+      );
+      if (startDate !== undefined) filteredUpdates.startDate = new Date(startDate);
+      if (endDate !== undefined) filteredUpdates.endDate = new Date(endDate);
+      try {
+        const sprint = db.updateSprint(sprintId, filteredUpdates);
+        if (!sprint) {
+          return notFoundResponse('sprint', sprintId);
+        }
+        return createToolResponse({ structuredContent: sprint });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    'delete_sprint',
+    createToolConfig(
+      'Delete a sprint or milestone, choosing what happens to its tasks; it can be restored from the trash',
+      deleteSprintSchema,
+      sprintDeletionResultSchema
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(deleteSprintSchema, args);
+      const policies: DeletePolicies = validated.sprintTasks
+        ? { sprintTasks: validated.sprintTasks }
+        : {};
+      const sprint = db.getSprint(validated.sprintId);
+
+      let plan: DeletionPlan | null;
+      try {
+        plan = db.planSprintDeletion(validated.sprintId, policies);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+
+      if (!sprint || !plan) {
+        return notFoundResponse('sprint', validated.sprintId);
+      }
+
+      if (validated.dryRun) {
+        return createToolResponse({ structuredContent: { dryRun: true, ...plan } });
+      }
+
+      // No point asking for confirmation when a restrict policy blocks the delete
+      if (plan.blockedBy.length > 0) {
+        return createErrorResponse(new RestrictViolationError(plan));
+      }
+
+      // Request user confirmation before deleting
+      // Inside run_transaction the operation list the client sent is the confirmation
+      const result = db.inTransaction
+        ? ({ action: 'accept', content: { confirm: true } } as const)
+        : await mcpServer.server.elicitInput({
+            message: `Are you sure you want to delete the ${sprint.kind} "${sprint.name}" (ID: ${sprint.id})? ${plan.updated.length} task(s) will be updated. The ${sprint.kind} can be restored from the trash.`,
+            requestedSchema: {
+              type: 'object',
+              properties: {
+                confirm: {
+                  type: 'boolean',
+                  title: 'Confirm deletion',
+                  description: 'Check this box to confirm you want to delete this sprint',
+                },
+              },
+              required: ['confirm'],
+            },
+          });
+
+      // Handle user response
+      if (result.action === 'accept' && result.content?.confirm === true) {
+        try {
+          const deleted = db.deleteSprint(validated.sprintId, policies);
+          if (!deleted) {
+            return createToolResponse('Sprint deletion failed', true);
+          }
+        } catch (error) {
+          return createErrorResponse(error);
+        }
+        return createToolResponse({
+          structuredContent: {
+            success: true,
+            message: `Sprint "${sprint.name}" deleted successfully`,
+            ...plan,
+          },
+        });
+      }
+
+      // User declined or cancelled the deletion
+      const message =
+        result.action === 'decline'
+          ? 'Sprint deletion declined by user'
+          : 'Sprint deletion cancelled';
+
+      return createToolResponse({ structuredContent: { success: false, message } });
+    }
+  );
+
+  mcpServer.registerTool(
+    'add_tasks_to_sprint',
+    createToolConfig(
+      'Plan tasks of the same project into an open sprint or milestone; no task moves if one of them cannot, such as when the sprint is full',
+      sprintTaskIdsSchema,
+      movedTasksModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(sprintTaskIdsSchema, args);
+      if (!db.getSprint(validated.sprintId)) {
+        return notFoundResponse('sprint', validated.sprintId);
+      }
+      try {
+        const tasks = db.moveTasksToSprint(validated.taskIds, validated.sprintId);
+        return createToolResponse({ structuredContent: { tasks } });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    'remove_tasks_from_sprint',
+    createToolConfig(
+      'Move tasks of a sprint or milestone back to the backlog',
+      sprintTaskIdsSchema,
+      movedTasksModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(sprintTaskIdsSchema, args);
+      if (!db.getSprint(validated.sprintId)) {
+        return notFoundResponse('sprint', validated.sprintId);
+      }
+      const outsider = validated.taskIds.find(
+        taskId => db.getTask(taskId)?.sprintId !== validated.sprintId
+      );
+      if (outsider !== undefined) {
+        return db.getTask(outsider)
+          ? createToolResponse(`Task "${outsider}" is not in sprint "${validated.sprintId}"`, true)
+          : notFoundResponse('task', outsider);
+      }
+      try {
+        const tasks = db.moveTasksToSprint(validated.taskIds, null);
+        return createToolResponse({ structuredContent: { tasks } });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    'get_sprint_tasks',
+    createToolConfig(
+      'Get the tasks planned for a sprint or milestone',
+      getSprintTasksSchema,
+      sprintTaskListModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(getSprintTasksSchema, args);
+      if (!db.getSprint(validated.sprintId)) {
+        return notFoundResponse('sprint', validated.sprintId);
+      }
+      const tasks = db.getSprintTasks(validated.sprintId);
+      return createToolResponse({ structuredContent: listPage('tasks', tasks, validated) });
+    }
+  );
+
+  mcpServer.registerTool(
+    'close_sprint',
+    createToolConfig(
+      'Close a sprint or milestone: done tasks stay with it, unfinished ones are carried over to another sprint of the project or back to the backlog',
+      closeSprintSchema,
+      sprintClosureModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(closeSprintSchema, args);
+      try {
+        const closure = db.closeSprint(validated.sprintId, validated.carryOverTo ?? null);
+        if (!closure) {
+          return notFoundResponse('sprint', validated.sprintId);
+        }
+        return createToolResponse({ structuredContent: closure });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+}
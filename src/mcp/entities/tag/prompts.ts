@@ -1,11 +1,13 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
 import { z } from 'zod';
 import { db } from '../../../database.js';
+import { completeId, notFoundSentence } from '../../lookup.js';
 import { createPromptMessage, schema, validateInput } from '../../utils.js';
 
 // Define schemas for prompt arguments
 const getTagPromptSchema = z.object({
-  tagId: z.string().describe('Tag ID to get details for'),
+  tagId: completable(z.string().describe('Tag ID to get details for'), completeId('tag')),
 });
 
 export function registerTagPrompts(mcpServer: McpServer): void {
@@ -21,7 +23,7 @@ export function registerTagPrompts(mcpServer: McpServer): void {
       const tag = db.getTag(validated.tagId);
 
       if (!tag) {
-        return createPromptMessage('user', `Tag with ID "${validated.tagId}" not found.`);
+        return createPromptMessage('user', notFoundSentence('tag', validated.tagId));
       }
 
       const tasks = db.getTasksByTag(validated.tagId);
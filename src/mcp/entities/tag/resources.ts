@@ -1,6 +1,8 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { db } from '../../../database.js';
+import { completeId, notFoundMessage } from '../../lookup.js';
+import { pagedResourceList } from '../../pagination.js';
 
 export function registerTagResources(mcpServer: McpServer): void {
   mcpServer.registerResource(
@@ -27,22 +29,17 @@ export function registerTagResources(mcpServer: McpServer): void {
   mcpServer.registerResource(
     'Tag by ID',
     new ResourceTemplate('tag-manager://tags/{tagId}', {
-      list: async () => {
-        const tags = db.getAllTags();
-        return {
-          resources: tags.map(tag => ({
-            uri: `tag-manager://tags/${tag.id}`,
-            name: tag.name,
-            description: `Tag: ${tag.name}`,
-            mimeType: 'application/json',
-          })),
-        };
-      },
+      list: pagedResourceList(
+        () => db.getAllTags(),
+        tag => ({
+          uri: `tag-manager://tags/${tag.id}`,
+          name: tag.name,
+          description: `Tag: ${tag.name}`,
+          mimeType: 'application/json',
+        })
+      ),
       complete: {
-        tagId: async () => {
-          const tags = db.getAllTags();
-          return tags.map(tag => tag.id);
-        },
+        tagId: completeId('tag'),
       },
     }),
     {
@@ -70,7 +67,7 @@ export function registerTagResources(mcpServer: McpServer): void {
             {
               uri: uri.toString(),
               mimeType: 'application/json',
-              text: JSON.stringify({ error: 'Tag not found' }, null, 2),
+              text: JSON.stringify({ error: notFoundMessage('tag', tagId) }, null, 2),
             },
           ],
         };
@@ -1,28 +1,63 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { db } from '../../../database.js';
-import { createToolConfig, createToolResponse, validateInput } from '../../utils.js';
+import { RestrictViolationError } from '../../../errors.js';
+import type { DeletePolicies, DeletionPlan } from '../../../types.js';
+import { notFoundResponse } from '../../lookup.js';
+import { listPage, nextCursorSchema, paginationSchema } from '../../pagination.js';
+import {
+  asOfSchema,
+  createErrorResponse,
+  createToolConfig,
+  createToolResponse,
+  deletionResultSchema,
+  referencePolicySchema,
+  timestampSchema,
+  validateInput,
+} from '../../utils.js';
 
 // Define schemas for validation
-const createTagSchema = z.object({
+export const createTagSchema = z.object({
   name: z.string().describe('Tag name'),
   color: z.string().describe('Tag color (hex code)'),
 });
 
 const getTagSchema = z.object({
   tagId: z.string().describe('Tag ID'),
+  asOf: asOfSchema.describe('Return the tag as it was at this time (ISO string, optional)'),
 });
 
-const updateTagSchema = z.object({
+export const updateTagSchema = z.object({
   tagId: z.string().describe('Tag ID'),
   name: z.string().optional().describe('Tag name'),
   color: z.string().optional().describe('Tag color (hex code)'),
 });
 
-const deleteTagSchema = z.object({
+export const deleteTagSchema = z.object({
   tagId: z.string().describe('Tag ID'),
+  taskTags: referencePolicySchema.describe(
+    'What to do with tasks carrying the tag: set-null (remove it, default), restrict or reassign-to'
+  ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('List what would be deleted or changed without deleting anything'),
 });
 
+// Define models of the tool output
+export const tagModel = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.string(),
+  createdAt: timestampSchema,
+  deletedAt: timestampSchema.nullable(),
+});
+
+const tagListModel = z.object({ tags: z.array(tagModel), nextCursor: nextCursorSchema });
+
+// A declined confirmation reports only success: false and a message
+const tagDeletionResultSchema = deletionResultSchema.partial();
+
 // Infer TypeScript types from Zod schemas
 export type CreateTagInput = z.infer<typeof createTagSchema>;
 export type GetTagInput = z.infer<typeof getTagSchema>;
@@ -32,38 +67,45 @@ export type DeleteTagInput = z.infer<typeof deleteTagSchema>;
 export function registerTagTools(mcpServer: McpServer): void {
   mcpServer.registerTool(
     'create_tag',
-    createToolConfig('Create a new tag', createTagSchema),
+    createToolConfig('Create a new tag', createTagSchema, tagModel),
     async (args: unknown) => {
       const validated = validateInput(createTagSchema, args);
       const tag = db.createTag({
         name: validated.name,
         color: validated.color,
       });
-      return createToolResponse(JSON.stringify(tag, null, 2));
+      return createToolResponse({ structuredContent: tag });
     }
   );
 
   mcpServer.registerTool(
     'get_tag',
-    createToolConfig('Get tag details by ID', getTagSchema),
+    createToolConfig('Get tag details by ID', getTagSchema, tagModel),
     async (args: unknown) => {
       const validated = validateInput(getTagSchema, args);
-      const tag = db.getTag(validated.tagId);
+      const at = validated.asOf ? new Date(validated.asOf) : undefined;
+      const tag = at ? db.getRecordAsOf('tag', validated.tagId, at) : db.getTag(validated.tagId);
       if (!tag) {
-        return createToolResponse('Tag not found', true);
+        // Suggest records that existed at that time
+        return notFoundResponse('tag', validated.tagId, at && db.asOf(at));
       }
-      return createToolResponse(JSON.stringify(tag, null, 2));
+      return createToolResponse({ structuredContent: tag });
     }
   );
 
-  mcpServer.registerTool('list_tags', createToolConfig('List all tags in the system'), async () => {
-    const tags = db.getAllTags();
-    return createToolResponse(JSON.stringify(tags, null, 2));
-  });
+  mcpServer.registerTool(
+    'list_tags',
+    createToolConfig('List all tags in the system', paginationSchema, tagListModel),
+    async (args: unknown) => {
+      const validated = validateInput(paginationSchema, args);
+      const tags = db.getAllTags();
+      return createToolResponse({ structuredContent: listPage('tags', tags, validated) });
+    }
+  );
 
   mcpServer.registerTool(
     'update_tag',
-    createToolConfig('Update tag details', updateTagSchema),
+    createToolConfig('Update tag details', updateTagSchema, tagModel),
     async (args: unknown) => {
       const validated = validateInput(updateTagSchema, args);
       const { tagId, ...updates } = validated;
@@ -73,59 +115,83 @@ export function registerTagTools(mcpServer: McpServer): void {
       );
       const tag = db.updateTag(tagId, filteredUpdates);
       if (!tag) {
-        return createToolResponse('Tag not found', true);
+        return notFoundResponse('tag', tagId);
       }
-      return createToolResponse(JSON.stringify(tag, null, 2));
+      return createToolResponse({ structuredContent: tag });
     }
   );
 
   mcpServer.registerTool(
     'delete_tag',
-    createToolConfig('Delete a tag', deleteTagSchema),
+    createToolConfig('Delete a tag', deleteTagSchema, tagDeletionResultSchema),
     async (args: unknown) => {
       const validated = validateInput(deleteTagSchema, args);
+      const policies: DeletePolicies = validated.taskTags ? { taskTags: validated.taskTags } : {};
       const tag = db.getTag(validated.tagId);
 
-      if (!tag) {
-        return createToolResponse('Tag not found', true);
+      let plan: DeletionPlan | null;
+      try {
+        plan = db.planTagDeletion(validated.tagId, policies);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+
+      if (!tag || !plan) {
+        return notFoundResponse('tag', validated.tagId);
+      }
+
+      if (validated.dryRun) {
+        return createToolResponse({ structuredContent: { dryRun: true, ...plan } });
+      }
+
+      // No point asking for confirmation when a restrict policy blocks the delete
+      if (plan.blockedBy.length > 0) {
+        return createErrorResponse(new RestrictViolationError(plan));
       }
 
       // Request user confirmation before deleting
-      const result = await mcpServer.server.elicitInput({
-        message: `Are you sure you want to delete the tag "${tag.name}" (ID: ${tag.id})? This action cannot be undone.`,
-        requestedSchema: {
-          type: 'object',
-          properties: {
-            confirm: {
-              type: 'boolean',
-              title: 'Confirm deletion',
-              description: 'Check this box to confirm you want to delete this tag',
+      // Inside run_transaction the operation list the client sent is the confirmation
+      const result = db.inTransaction
+        ? ({ action: 'accept', content: { confirm: true } } as const)
+        : await mcpServer.server.elicitInput({
+            message: `Are you sure you want to delete the tag "${tag.name}" (ID: ${tag.id})? ${plan.updated.length} task(s) will be updated. The tag can be restored from the trash.`,
+            requestedSchema: {
+              type: 'object',
+              properties: {
+                confirm: {
+                  type: 'boolean',
+                  title: 'Confirm deletion',
+                  description: 'Check this box to confirm you want to delete this tag',
+                },
+              },
+              required: ['confirm'],
             },
-          },
-          required: ['confirm'],
-        },
-      });
+          });
 
       // Handle user response
       if (result.action === 'accept' && result.content?.confirm === true) {
-        const deleted = db.deleteTag(validated.tagId);
-        if (!deleted) {
-          return createToolResponse('Tag deletion failed', true);
+        try {
+          const deleted = db.deleteTag(validated.tagId, policies);
+          if (!deleted) {
+            return createToolResponse('Tag deletion failed', true);
+          }
+        } catch (error) {
+          return createErrorResponse(error);
         }
-        return createToolResponse(
-          JSON.stringify(
-            { success: true, message: `Tag "${tag.name}" deleted successfully` },
-            null,
-            2
-          )
-        );
+        return createToolResponse({
+          structuredContent: {
+            success: true,
+            message: `Tag "${tag.name}" deleted successfully`,
+            ...plan,
+          },
+        });
       }
 
       // User declined or cancelled the deletion
       const message =
         result.action === 'decline' ? 'Tag deletion declined by user' : 'Tag deletion cancelled';
 
-      return createToolResponse(JSON.stringify({ success: false, message }, null, 2));
+      return createToolResponse({ structuredContent: { success: false, message } });
     }
   );
 }
@@ -1,15 +1,17 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
 import { z } from 'zod';
 import { db } from '../../../database.js';
+import { completeId, notFoundSentence } from '../../lookup.js';
 import { createPromptMessage, schema, validateInput } from '../../utils.js';
 
 // Define schemas for prompt arguments
 const getTaskPromptSchema = z.object({
-  taskId: z.string().describe('Task ID to get details for'),
+  taskId: completable(z.string().describe('Task ID to get details for'), completeId('task')),
 });
 
 const getTasksByProjectPromptSchema = z.object({
-  projectId: z.string().describe('Project ID to get tasks for'),
+  projectId: completable(z.string().describe('Project ID to get tasks for'), completeId('project')),
 });
 
 export function registerTaskPrompts(mcpServer: McpServer): void {
@@ -25,12 +27,25 @@ export function registerTaskPrompts(mcpServer: McpServer): void {
       const task = db.getTask(validated.taskId);
 
       if (!task) {
-        return createPromptMessage('user', `Task with ID "${validated.taskId}" not found.`);
+        return createPromptMessage('user', notFoundSentence('task', validated.taskId));
       }
 
       const project = db.getProject(task.projectId);
       const assignee = task.assigneeId ? db.getUser(task.assigneeId) : null;
       const tags = task.tags.map(tagId => db.getTag(tagId)).filter(Boolean);
+      const parent = task.parentTaskId ? db.getTask(task.parentTaskId) : null;
+      const blockers = task.blockedBy.flatMap(blockerId => db.getTask(blockerId) ?? []);
+      const tree = db.getSubtaskTree(task.id) ?? [];
+      const progress = db.getTaskProgress(task.id);
+      // One line per subtask, indented by its depth below this task
+      const treeLines = tree.map(
+        ({ task: subtask, depth }) =>
+          `${'  '.repeat(depth - 1)}- [${subtask.status}] ${subtask.title} (${subtask.id})`
+      );
+      const subtasks =
+        progress && tree.length > 0
+          ? `${String(tree.length)} (${String(progress.percentComplete)}% complete)\n${treeLines.join('\n')}`
+          : 'None';
 
       return createPromptMessage(
         'user',
@@ -44,8 +59,11 @@ Status: ${task.status}
 Priority: ${task.priority}
 Due Date: ${task.dueDate ? task.dueDate.toISOString() : 'Not set'}
 Tags: ${tags.length > 0 ? tags.map(t => t?.name).join(', ') : 'None'}
+Parent Task: ${parent ? `${parent.title} (${parent.id})` : 'None'}
+Blocked By: ${blockers.length > 0 ? blockers.map(b => `[${b.status}] ${b.title} (${b.id})`).join(', ') : 'None'}
 Created: ${task.createdAt.toISOString()}
-Last Updated: ${task.updatedAt.toISOString()}`
+Last Updated: ${task.updatedAt.toISOString()}
+Subtasks: ${subtasks}`
       );
     }
   );
@@ -87,7 +105,7 @@ Last Updated: ${task.updatedAt.toISOString()}`
       const project = db.getProject(validated.projectId);
 
       if (!project) {
-        return createPromptMessage('user', `Project with ID "${validated.projectId}" not found.`);
+        return createPromptMessage('user', notFoundSentence('project', validated.projectId));
       }
 
       if (tasks.length === 0) {
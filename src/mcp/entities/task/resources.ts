@@ -1,48 +1,50 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
 import { db } from '../../../database.js';
+import { completeId, notFoundMessage } from '../../lookup.js';
+import { listPage, pagedResourceList, paginationSchema } from '../../pagination.js';
 
 export function registerTaskResources(mcpServer: McpServer): void {
+  // The list of tasks is read a page at a time: task-manager://tasks holds the first page
+  // and task-manager://tasks?cursor=<nextCursor> each following one
   mcpServer.registerResource(
     'All Tasks',
     'task-manager://tasks',
     {
-      description: 'List of all tasks in the system',
+      description: 'First page of all tasks in the system, with the cursor of the next page',
       mimeType: 'application/json',
     },
-    async () => {
-      const tasks = db.getAllTasks();
-      return {
-        contents: [
-          {
-            uri: 'task-manager://tasks',
-            mimeType: 'application/json',
-            text: JSON.stringify(tasks, null, 2),
-          },
-        ],
-      };
+    async uri => readTaskPage(uri, undefined)
+  );
+
+  mcpServer.registerResource(
+    'All Tasks Page',
+    new ResourceTemplate('task-manager://tasks{?cursor}', { list: undefined }),
+    {
+      description: 'A later page of all tasks, starting at the nextCursor of the previous page',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const cursor = Array.isArray(variables.cursor) ? variables.cursor[0] : variables.cursor;
+      return readTaskPage(uri, cursor);
     }
   );
 
   mcpServer.registerResource(
     'Task by ID',
     new ResourceTemplate('task-manager://tasks/{taskId}', {
-      list: async () => {
-        const tasks = db.getAllTasks();
-        return {
-          resources: tasks.map(task => ({
-            uri: `task-manager://tasks/${task.id}`,
-            name: task.title,
-            description: `Task: ${task.title} (${task.status})`,
-            mimeType: 'application/json',
-          })),
-        };
-      },
+      list: pagedResourceList(
+        () => db.getAllTasks(),
+        task => ({
+          uri: `task-manager://tasks/${task.id}`,
+          name: task.title,
+          description: `Task: ${task.title} (${task.status})`,
+          mimeType: 'application/json',
+        })
+      ),
       complete: {
-        taskId: async () => {
-          const tasks = db.getAllTasks();
-          return tasks.map(task => task.id);
-        },
+        taskId: completeId('task'),
       },
     }),
     {
@@ -70,7 +72,7 @@ export function registerTaskResources(mcpServer: McpServer): void {
             {
               uri: uri.toString(),
               mimeType: 'application/json',
-              text: JSON.stringify({ error: 'Task not found' }, null, 2),
+              text: JSON.stringify({ error: notFoundMessage('task', taskId) }, null, 2),
             },
           ],
         };
@@ -87,4 +89,52 @@ export function registerTaskResources(mcpServer: McpServer): void {
       };
     }
   );
+
+  mcpServer.registerResource(
+    'Task History',
+    new ResourceTemplate('task-manager://tasks/{taskId}/history', {
+      // Not listed separately; every task has a history
+      list: undefined,
+      complete: {
+        taskId: completeId('task'),
+      },
+    }),
+    {
+      description: 'Every recorded change to a task, oldest first',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const taskId = Array.isArray(variables.taskId) ? variables.taskId[0] : variables.taskId;
+      const history = taskId ? db.getHistory('task', taskId) : [];
+      return {
+        contents: [
+          {
+            uri: uri.toString(),
+            mimeType: 'application/json',
+            text: JSON.stringify(
+              history.length > 0 ? history : { error: notFoundMessage('task', taskId ?? '') },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+}
+
+function readTaskPage(uri: URL, cursor: string | undefined): ReadResourceResult {
+  const paging = paginationSchema.safeParse(cursor === undefined ? {} : { cursor });
+  const page = paging.success
+    ? listPage('tasks', db.getAllTasks(), paging.data)
+    : { error: 'Invalid cursor' };
+  return {
+    contents: [
+      {
+        uri: uri.toString(),
+        mimeType: 'application/json',
+        text: JSON.stringify(page, null, 2),
+      },
+    ],
+  };
 }
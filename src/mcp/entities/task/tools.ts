@@ -1,196 +1,590 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { db } from '../../../database.js';
-import { createToolConfig, createToolResponse, validateInput } from '../../utils.js';
+import type { DateRange, DeletePolicies, TaskQuery } from '../../../types.js';
+import { notFoundResponse } from '../../lookup.js';
+import { listPage, nextCursorSchema, paginationSchema } from '../../pagination.js';
+import {
+  asOfSchema,
+  createErrorResponse,
+  createToolConfig,
+  createToolResponse,
+  dateSchema,
+  deletionResultSchema,
+  referencePolicySchema,
+  timestampSchema,
+  validateInput,
+} from '../../utils.js';
 
 // Define schemas for validation
-const createTaskSchema = z.object({
+export const createTaskSchema = z.object({
   title: z.string().describe('Task title'),
   description: z.string().describe('Task description'),
   projectId: z.string().describe('Project ID'),
   assigneeId: z.string().nullable().optional().describe('Assignee user ID (optional)'),
-  status: z.enum(['todo', 'in-progress', 'review', 'done']).describe('Task status'),
+  status: z.string().describe("Task status, one of the statuses of the project's workflow"),
   priority: z.enum(['low', 'medium', 'high', 'urgent']).describe('Task priority'),
   dueDate: z.string().nullable().optional().describe('Due date (ISO string, optional)'),
   tags: z.array(z.string()).optional().describe('Tag IDs'),
+  parentTaskId: z
+    .string()
+    .nullable()
+    .optional()
+    .describe('ID of the task this one is a subtask of (optional)'),
+  blockedBy: z
+    .array(z.string())
+    .optional()
+    .describe('IDs of tasks that have to be done before this one can start (optional)'),
+  sprintId: z
+    .string()
+    .nullable()
+    .optional()
+    .describe('ID of the sprint or milestone to plan the task for (optional, default backlog)'),
+  force: z
+    .boolean()
+    .optional()
+    .describe(
+      'Create the task in progress or done even though tasks it is blocked by are not done'
+    ),
 });
 
+const taskSortFieldSchema = z.enum([
+  'title',
+  'status',
+  'priority',
+  'dueDate',
+  'createdAt',
+  'updatedAt',
+]);
+
+const taskFieldSchema = z.enum([
+  'title',
+  'description',
+  'projectId',
+  'assigneeId',
+  'status',
+  'priority',
+  'dueDate',
+  'tags',
+  'parentTaskId',
+  'blockedBy',
+  'sprintId',
+  'createdBy',
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+]);
+
+export const listTasksSchema = z
+  .object({
+    projectId: z.string().optional().describe('Only tasks in this project'),
+    assigneeId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe('Only tasks assigned to this user ID, or unassigned tasks when null'),
+    status: z.array(z.string()).optional().describe('Only tasks with any of these statuses'),
+    priority: z
+      .array(z.enum(['low', 'medium', 'high', 'urgent']))
+      .optional()
+      .describe('Only tasks with any of these priorities'),
+    tagsAny: z
+      .array(z.string())
+      .optional()
+      .describe('Only tasks carrying at least one of these tag IDs'),
+    tagsAll: z
+      .array(z.string())
+      .optional()
+      .describe('Only tasks carrying every one of these tag IDs'),
+    dueAfter: dateSchema.describe('Only tasks due at or after this time (ISO string)'),
+    dueBefore: dateSchema.describe('Only tasks due at or before this time (ISO string)'),
+    createdAfter: dateSchema.describe('Only tasks created at or after this time (ISO string)'),
+    createdBefore: dateSchema.describe('Only tasks created at or before this time (ISO string)'),
+    updatedAfter: dateSchema.describe('Only tasks updated at or after this time (ISO string)'),
+    updatedBefore: dateSchema.describe('Only tasks updated at or before this time (ISO string)'),
+    sort: z
+      .array(
+        z.object({
+          field: taskSortFieldSchema,
+          direction: z.enum(['asc', 'desc']).optional().describe('Sort direction (default asc)'),
+        })
+      )
+      .optional()
+      .describe(
+        'Sort keys, most significant first; status sorts in workflow order and priority from low to urgent (default: creation order)'
+      ),
+    fields: z
+      .array(taskFieldSchema)
+      .optional()
+      .describe('Task fields to return; id is always included (default: every field)'),
+  })
+  .merge(paginationSchema);
+
 const getTaskSchema = z.object({
   taskId: z.string().describe('Task ID'),
+  asOf: asOfSchema.describe('Return the task as it was at this time (ISO string, optional)'),
 });
 
-const getTasksByProjectSchema = z.object({
-  projectId: z.string().describe('Project ID'),
-});
+const getTasksByProjectSchema = z
+  .object({
+    projectId: z.string().describe('Project ID'),
+  })
+  .merge(paginationSchema);
 
-const getTasksByAssigneeSchema = z.object({
-  assigneeId: z.string().describe('Assignee user ID'),
-});
+const getTasksByAssigneeSchema = z
+  .object({
+    assigneeId: z.string().describe('Assignee user ID'),
+  })
+  .merge(paginationSchema);
 
-const getTasksByStatusSchema = z.object({
-  status: z.enum(['todo', 'in-progress', 'review', 'done']).describe('Task status'),
-});
+const getTasksByStatusSchema = z
+  .object({
+    status: z.string().describe('Task status'),
+  })
+  .merge(paginationSchema);
 
-const getTasksByTagSchema = z.object({
-  tagId: z.string().describe('Tag ID'),
-});
+const getTasksByTagSchema = z
+  .object({
+    tagId: z.string().describe('Tag ID'),
+  })
+  .merge(paginationSchema);
 
-const updateTaskSchema = z.object({
+export const updateTaskSchema = z.object({
   taskId: z.string().describe('Task ID'),
   title: z.string().optional().describe('Task title'),
   description: z.string().optional().describe('Task description'),
   assigneeId: z.string().nullable().optional().describe('Assignee user ID'),
-  status: z.enum(['todo', 'in-progress', 'review', 'done']).optional().describe('Task status'),
+  status: z
+    .string()
+    .optional()
+    .describe("Task status; the project's workflow decides which statuses it can move to"),
   priority: z.enum(['low', 'medium', 'high', 'urgent']).optional().describe('Task priority'),
   dueDate: z.string().nullable().optional().describe('Due date (ISO string)'),
   tags: z.array(z.string()).optional().describe('Tag IDs'),
+  parentTaskId: z
+    .string()
+    .nullable()
+    .optional()
+    .describe('ID of the task to move this one under, or null to make it a top-level task'),
+  blockedBy: z
+    .array(z.string())
+    .optional()
+    .describe('IDs of tasks that have to be done before this one can start'),
+  sprintId: z
+    .string()
+    .nullable()
+    .optional()
+    .describe('ID of the sprint or milestone to plan the task for, or null for the backlog'),
+  force: z
+    .boolean()
+    .optional()
+    .describe(
+      'Move the task to in-progress or done even though tasks it is blocked by are not done'
+    ),
+});
+
+export const deleteTaskSchema = z.object({
+  taskId: z.string().describe('Task ID'),
+  subtasks: referencePolicySchema.describe(
+    'What to do with the subtasks: cascade (default), restrict, set-null (make them top-level tasks) or reassign-to (move them under another task)'
+  ),
+  blockedTasks: referencePolicySchema.describe(
+    'What to do with the tasks blocked by this one: set-null (default, they stop waiting on it) or restrict'
+  ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('List what would be deleted or changed without deleting anything'),
 });
 
-const deleteTaskSchema = z.object({
+const getSubtasksSchema = z
+  .object({
+    taskId: z.string().describe('ID of the parent task'),
+  })
+  .merge(paginationSchema);
+
+const getTaskProgressSchema = z.object({
   taskId: z.string().describe('Task ID'),
 });
 
-const searchTasksSchema = z.object({
-  query: z.string().describe('Search query'),
+const getBlockedTasksSchema = z
+  .object({
+    projectId: z.string().optional().describe('Only tasks in this project (optional)'),
+  })
+  .merge(paginationSchema);
+
+const getCriticalPathSchema = z.object({
+  projectId: z.string().describe('Project ID'),
+});
+
+const searchTasksSchema = z
+  .object({
+    query: z
+      .string()
+      .describe(
+        'Search query, e.g. status:in-progress priority:>=high assignee:@alice tag:backend due:<2024-03-01 "login bug"'
+      ),
+  })
+  .merge(paginationSchema);
+
+// Define models of the tool output
+export const taskModel = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  projectId: z.string(),
+  assigneeId: z.string().nullable(),
+  status: z.string(),
+  priority: z.enum(['low', 'medium', 'high', 'urgent']),
+  dueDate: timestampSchema.nullable(),
+  tags: z.array(z.string()),
+  parentTaskId: z.string().nullable(),
+  blockedBy: z.array(z.string()),
+  sprintId: z.string().nullable(),
+  createdBy: z.string().nullable(),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+  deletedAt: timestampSchema.nullable(),
+});
+
+const taskListModel = z.object({ tasks: z.array(taskModel), nextCursor: nextCursorSchema });
+
+// get_task_subtree lists each task with how far below the root it is
+const subtaskTreeModel = z.object({
+  subtasks: z.array(z.object({ task: taskModel, depth: z.number().int() })),
+  nextCursor: nextCursorSchema,
+});
+
+const taskProgressModel = z.object({
+  taskId: z.string(),
+  subtasks: z.number().int(),
+  byStatus: z.record(z.number().int()),
+  byCategory: z.record(z.enum(['todo', 'in-progress', 'done']), z.number().int()),
+  percentComplete: z.number(),
+});
+
+// get_blocked_tasks lists each task with the tasks it waits on that are not done
+const blockedTaskListModel = z.object({
+  blocked: z.array(z.object({ task: taskModel, blockers: z.array(taskModel) })),
+  nextCursor: nextCursorSchema,
+});
+
+const criticalPathModel = z.object({
+  projectId: z.string(),
+  tasks: z.array(taskModel),
+});
+
+// list_tasks returns only the requested fields of each task
+const taskProjectionListModel = z.object({
+  tasks: z.array(taskModel.partial().required({ id: true })),
+  nextCursor: nextCursorSchema,
 });
 
 // Infer TypeScript types from Zod schemas
 export type CreateTaskInput = z.infer<typeof createTaskSchema>;
+export type ListTasksInput = z.infer<typeof listTasksSchema>;
 export type GetTaskInput = z.infer<typeof getTaskSchema>;
 export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
 export type DeleteTaskInput = z.infer<typeof deleteTaskSchema>;
+export type GetSubtasksInput = z.infer<typeof getSubtasksSchema>;
 
 export function registerTaskTools(mcpServer: McpServer): void {
   mcpServer.registerTool(
     'create_task',
-    createToolConfig('Create a new task', createTaskSchema),
+    createToolConfig('Create a new task', createTaskSchema, taskModel),
     async (args: unknown) => {
       const validated = validateInput(createTaskSchema, args);
-      const task = db.createTask({
-        title: validated.title,
-        description: validated.description,
-        projectId: validated.projectId,
-        assigneeId: validated.assigneeId ?? null,
-        status: validated.status,
-        priority: validated.priority,
-        dueDate: validated.dueDate ? new Date(validated.dueDate) : null,
-        tags: validated.tags ?? [],
-      });
-      return createToolResponse(JSON.stringify(task, null, 2));
+      try {
+        const task = db.createTask(
+          {
+            title: validated.title,
+            description: validated.description,
+            projectId: validated.projectId,
+            assigneeId: validated.assigneeId ?? null,
+            status: validated.status,
+            priority: validated.priority,
+            dueDate: validated.dueDate ? new Date(validated.dueDate) : null,
+            tags: validated.tags ?? [],
+            parentTaskId: validated.parentTaskId ?? null,
+            blockedBy: validated.blockedBy ?? [],
+            sprintId: validated.sprintId ?? null,
+          },
+          validated.force ? { force: validated.force } : {}
+        );
+        return createToolResponse({ structuredContent: task });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
     }
   );
 
   mcpServer.registerTool(
     'get_task',
-    createToolConfig('Get task details by ID', getTaskSchema),
+    createToolConfig('Get task details by ID', getTaskSchema, taskModel),
     async (args: unknown) => {
       const validated = validateInput(getTaskSchema, args);
-      const task = db.getTask(validated.taskId);
+      const at = validated.asOf ? new Date(validated.asOf) : undefined;
+      const task = at
+        ? db.getRecordAsOf('task', validated.taskId, at)
+        : db.getTask(validated.taskId);
       if (!task) {
-        return createToolResponse('Task not found', true);
+        // Suggest records that existed at that time
+        return notFoundResponse('task', validated.taskId, at && db.asOf(at));
       }
-      return createToolResponse(JSON.stringify(task, null, 2));
+      return createToolResponse({ structuredContent: task });
     }
   );
 
   mcpServer.registerTool(
     'list_tasks',
-    createToolConfig('List all tasks in the system'),
-    async () => {
-      const tasks = db.getAllTasks();
-      return createToolResponse(JSON.stringify(tasks, null, 2));
+    createToolConfig(
+      'List tasks matching any combination of filters, sorted and limited to the fields requested',
+      listTasksSchema,
+      taskProjectionListModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(listTasksSchema, args);
+      const { fields } = validated;
+      const tasks = db.queryTasks(toTaskQuery(validated));
+      const projected = fields
+        ? tasks.map(task =>
+            Object.fromEntries(['id' as const, ...fields].map(field => [field, task[field]]))
+          )
+        : tasks;
+      return createToolResponse({ structuredContent: listPage('tasks', projected, validated) });
     }
   );
 
   mcpServer.registerTool(
     'get_tasks_by_project',
-    createToolConfig('Get all tasks for a project', getTasksByProjectSchema),
+    createToolConfig('Get all tasks for a project', getTasksByProjectSchema, taskListModel),
     async (args: unknown) => {
       const validated = validateInput(getTasksByProjectSchema, args);
       const tasks = db.getTasksByProject(validated.projectId);
-      return createToolResponse(JSON.stringify(tasks, null, 2));
+      return createToolResponse({ structuredContent: listPage('tasks', tasks, validated) });
     }
   );
 
   mcpServer.registerTool(
     'get_tasks_by_assignee',
-    createToolConfig('Get all tasks assigned to a user', getTasksByAssigneeSchema),
+    createToolConfig('Get all tasks assigned to a user', getTasksByAssigneeSchema, taskListModel),
     async (args: unknown) => {
       const validated = validateInput(getTasksByAssigneeSchema, args);
       const tasks = db.getTasksByAssignee(validated.assigneeId);
-      return createToolResponse(JSON.stringify(tasks, null, 2));
+      return createToolResponse({ structuredContent: listPage('tasks', tasks, validated) });
     }
   );
 
   mcpServer.registerTool(
     'get_tasks_by_status',
-    createToolConfig('Get all tasks with a specific status', getTasksByStatusSchema),
+    createToolConfig('Get all tasks with a specific status', getTasksByStatusSchema, taskListModel),
     async (args: unknown) => {
       const validated = validateInput(getTasksByStatusSchema, args);
       const tasks = db.getTasksByStatus(validated.status);
-      return createToolResponse(JSON.stringify(tasks, null, 2));
+      return createToolResponse({ structuredContent: listPage('tasks', tasks, validated) });
     }
   );
 
   mcpServer.registerTool(
     'get_tasks_by_tag',
-    createToolConfig('Get all tasks with a specific tag', getTasksByTagSchema),
+    createToolConfig('Get all tasks with a specific tag', getTasksByTagSchema, taskListModel),
     async (args: unknown) => {
       const validated = validateInput(getTasksByTagSchema, args);
       const tasks = db.getTasksByTag(validated.tagId);
-      return createToolResponse(JSON.stringify(tasks, null, 2));
+      return createToolResponse({ structuredContent: listPage('tasks', tasks, validated) });
     }
   );
 
   mcpServer.registerTool(
     'update_task',
-    createToolConfig('Update task details', updateTaskSchema),
+    createToolConfig('Update task details', updateTaskSchema, taskModel),
     async (args: unknown) => {
       const validated = validateInput(updateTaskSchema, args);
-      const { taskId, dueDate, ...updates } = validated;
+      const { taskId, dueDate, force, ...updates } = validated;
       // Filter out undefined values for exactOptionalPropertyTypes
       const filteredUpdates: Partial<{
         title: string;
         description: string;
         assigneeId: string | null;
-        status: 'todo' | 'in-progress' | 'review' | 'done';
+        status: string;
         priority: 'low' | 'medium' | 'high' | 'urgent';
         dueDate: Date | null;
         tags: string[];
+        parentTaskId: string | null;
+        blockedBy: string[];
+        sprintId: string | null;
       }> = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
       if (dueDate !== undefined) {
         filteredUpdates.dueDate = dueDate ? new Date(dueDate) : null;
       }
-      const task = db.updateTask(taskId, filteredUpdates);
-      if (!task) {
-        return createToolResponse('Task not found', true);
+      try {
+        const task = db.updateTask(taskId, filteredUpdates, force ? { force } : {});
+        if (!task) {
+          return notFoundResponse('task', taskId);
+        }
+        return createToolResponse({ structuredContent: task });
+      } catch (error) {
+        return createErrorResponse(error);
       }
-      return createToolResponse(JSON.stringify(task, null, 2));
     }
   );
 
   mcpServer.registerTool(
     'delete_task',
-    createToolConfig('Delete a task', deleteTaskSchema),
+    createToolConfig(
+      'Delete a task together with its comments, choosing what happens to its subtasks and the tasks blocked by it; everything deleted can be restored from the trash',
+      deleteTaskSchema,
+      deletionResultSchema
+    ),
     async (args: unknown) => {
-      const validated = validateInput(deleteTaskSchema, args);
-      const deleted = db.deleteTask(validated.taskId);
-      if (!deleted) {
-        return createToolResponse('Task not found', true);
-      }
-      return createToolResponse(
-        JSON.stringify({ success: true, message: 'Task deleted' }, null, 2)
+      const { taskId, dryRun, ...relationships } = validateInput(deleteTaskSchema, args);
+      // Filter out undefined values for exactOptionalPropertyTypes
+      const policies: DeletePolicies = Object.fromEntries(
+        Object.entries(relationships).filter(([, value]) => value !== undefined)
       );
+      try {
+        const plan = db.planTaskDeletion(taskId, policies);
+        if (!plan) {
+          return notFoundResponse('task', taskId);
+        }
+        if (dryRun) {
+          return createToolResponse({ structuredContent: { dryRun: true, ...plan } });
+        }
+        db.deleteTask(taskId, policies);
+        return createToolResponse({
+          structuredContent: { success: true, message: 'Task deleted', ...plan },
+        });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    'get_subtasks',
+    createToolConfig('Get the direct subtasks of a task', getSubtasksSchema, taskListModel),
+    async (args: unknown) => {
+      const validated = validateInput(getSubtasksSchema, args);
+      if (!db.getTask(validated.taskId)) {
+        return notFoundResponse('task', validated.taskId);
+      }
+      const tasks = db.getSubtasks(validated.taskId);
+      return createToolResponse({ structuredContent: listPage('tasks', tasks, validated) });
+    }
+  );
+
+  mcpServer.registerTool(
+    'get_task_subtree',
+    createToolConfig(
+      'Get every task below a task, depth first, each with its depth (1 for a direct subtask)',
+      getSubtasksSchema,
+      subtaskTreeModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(getSubtasksSchema, args);
+      const tree = db.getSubtaskTree(validated.taskId);
+      if (!tree) {
+        return notFoundResponse('task', validated.taskId);
+      }
+      return createToolResponse({ structuredContent: listPage('subtasks', tree, validated) });
+    }
+  );
+
+  mcpServer.registerTool(
+    'get_task_progress',
+    createToolConfig(
+      'Get the progress of a task rolled up from its subtasks: how many are in each status and the percentage of the bottom-level tasks that are done',
+      getTaskProgressSchema,
+      taskProgressModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(getTaskProgressSchema, args);
+      const progress = db.getTaskProgress(validated.taskId);
+      if (!progress) {
+        return notFoundResponse('task', validated.taskId);
+      }
+      return createToolResponse({ structuredContent: progress });
+    }
+  );
+
+  mcpServer.registerTool(
+    'get_blocked_tasks',
+    createToolConfig(
+      'Get the tasks that are not done but wait on tasks that are not done either, each with those blockers',
+      getBlockedTasksSchema,
+      blockedTaskListModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(getBlockedTasksSchema, args);
+      if (validated.projectId !== undefined && !db.getProject(validated.projectId)) {
+        return notFoundResponse('project', validated.projectId);
+      }
+      const blocked = db.getBlockedTasks(validated.projectId);
+      return createToolResponse({ structuredContent: listPage('blocked', blocked, validated) });
+    }
+  );
+
+  mcpServer.registerTool(
+    'get_critical_path',
+    createToolConfig(
+      'Get the critical path of a project: the longest chain of open tasks that have to be done one after another, in the order to do them',
+      getCriticalPathSchema,
+      criticalPathModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(getCriticalPathSchema, args);
+      const path = db.getCriticalPath(validated.projectId);
+      if (!path) {
+        return notFoundResponse('project', validated.projectId);
+      }
+      return createToolResponse({ structuredContent: path });
     }
   );
 
   mcpServer.registerTool(
     'search_tasks',
-    createToolConfig('Search tasks by title or description', searchTasksSchema),
+    createToolConfig(
+      'Search tasks with a query of field terms (status, priority, assignee, project, tag, due, created, updated), comparisons such as priority:>=high, and words or "quoted phrases" to find in the title or description',
+      searchTasksSchema,
+      taskListModel
+    ),
     async (args: unknown) => {
       const validated = validateInput(searchTasksSchema, args);
-      const tasks = db.searchTasks(validated.query);
-      return createToolResponse(JSON.stringify(tasks, null, 2));
+      try {
+        const tasks = db.searchTasks(validated.query);
+        return createToolResponse({ structuredContent: listPage('tasks', tasks, validated) });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
     }
   );
 }
+
+// Criteria of a task query, leaving out the arguments that were not given
+function toTaskQuery(input: ListTasksInput): TaskQuery {
+  const query: TaskQuery = {};
+  if (input.projectId !== undefined) query.projectId = input.projectId;
+  if (input.assigneeId !== undefined) query.assigneeId = input.assigneeId;
+  if (input.status !== undefined) query.status = input.status;
+  if (input.priority !== undefined) query.priority = input.priority;
+  if (input.tagsAny !== undefined) query.tagsAny = input.tagsAny;
+  if (input.tagsAll !== undefined) query.tagsAll = input.tagsAll;
+  const dueDate = toDateRange(input.dueAfter, input.dueBefore);
+  if (dueDate) query.dueDate = dueDate;
+  const createdAt = toDateRange(input.createdAfter, input.createdBefore);
+  if (createdAt) query.createdAt = createdAt;
+  const updatedAt = toDateRange(input.updatedAfter, input.updatedBefore);
+  if (updatedAt) query.updatedAt = updatedAt;
+  if (input.sort !== undefined) {
+    query.sort = input.sort.map(key => ({ field: key.field, direction: key.direction ?? 'asc' }));
+  }
+  return query;
+}
+
+function toDateRange(from?: string, to?: string): DateRange | undefined {
+  if (from === undefined && to === undefined) return undefined;
+  const range: DateRange = {};
+  if (from !== undefined) range.from = new Date(from);
+  if (to !== undefined) range.to = new Date(to);
+  return range;
+}
@@ -2,6 +2,7 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
 import { z } from 'zod';
 import { db } from '../../../database.js';
+import { completeId, notFoundSentence } from '../../lookup.js';
 import { createPromptMessage, validateInput } from '../../utils.js';
 
 // Define schemas for prompt arguments
@@ -16,15 +17,7 @@ export function registerUserPrompts(mcpServer: McpServer): void {
       description: 'Get detailed information about a specific user',
       // Use completable for userId to enable autocompletion
       argsSchema: {
-        userId: completable(
-          z.string().describe('User ID to get details for'),
-          async (value, _context) => {
-            const allUsers = db.getAllUsers();
-            return allUsers
-              .filter(user => user.id.toLowerCase().startsWith(value.toLowerCase()))
-              .map(user => user.id);
-          }
-        ),
+        userId: completable(z.string().describe('User ID to get details for'), completeId('user')),
       },
     },
     async (args: unknown) => {
@@ -33,7 +26,7 @@ export function registerUserPrompts(mcpServer: McpServer): void {
       const user = db.getUser(validated.userId);
 
       if (!user) {
-        return createPromptMessage('user', `User with ID "${validated.userId}" not found.`);
+        return createPromptMessage('user', notFoundSentence('user', validated.userId));
       }
 
       return createPromptMessage(
@@ -1,6 +1,8 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { db } from '../../../database.js';
+import { completeId, notFoundMessage } from '../../lookup.js';
+import { pagedResourceList } from '../../pagination.js';
 
 export function registerUserResources(mcpServer: McpServer): void {
   mcpServer.registerResource(
@@ -27,22 +29,17 @@ export function registerUserResources(mcpServer: McpServer): void {
   mcpServer.registerResource(
     'User by ID',
     new ResourceTemplate('user-manager://users/{userId}', {
-      list: async () => {
-        const users = db.getAllUsers();
-        return {
-          resources: users.map(user => ({
-            uri: `user-manager://users/${user.id}`,
-            name: user.name,
-            description: `User: ${user.name} (${user.email})`,
-            mimeType: 'application/json',
-          })),
-        };
-      },
+      list: pagedResourceList(
+        () => db.getAllUsers(),
+        user => ({
+          uri: `user-manager://users/${user.id}`,
+          name: user.name,
+          description: `User: ${user.name} (${user.email})`,
+          mimeType: 'application/json',
+        })
+      ),
       complete: {
-        userId: async () => {
-          const users = db.getAllUsers();
-          return users.map(user => user.id);
-        },
+        userId: completeId('user'),
       },
     }),
     {
@@ -70,7 +67,7 @@ export function registerUserResources(mcpServer: McpServer): void {
             {
               uri: uri.toString(),
               mimeType: 'application/json',
-              text: JSON.stringify({ error: 'User not found' }, null, 2),
+              text: JSON.stringify({ error: notFoundMessage('user', userId) }, null, 2),
             },
           ],
         };
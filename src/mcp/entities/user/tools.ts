@@ -1,10 +1,23 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { db } from '../../../database.js';
-import { createToolConfig, createToolResponse, validateInput } from '../../utils.js';
+import type { DeletePolicies } from '../../../types.js';
+import { notFoundResponse } from '../../lookup.js';
+import { listPage, nextCursorSchema, paginationSchema } from '../../pagination.js';
+import {
+  asOfSchema,
+  createErrorResponse,
+  createToolConfig,
+  createToolResponse,
+  deletionResultSchema,
+  entityTypeSchema,
+  referencePolicySchema,
+  timestampSchema,
+  validateInput,
+} from '../../utils.js';
 
 // Define schemas for validation
-const createUserSchema = z.object({
+export const createUserSchema = z.object({
   name: z.string().describe('User full name'),
   email: z.string().describe('User email address'),
   role: z.enum(['admin', 'user', 'viewer']).describe('User role'),
@@ -12,16 +25,55 @@ const createUserSchema = z.object({
 
 const getUserSchema = z.object({
   userId: z.string().describe('User ID'),
+  asOf: asOfSchema.describe('Return the user as it was at this time (ISO string, optional)'),
 });
 
+export const deleteUserSchema = z.object({
+  userId: z.string().describe('User ID'),
+  projectOwner: referencePolicySchema.describe(
+    'What to do with projects the user owns: restrict (default), cascade or reassign-to'
+  ),
+  taskAssignee: referencePolicySchema.describe(
+    'What to do with tasks assigned to the user: set-null (default), restrict, cascade or reassign-to'
+  ),
+  commentAuthor: referencePolicySchema.describe(
+    'What to do with comments the user wrote: restrict (default), cascade or reassign-to'
+  ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('List what would be deleted or changed without deleting anything'),
+});
+
+const clearAllUsersSchema = deleteUserSchema.omit({ userId: true });
+
+// Define models of the tool output
+export const userModel = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  role: z.enum(['admin', 'user', 'viewer']),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+  deletedAt: timestampSchema.nullable(),
+});
+
+const userListModel = z.object({ users: z.array(userModel), nextCursor: nextCursorSchema });
+
+// clear_all_users has no single target; it names the entity type it deletes instead
+const bulkDeletionResultSchema = deletionResultSchema
+  .omit({ target: true })
+  .extend({ entity: entityTypeSchema });
+
 // Infer TypeScript types from Zod schemas
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type GetUserInput = z.infer<typeof getUserSchema>;
+export type DeleteUserInput = z.infer<typeof deleteUserSchema>;
 
 export function registerUserTools(mcpServer: McpServer): void {
   mcpServer.registerTool(
     'create_user',
-    createToolConfig('Create a new user in the system', createUserSchema),
+    createToolConfig('Create a new user in the system', createUserSchema, userModel),
     async (args: unknown) => {
       // Parse and validate - result is type-safe after parsing
       const validated = validateInput(createUserSchema, args);
@@ -30,39 +82,94 @@ export function registerUserTools(mcpServer: McpServer): void {
         email: validated.email,
         role: validated.role,
       });
-      return createToolResponse(JSON.stringify(user, null, 2));
+      return createToolResponse({ structuredContent: user });
     }
   );
 
   mcpServer.registerTool(
     'get_user',
-    createToolConfig('Get user details by ID', getUserSchema),
+    createToolConfig('Get user details by ID', getUserSchema, userModel),
     async (args: unknown) => {
       // Parse and validate - result is type-safe after parsing
       const validated = validateInput(getUserSchema, args);
-      const user = db.getUser(validated.userId);
+      const at = validated.asOf ? new Date(validated.asOf) : undefined;
+      const user = at
+        ? db.getRecordAsOf('user', validated.userId, at)
+        : db.getUser(validated.userId);
       if (!user) {
-        return createToolResponse('User not found', true);
+        // Suggest records that existed at that time
+        return notFoundResponse('user', validated.userId, at && db.asOf(at));
       }
-      return createToolResponse(JSON.stringify(user, null, 2));
+      return createToolResponse({ structuredContent: user });
     }
   );
 
   mcpServer.registerTool(
     'list_users',
-    createToolConfig('List all users in the system'),
-    async () => {
+    createToolConfig('List all users in the system', paginationSchema, userListModel),
+    async (args: unknown) => {
+      const validated = validateInput(paginationSchema, args);
       const users = db.getAllUsers();
-      return createToolResponse(JSON.stringify(users, null, 2));
+      return createToolResponse({ structuredContent: listPage('users', users, validated) });
+    }
+  );
+
+  mcpServer.registerTool(
+    'delete_user',
+    createToolConfig(
+      'Delete a user, choosing what happens to their projects, tasks and comments',
+      deleteUserSchema,
+      deletionResultSchema
+    ),
+    async (args: unknown) => {
+      const { userId, dryRun, ...policies } = validateInput(deleteUserSchema, args);
+      // Filter out undefined values for exactOptionalPropertyTypes
+      const filteredPolicies: DeletePolicies = Object.fromEntries(
+        Object.entries(policies).filter(([, value]) => value !== undefined)
+      );
+      try {
+        const plan = db.planUserDeletion(userId, filteredPolicies);
+        if (!plan) {
+          return notFoundResponse('user', userId);
+        }
+        if (dryRun) {
+          return createToolResponse({ structuredContent: { dryRun: true, ...plan } });
+        }
+        db.deleteUser(userId, filteredPolicies);
+        return createToolResponse({
+          structuredContent: { success: true, message: 'User deleted', ...plan },
+        });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
     }
   );
 
   mcpServer.registerTool(
     'clear_all_users',
-    createToolConfig('Clear all users from the database (useful for testing)'),
-    async () => {
-      db.clearAllUsers();
-      return createToolResponse('All users cleared successfully');
+    createToolConfig(
+      'Delete every user, choosing what happens to their projects, tasks and comments (useful for testing)',
+      clearAllUsersSchema,
+      bulkDeletionResultSchema
+    ),
+    async (args: unknown) => {
+      const { dryRun, ...policies } = validateInput(clearAllUsersSchema, args);
+      // Filter out undefined values for exactOptionalPropertyTypes
+      const filteredPolicies: DeletePolicies = Object.fromEntries(
+        Object.entries(policies).filter(([, value]) => value !== undefined)
+      );
+      try {
+        const plan = db.planClearAllUsers(filteredPolicies);
+        if (dryRun) {
+          return createToolResponse({ structuredContent: { dryRun: true, ...plan } });
+        }
+        db.clearAllUsers(filteredPolicies);
+        return createToolResponse({
+          structuredContent: { success: true, message: 'All users cleared', ...plan },
+        });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
     }
   );
 }
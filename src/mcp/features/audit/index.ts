@@ -0,0 +1,6 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerAuditTools } from './tools.js';
+
+export function registerAudit(mcpServer: McpServer): void {
+  registerAuditTools(mcpServer);
+}
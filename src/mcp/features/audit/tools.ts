@@ -0,0 +1,120 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { db } from '../../../database.js';
+import type { AuditFilter } from '../../../types.js';
+import { listPage, nextCursorSchema, paginate, paginationSchema } from '../../pagination.js';
+import {
+  createToolConfig,
+  createToolResponse,
+  dateSchema,
+  entityRefSchema,
+  entityTypeSchema,
+  timestampSchema,
+  validateInput,
+} from '../../utils.js';
+
+// Define schemas for validation
+const auditFilterSchema = z
+  .object({
+    actor: z.string().optional().describe('Only calls made on behalf of this user ID'),
+    tool: z.string().optional().describe('Only calls of this tool'),
+    entity: entityTypeSchema.optional().describe('Only calls that changed records of this type'),
+    id: z.string().optional().describe('Only calls that changed this record (requires entity)'),
+    from: dateSchema.describe('Only calls made at or after this time (ISO string)'),
+    to: dateSchema.describe('Only calls made at or before this time (ISO string)'),
+  })
+  .merge(paginationSchema);
+
+// Define models of the tool output
+const auditEntryModel = z.object({
+  id: z.string(),
+  timestamp: timestampSchema,
+  sessionId: z.string(),
+  actor: z.string().nullable(),
+  tool: z.string(),
+  arguments: z.unknown(),
+  outcome: z.enum(['success', 'error']),
+  error: z.string().nullable(),
+  entities: z.array(entityRefSchema),
+});
+
+const auditLogModel = z.object({
+  entries: z.array(auditEntryModel),
+  nextCursor: nextCursorSchema,
+});
+
+// export_audit_log returns the page as JSON Lines, with the cursor of the next page
+const auditExportModel = z.object({
+  lines: z.string(),
+  nextCursor: nextCursorSchema,
+});
+
+// Infer TypeScript types from Zod schemas
+export type AuditFilterInput = z.infer<typeof auditFilterSchema>;
+
+export function registerAuditTools(mcpServer: McpServer): void {
+  mcpServer.registerTool(
+    'query_audit_log',
+    createToolConfig(
+      'Find recorded tool calls: who made them, with which arguments, when, and whether they succeeded',
+      auditFilterSchema,
+      auditLogModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(auditFilterSchema, args);
+      const filter = toFilter(validated);
+      if (!filter) {
+        return createToolResponse('entity is required when id is given', true);
+      }
+      return createToolResponse({
+        structuredContent: listPage('entries', db.getAuditLog(filter), validated),
+      });
+    }
+  );
+
+  mcpServer.registerTool(
+    'export_audit_log',
+    createToolConfig(
+      'Export recorded tool calls as JSON Lines, one entry per line, for review elsewhere',
+      auditFilterSchema,
+      auditExportModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(auditFilterSchema, args);
+      const filter = toFilter(validated);
+      if (!filter) {
+        return createToolResponse('entity is required when id is given', true);
+      }
+      const page = paginate(db.getAuditLog(filter), validated.cursor, validated.limit);
+      const lines = page.items.map(entry => JSON.stringify(entry)).join('\n');
+      // The text stays plain JSON Lines; the cursor is in the structured content
+      return createToolResponse({
+        structuredContent: {
+          lines,
+          ...(page.nextCursor !== undefined && { nextCursor: page.nextCursor }),
+        },
+        text: lines,
+      });
+    }
+  );
+}
+
+// Null when the arguments do not make a valid filter
+function toFilter({
+  id,
+  from,
+  to,
+  cursor: _cursor,
+  limit: _limit,
+  ...rest
+}: AuditFilterInput): AuditFilter | null {
+  if (id !== undefined && rest.entity === undefined) return null;
+  // Filter out undefined values for exactOptionalPropertyTypes
+  const filter: AuditFilter = Object.fromEntries(
+    Object.entries(rest).filter(([, value]) => value !== undefined)
+  );
+  if (id !== undefined) filter.entityId = id;
+  if (from !== undefined) filter.from = new Date(from);
+  if (to !== undefined) filter.to = new Date(to);
+  return filter;
+}
@@ -0,0 +1,6 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerHistoryTools } from './tools.js';
+
+export function registerHistory(mcpServer: McpServer): void {
+  registerHistoryTools(mcpServer);
+}
@@ -0,0 +1,44 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { db } from '../../../database.js';
+import { notFoundResponse } from '../../lookup.js';
+import {
+  createToolConfig,
+  createToolResponse,
+  entityTypeSchema,
+  validateInput,
+} from '../../utils.js';
+
+// Define schemas for validation
+const getEntityHistorySchema = z.object({
+  entity: entityTypeSchema.describe('Entity type of the record'),
+  id: z.string().describe('ID of the record'),
+  field: z
+    .string()
+    .optional()
+    .describe('Only return revisions that changed this field, e.g. "priority"'),
+});
+
+// Infer TypeScript types from Zod schemas
+export type GetEntityHistoryInput = z.infer<typeof getEntityHistorySchema>;
+
+export function registerHistoryTools(mcpServer: McpServer): void {
+  mcpServer.registerTool(
+    'get_entity_history',
+    createToolConfig(
+      'Get every recorded change to a record: who made it, when, and the fields before and after',
+      getEntityHistorySchema
+    ),
+    async (args: unknown) => {
+      const { entity, id, field } = validateInput(getEntityHistorySchema, args);
+      const history = db.getHistory(entity, id);
+      if (history.length === 0) {
+        return notFoundResponse(entity, id);
+      }
+      const revisions = field
+        ? history.filter(revision => revision.changes.some(change => change.field === field))
+        : history;
+      return createToolResponse(JSON.stringify(revisions, null, 2));
+    }
+  );
+}
@@ -0,0 +1,28 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolRegistry } from '../middleware/index.js';
+import type { Session } from '../session.js';
+import { registerAudit } from './audit/index.js';
+import { registerHistory } from './history/index.js';
+import { registerReporting } from './reporting/index.js';
+import { registerSearch } from './search/index.js';
+import { registerSubscriptions } from './subscriptions/index.js';
+import { registerTransaction } from './transaction/index.js';
+import { registerTrash } from './trash/index.js';
+import { registerUndo } from './undo/index.js';
+
+// Features that work across entities rather than belonging to one of them
+// Tools are the ones registered so far, which run_transaction can run as operations
+export function registerAllFeatures(
+  mcpServer: McpServer,
+  session: Session,
+  tools: ToolRegistry
+): void {
+  registerTransaction(mcpServer, tools);
+  registerTrash(mcpServer);
+  registerHistory(mcpServer);
+  registerUndo(mcpServer, session);
+  registerAudit(mcpServer);
+  registerSearch(mcpServer);
+  registerReporting(mcpServer);
+  registerSubscriptions(mcpServer, session);
+}
@@ -0,0 +1,8 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerReportingPrompts } from './prompts.js';
+import { registerReportingTools } from './tools.js';
+
+export function registerReporting(mcpServer: McpServer): void {
+  registerReportingTools(mcpServer);
+  registerReportingPrompts(mcpServer);
+}
@@ -0,0 +1,92 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { z } from 'zod';
+import { db } from '../../../database.js';
+import { InvalidRangeError } from '../../../errors.js';
+import { burndownChart } from '../../../reporting.js';
+import type { Burndown } from '../../../types.js';
+import { completeId, notFoundSentence } from '../../lookup.js';
+import { createPromptMessage, schema, validateInput } from '../../utils.js';
+
+// Define schemas for prompt arguments
+const projectBurndownPromptSchema = z.object({
+  projectId: completable(
+    z.string().describe('Project ID to chart the burndown of'),
+    completeId('project')
+  ),
+  sprintId: completable(
+    z.string().optional().describe('Only chart this sprint of the project (optional)'),
+    value => completeId('sprint')(value ?? '')
+  ),
+});
+
+export function registerReportingPrompts(mcpServer: McpServer): void {
+  mcpServer.registerPrompt(
+    'project_burndown',
+    {
+      description:
+        'Chart the burndown of a project, or of one of its sprints, with its daily counts and velocity',
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      argsSchema: schema(projectBurndownPromptSchema),
+    },
+    async (args: unknown) => {
+      const validated = validateInput(projectBurndownPromptSchema, args);
+      const project = db.getProject(validated.projectId);
+
+      if (!project) {
+        return createPromptMessage('user', notFoundSentence('project', validated.projectId));
+      }
+
+      let title = `${project.name} (${project.id})`;
+      let burndown: Burndown | null;
+      try {
+        if (validated.sprintId) {
+          const sprint = db.getSprint(validated.sprintId);
+          if (!sprint) {
+            return createPromptMessage('user', notFoundSentence('sprint', validated.sprintId));
+          }
+          if (sprint.projectId !== project.id) {
+            return createPromptMessage(
+              'user',
+              `Sprint "${sprint.id}" belongs to project "${sprint.projectId}", not "${project.id}".`
+            );
+          }
+          title = `${sprint.name} (${sprint.id}) of ${title}`;
+          burndown = db.getSprintBurndown(sprint.id);
+        } else {
+          burndown = db.getProjectBurndown(project.id);
+        }
+      } catch (error) {
+        if (error instanceof InvalidRangeError) {
+          return createPromptMessage('user', `${error.message}.`);
+        }
+        throw error;
+      }
+
+      const points = burndown?.points ?? [];
+      const dailyCounts =
+        points
+          .map(
+            point => `- ${point.date}: ${point.remaining} remaining, ${point.completed} completed`
+          )
+          .join('\n') || 'None';
+      const velocity = db.getVelocity(project.id);
+      const velocityLine =
+        velocity && velocity.iterations.length > 0
+          ? `${velocity.average} task(s) per sprint over the last ${velocity.iterations.length} closed sprint(s)`
+          : 'no closed sprints yet';
+
+      return createPromptMessage(
+        'user',
+        `Burndown of ${title}:
+
+${burndownChart(points)}
+
+Daily counts:
+${dailyCounts}
+
+Velocity: ${velocityLine}`
+      );
+    }
+  );
+}
@@ -0,0 +1,137 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { db } from '../../../database.js';
+import type { DateRange } from '../../../types.js';
+import { notFoundResponse } from '../../lookup.js';
+import {
+  createErrorResponse,
+  createToolConfig,
+  createToolResponse,
+  dateSchema,
+  timestampSchema,
+  validateInput,
+} from '../../utils.js';
+
+// Define schemas for validation
+const getProjectBurndownSchema = z.object({
+  projectId: z.string().describe('Project ID'),
+  from: dateSchema.describe('First day of the report (ISO string, optional, default 13 days ago)'),
+  to: dateSchema.describe('Last day of the report (ISO string, optional, default today)'),
+});
+
+const getSprintBurndownSchema = z.object({
+  sprintId: z.string().describe('Sprint ID'),
+  from: dateSchema.describe('First day of the report (ISO string, optional, default its start)'),
+  to: dateSchema.describe('Last day of the report (ISO string, optional, default its end)'),
+});
+
+const getVelocitySchema = z.object({
+  projectId: z.string().describe('Project ID'),
+  iterations: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Number of most recently closed sprints to include (optional, default 3)'),
+});
+
+// Define models of the tool output
+const burndownModel = z.object({
+  projectId: z.string(),
+  sprintId: z.string().nullable(),
+  points: z.array(
+    z.object({
+      date: z.string(),
+      remaining: z.number(),
+      completed: z.number(),
+    })
+  ),
+});
+
+const velocityModel = z.object({
+  projectId: z.string(),
+  iterations: z.array(
+    z.object({
+      sprintId: z.string(),
+      name: z.string(),
+      closedAt: timestampSchema,
+      completed: z.number(),
+    })
+  ),
+  average: z.number(),
+});
+
+// Build the date range of a report from its optional ISO strings
+function reportRange(from: string | undefined, to: string | undefined): DateRange {
+  return {
+    ...(from !== undefined && { from: new Date(from) }),
+    ...(to !== undefined && { to: new Date(to) }),
+  };
+}
+
+export function registerReportingTools(mcpServer: McpServer): void {
+  mcpServer.registerTool(
+    'get_project_burndown',
+    createToolConfig(
+      'Get the remaining and completed tasks of a project at the end of each day of a range',
+      getProjectBurndownSchema,
+      burndownModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(getProjectBurndownSchema, args);
+      try {
+        const burndown = db.getProjectBurndown(
+          validated.projectId,
+          reportRange(validated.from, validated.to)
+        );
+        if (!burndown) {
+          return notFoundResponse('project', validated.projectId);
+        }
+        return createToolResponse({ structuredContent: burndown });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    'get_sprint_burndown',
+    createToolConfig(
+      'Get the remaining and completed tasks of a sprint at the end of each of its days',
+      getSprintBurndownSchema,
+      burndownModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(getSprintBurndownSchema, args);
+      try {
+        const burndown = db.getSprintBurndown(
+          validated.sprintId,
+          reportRange(validated.from, validated.to)
+        );
+        if (!burndown) {
+          return notFoundResponse('sprint', validated.sprintId);
+        }
+        return createToolResponse({ structuredContent: burndown });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    'get_velocity',
+    createToolConfig(
+      'Get the tasks completed in each of the last closed sprints of a project and their average',
+      getVelocitySchema,
+      velocityModel
+    ),
+    async (args: unknown) => {
+      const validated = validateInput(getVelocitySchema, args);
+      const velocity = db.getVelocity(validated.projectId, validated.iterations);
+      if (!velocity) {
+        return notFoundResponse('project', validated.projectId);
+      }
+      return createToolResponse({ structuredContent: velocity });
+    }
+  );
+}
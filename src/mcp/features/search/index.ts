@@ -0,0 +1,6 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerSearchTools } from './tools.js';
+
+export function registerSearch(mcpServer: McpServer): void {
+  registerSearchTools(mcpServer);
+}
@@ -0,0 +1,35 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { db } from '../../../database.js';
+import { listPage, paginationSchema } from '../../pagination.js';
+import { createToolConfig, createToolResponse, validateInput } from '../../utils.js';
+
+// Define schemas for validation
+const searchSchema = z
+  .object({
+    query: z.string().min(1).describe('Words to look for; "closing" also finds "closed"'),
+    entities: z
+      .array(z.enum(['task', 'comment', 'project']))
+      .min(1)
+      .optional()
+      .describe('Only search these entity types (default: tasks, comments and projects)'),
+  })
+  .merge(paginationSchema);
+
+// Infer TypeScript types from Zod schemas
+export type SearchInput = z.infer<typeof searchSchema>;
+
+export function registerSearchTools(mcpServer: McpServer): void {
+  mcpServer.registerTool(
+    'search',
+    createToolConfig(
+      'Full-text search across tasks, comments and projects. Returns the records containing any word of the query, most relevant first, each with a snippet where matches are in **bold**',
+      searchSchema
+    ),
+    async (args: unknown) => {
+      const { query, entities, ...paging } = validateInput(searchSchema, args);
+      const results = db.search(query, entities);
+      return createToolResponse({ structuredContent: listPage('results', results, paging) });
+    }
+  );
+}
@@ -0,0 +1,26 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Session } from '../../session.js';
+import { notifyResourceChanges } from './notifications.js';
+
+export function registerSubscriptions(mcpServer: McpServer, session: Session): void {
+  mcpServer.server.setRequestHandler(SubscribeRequestSchema, request => {
+    session.subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  mcpServer.server.setRequestHandler(UnsubscribeRequestSchema, request => {
+    session.subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const stopNotifications = notifyResourceChanges(mcpServer, session);
+  // The database outlives the session when several clients share it
+  mcpServer.server.onclose = () => {
+    stopNotifications();
+    session.subscriptions.clear();
+  };
+}
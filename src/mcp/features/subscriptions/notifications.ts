@@ -0,0 +1,53 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { db } from '../../../database.js';
+import type { EntityType, Revision } from '../../../types.js';
+import type { Session } from '../../session.js';
+
+// Resources showing the records of each entity type: the list of all of them,
+// and those showing a single record
+const ENTITY_RESOURCES: Record<EntityType, { list: string; record: (id: string) => string[] }> = {
+  user: { list: 'user-manager://users', record: id => [`user-manager://users/${id}`] },
+  project: {
+    list: 'project-manager://projects',
+    record: id => [`project-manager://projects/${id}`],
+  },
+  task: {
+    list: 'task-manager://tasks',
+    record: id => [`task-manager://tasks/${id}`, `task-manager://tasks/${id}/history`],
+  },
+  tag: { list: 'tag-manager://tags', record: id => [`tag-manager://tags/${id}`] },
+  comment: {
+    list: 'comment-manager://comments',
+    record: id => [`comment-manager://comments/${id}`],
+  },
+  sprint: {
+    list: 'sprint-manager://sprints',
+    record: id => [`sprint-manager://sprints/${id}`],
+  },
+};
+
+// Tell the client about every stored change: which subscribed resources now read
+// differently, and whether records were added to or removed from the lists
+// Returns a function that stops the notifications
+export function notifyResourceChanges(mcpServer: McpServer, session: Session): () => void {
+  return db.onChange(revisions => {
+    const uris = new Set(revisions.flatMap(affectedResources));
+    session.subscriptions.forEach(uri => {
+      // A page of a list, such as task-manager://tasks?cursor=..., changes with the list
+      const [resource = uri] = uri.split('?');
+      if (!uris.has(resource)) return;
+      mcpServer.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+        mcpServer.server.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      });
+    });
+    // Deletes, restores and purges change the lists just like creates
+    if (revisions.some(revision => revision.operation !== 'update')) {
+      mcpServer.sendResourceListChanged();
+    }
+  });
+}
+
+function affectedResources(revision: Revision): string[] {
+  const resources = ENTITY_RESOURCES[revision.entity];
+  return [resources.list, ...resources.record(revision.entityId)];
+}
@@ -0,0 +1,7 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolRegistry } from '../../middleware/index.js';
+import { registerTransactionTools } from './tools.js';
+
+export function registerTransaction(mcpServer: McpServer, tools: ToolRegistry): void {
+  registerTransactionTools(mcpServer, tools);
+}
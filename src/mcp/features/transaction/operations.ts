@@ -0,0 +1,104 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { ToolRegistry } from '../../middleware/index.js';
+
+// Tools a transaction can run: those that create, update or delete records
+export const OPERATION_NAMES = [
+  'create_user',
+  'delete_user',
+  'create_project',
+  'update_project',
+  'delete_project',
+  'create_task',
+  'update_task',
+  'delete_task',
+  'create_tag',
+  'update_tag',
+  'delete_tag',
+  'create_comment',
+  'update_comment',
+  'delete_comment',
+  'create_sprint',
+  'update_sprint',
+  'delete_sprint',
+  'close_sprint',
+] as const;
+
+export type OperationName = (typeof OPERATION_NAMES)[number];
+
+// Run the registered tool with the request context of the call running the transaction
+// Arguments and structured results are checked against the tool's schemas, as the SDK
+// does for tools called by the client, so each operation behaves like the tool on its own
+export async function callTool(
+  tools: ToolRegistry,
+  name: OperationName,
+  args: unknown,
+  extra: unknown
+): Promise<CallToolResult> {
+  const tool = tools.get(name);
+  if (!tool) {
+    throw new Error(`Tool ${name} is not registered`);
+  }
+  if (!tool.inputSchema) {
+    return tool.handler(extra);
+  }
+  const input = z.object(tool.inputSchema).safeParse(args);
+  if (!input.success) {
+    throw new Error(`Invalid arguments for tool ${name}: ${input.error.message}`);
+  }
+  const result = await tool.handler(input.data, extra);
+  if (tool.outputSchema && !result.isError) {
+    const output = z.object(tool.outputSchema).safeParse(result.structuredContent);
+    if (!output.success) {
+      throw new Error(`Invalid structured content for tool ${name}: ${output.error.message}`);
+    }
+  }
+  return result;
+}
+
+export function resultText(result: CallToolResult): string {
+  const text = result.content.flatMap(item => (item.type === 'text' ? [item.text] : []));
+  return text.join('\n');
+}
+
+// An argument of the form { "ref": "$<index>.<field>" } stands for that field of the
+// result of an earlier operation, e.g. { "ref": "$0.id" } for the ID of a record created first
+// Other values, strings included, are passed on as they are
+const REFERENCE = /^\$(\d+)\.(\w+)$/;
+
+export function resolveReferences(
+  value: unknown,
+  results: readonly Record<string, unknown>[]
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => resolveReferences(item, results));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  const entries = Object.entries(value);
+  const [only] = entries;
+  if (entries.length === 1 && only?.[0] === 'ref') {
+    return resolveReference(only[1], results);
+  }
+  return Object.fromEntries(entries.map(([key, item]) => [key, resolveReferences(item, results)]));
+}
+
+function resolveReference(
+  reference: unknown,
+  results: readonly Record<string, unknown>[]
+): unknown {
+  const match = typeof reference === 'string' ? REFERENCE.exec(reference) : null;
+  if (!match) {
+    throw new Error(`Invalid reference ${JSON.stringify(reference)}, expected "$<index>.<field>"`);
+  }
+  const [, index = '', field = ''] = match;
+  if (Number(index) >= results.length) {
+    throw new Error(`$${index}.${field} refers to operation ${index}, which has not run yet`);
+  }
+  const result = results[Number(index)] ?? {};
+  if (result[field] === undefined) {
+    throw new Error(`$${index}.${field} refers to a field that operation ${index} did not return`);
+  }
+  return result[field];
+}
@@ -0,0 +1,84 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { db, runInTransaction } from '../../../database.js';
+import type { ToolRegistry } from '../../middleware/index.js';
+import { createToolConfig, createToolResponse, validateInput } from '../../utils.js';
+import { callTool, OPERATION_NAMES, resolveReferences, resultText } from './operations.js';
+
+// Define schemas for validation
+const runTransactionSchema = z.object({
+  operations: z
+    .array(
+      z.object({
+        tool: z.enum(OPERATION_NAMES).describe('Tool to run'),
+        arguments: z
+          .record(z.unknown())
+          .describe(
+            'Tool arguments; an object { "ref": "$<index>.<field>" } is replaced by that field of an earlier result, e.g. { "ref": "$0.id" }'
+          ),
+      })
+    )
+    .min(1)
+    .describe('Operations to run, in order'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('Run the operations and report their results, then roll everything back'),
+});
+
+// Infer TypeScript types from Zod schemas
+export type RunTransactionInput = z.infer<typeof runTransactionSchema>;
+
+export function registerTransactionTools(mcpServer: McpServer, tools: ToolRegistry): void {
+  mcpServer.registerTool(
+    'run_transaction',
+    createToolConfig(
+      'Run several create, update and delete operations atomically: either all of them are applied or none is',
+      runTransactionSchema
+    ),
+    async (args: unknown, extra: unknown) => {
+      const validated = validateInput(runTransactionSchema, args);
+      const transaction = db.beginTransaction();
+      const results: Record<string, unknown>[] = [];
+
+      for (const [index, operation] of validated.operations.entries()) {
+        let failure: string | null = null;
+        try {
+          const resolved = resolveReferences(operation.arguments, results);
+          // The tool runs as it would on its own, except that `db` is the working copy:
+          // its audit entry is left there and the transaction is audited and undone as a whole
+          const result = await runInTransaction(transaction, () =>
+            callTool(tools, operation.tool, resolved, extra)
+          );
+          if (result.isError) {
+            failure = resultText(result);
+          } else {
+            results.push(result.structuredContent ?? {});
+          }
+        } catch (error) {
+          failure = error instanceof Error ? error.message : String(error);
+        }
+        if (failure !== null) {
+          transaction.rollback();
+          return createToolResponse(
+            `Transaction rolled back: operation ${index} (${operation.tool}) failed: ${failure}`,
+            true
+          );
+        }
+      }
+
+      if (validated.dryRun) {
+        transaction.rollback();
+        return createToolResponse(JSON.stringify({ dryRun: true, results }, null, 2));
+      }
+
+      try {
+        transaction.commit();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return createToolResponse(`Transaction rolled back: ${message}`, true);
+      }
+      return createToolResponse(JSON.stringify({ committed: true, results }, null, 2));
+    }
+  );
+}
@@ -0,0 +1,6 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerTrashTools } from './tools.js';
+
+export function registerTrash(mcpServer: McpServer): void {
+  registerTrashTools(mcpServer);
+}
@@ -0,0 +1,138 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { db } from '../../../database.js';
+import type { TrashScope } from '../../../types.js';
+import { listPage, paginationSchema } from '../../pagination.js';
+import {
+  createErrorResponse,
+  createToolConfig,
+  createToolResponse,
+  ENTITY_LABELS,
+  entityTypeSchema,
+  validateInput,
+} from '../../utils.js';
+
+// Define schemas for validation
+const listTrashSchema = z
+  .object({
+    entity: entityTypeSchema.optional().describe('Only list records of this entity type'),
+  })
+  .merge(paginationSchema);
+
+const restoreEntitySchema = z.object({
+  entity: entityTypeSchema.describe('Entity type of the record to restore'),
+  id: z.string().describe('ID of the record to restore'),
+});
+
+const purgeTrashSchema = z.object({
+  entity: entityTypeSchema.optional().describe('Only purge records of this entity type'),
+  id: z.string().optional().describe('Only purge this record (requires entity)'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('List what would be permanently deleted without deleting anything'),
+});
+
+// Infer TypeScript types from Zod schemas
+export type ListTrashInput = z.infer<typeof listTrashSchema>;
+export type RestoreEntityInput = z.infer<typeof restoreEntitySchema>;
+export type PurgeTrashInput = z.infer<typeof purgeTrashSchema>;
+
+export function registerTrashTools(mcpServer: McpServer): void {
+  mcpServer.registerTool(
+    'list_trash',
+    createToolConfig('List deleted records that can still be restored', listTrashSchema),
+    async (args: unknown) => {
+      const validated = validateInput(listTrashSchema, args);
+      const trash = db.getTrash(validated.entity);
+      return createToolResponse({ structuredContent: listPage('trash', trash, validated) });
+    }
+  );
+
+  mcpServer.registerTool(
+    'restore_entity',
+    createToolConfig(
+      'Restore a deleted record together with everything deleted along with it, such as the comments of a task',
+      restoreEntitySchema
+    ),
+    async (args: unknown) => {
+      const { entity, id } = validateInput(restoreEntitySchema, args);
+      try {
+        const restored = db.restoreFromTrash(entity, id);
+        if (!restored) {
+          return createToolResponse(`${ENTITY_LABELS[entity]} not found in trash`, true);
+        }
+        return createToolResponse(
+          JSON.stringify(
+            { success: true, message: `${ENTITY_LABELS[entity]} restored`, restored },
+            null,
+            2
+          )
+        );
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    'purge_trash',
+    createToolConfig(
+      'Permanently delete records from the trash: one record, one entity type or everything',
+      purgeTrashSchema
+    ),
+    async (args: unknown) => {
+      const { entity, id, dryRun } = validateInput(purgeTrashSchema, args);
+      let scope: TrashScope;
+      if (id !== undefined) {
+        if (!entity) {
+          return createToolResponse('entity is required when id is given', true);
+        }
+        scope = { entity, id };
+      } else {
+        scope = entity ? { entity } : {};
+      }
+
+      const purged = db.planTrashPurge(scope);
+      if (!purged) {
+        return createToolResponse('Record not found in trash', true);
+      }
+      if (dryRun) {
+        return createToolResponse(JSON.stringify({ dryRun: true, purged }, null, 2));
+      }
+      if (purged.length === 0) {
+        return createToolResponse(
+          JSON.stringify({ success: true, message: 'Nothing to purge', purged }, null, 2)
+        );
+      }
+
+      // Request user confirmation before deleting for good
+      const result = await mcpServer.server.elicitInput({
+        message: `Are you sure you want to permanently delete ${purged.length} record(s) from the trash? This action cannot be undone.`,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: {
+              type: 'boolean',
+              title: 'Confirm purge',
+              description: 'Check this box to confirm you want to permanently delete these records',
+            },
+          },
+          required: ['confirm'],
+        },
+      });
+
+      if (result.action === 'accept' && result.content?.confirm === true) {
+        db.purgeTrash(scope);
+        return createToolResponse(
+          JSON.stringify({ success: true, message: 'Trash purged', purged }, null, 2)
+        );
+      }
+
+      // User declined or cancelled the purge
+      const message = result.action === 'decline' ? 'Purge declined by user' : 'Purge cancelled';
+
+      return createToolResponse(JSON.stringify({ success: false, message }, null, 2));
+    }
+  );
+}
@@ -0,0 +1,7 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Session } from '../../session.js';
+import { registerUndoTools } from './tools.js';
+
+export function registerUndo(mcpServer: McpServer, session: Session): void {
+  registerUndoTools(mcpServer, session);
+}
@@ -0,0 +1,60 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { db } from '../../../database.js';
+import type { Revision } from '../../../types.js';
+import type { Session } from '../../session.js';
+import { createErrorResponse, createToolConfig, createToolResponse } from '../../utils.js';
+
+export function registerUndoTools(mcpServer: McpServer, session: Session): void {
+  mcpServer.registerTool(
+    'undo_last_change',
+    createToolConfig(
+      'Undo the most recent change made by a tool in this session, including everything a delete cascaded to'
+    ),
+    async () => {
+      let changed: Revision[] = [];
+      try {
+        const undone = session.undo.undo(revisions => (changed = db.revert(revisions)));
+        if (!undone) {
+          return createToolResponse('Nothing to undo', true);
+        }
+        return createToolResponse(
+          JSON.stringify(
+            { success: true, message: `Undid ${undone.toolName}`, changes: summarize(changed) },
+            null,
+            2
+          )
+        );
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    'redo_change',
+    createToolConfig('Redo the change most recently undone in this session'),
+    async () => {
+      let changed: Revision[] = [];
+      try {
+        const redone = session.undo.redo(revisions => (changed = db.revert(revisions)));
+        if (!redone) {
+          return createToolResponse('Nothing to redo', true);
+        }
+        return createToolResponse(
+          JSON.stringify(
+            { success: true, message: `Redid ${redone.toolName}`, changes: summarize(changed) },
+            null,
+            2
+          )
+        );
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+}
+
+// The records a revert touched, without their full before and after states
+function summarize(revisions: readonly Revision[]) {
+  return revisions.map(({ entity, entityId, operation }) => ({ entity, id: entityId, operation }));
+}
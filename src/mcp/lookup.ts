@@ -0,0 +1,48 @@
+import { db } from '../database.js';
+import type { InMemoryDatabase } from '../database.js';
+import { didYouMean } from '../fuzzy.js';
+import type { EntityType, Suggestion } from '../types.js';
+import { createToolResponse, ENTITY_LABELS } from './utils.js';
+
+// Number of similar records suggested when a lookup finds nothing
+const SUGGESTION_COUNT = 3;
+
+// "Task not found", followed by the records whose ID or name is close to the one asked for
+export function notFoundMessage(
+  entity: EntityType,
+  value: string,
+  source: InMemoryDatabase = db
+): string {
+  return `${ENTITY_LABELS[entity]} not found${didYouMean(suggestSimilar(entity, value, source))}`;
+}
+
+// The same for a prompt: 'Task with ID "x" not found.', or with the suggestions instead of the period
+export function notFoundSentence(entity: EntityType, value: string): string {
+  const suggestions = didYouMean(suggestSimilar(entity, value));
+  return `${ENTITY_LABELS[entity]} with ID "${value}" not found${suggestions || '.'}`;
+}
+
+export function notFoundResponse(
+  entity: EntityType,
+  value: string,
+  source: InMemoryDatabase = db
+): ReturnType<typeof createToolResponse> {
+  return createToolResponse(notFoundMessage(entity, value, source), true);
+}
+
+// Records to offer as "did you mean" when a lookup finds nothing; none for a blank value,
+// which every record would match as a prefix
+export function suggestSimilar(
+  entity: EntityType,
+  value: string,
+  source: InMemoryDatabase = db
+): Suggestion[] {
+  if (value.trim() === '') return [];
+  return source.findSimilar(entity, value, SUGGESTION_COUNT);
+}
+
+// Completion callback for a record ID argument of a prompt or resource template:
+// IDs of the records the typed value is close to, best match first
+export function completeId(entity: EntityType): (value: string) => string[] {
+  return value => db.findSimilar(entity, value).map(suggestion => suggestion.id);
+}
@@ -0,0 +1,48 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { db } from '../../database.js';
+import type { EntityRef, Revision } from '../../types.js';
+import { isReadOnlyTool } from './authorization.js';
+import type { ToolCall, ToolMiddleware } from './index.js';
+
+// Record every tool call that can change data in the audit log, whether it succeeds or fails
+// Read-only calls are left out: each entry is a write to storage
+export const recordAuditLog: ToolMiddleware = async (call, next) => {
+  if (isReadOnlyTool(call.name)) {
+    return next();
+  }
+  let result: CallToolResult;
+  try {
+    result = await next();
+  } catch (error) {
+    audit(call, error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+  audit(call, result.isError ? errorText(result) : null);
+  return result;
+};
+
+function audit(call: ToolCall, error: string | null): void {
+  db.recordAudit({
+    sessionId: call.session.id,
+    actor: call.session.actor,
+    tool: call.name,
+    arguments: call.args ?? null,
+    outcome: error === null ? 'success' : 'error',
+    error,
+    entities: changedRecords(call.changes),
+  });
+}
+
+// Each record touched by the revisions, once
+function changedRecords(revisions: readonly Revision[]): EntityRef[] {
+  const refs = new Map<string, EntityRef>();
+  revisions.forEach(({ entity, entityId }) => {
+    refs.set(`${entity}:${entityId}`, { entity, id: entityId });
+  });
+  return Array.from(refs.values());
+}
+
+function errorText(result: CallToolResult): string {
+  const text = result.content.flatMap(item => (item.type === 'text' ? [item.text] : []));
+  return text.join('\n');
+}
@@ -0,0 +1,134 @@
+import { db } from '../../database.js';
+import type { User } from '../../types.js';
+import { createToolResponse } from '../utils.js';
+import type { ToolMiddleware } from './index.js';
+
+// What the acting user needs to be allowed to call a tool
+// - read: anyone
+// - write: users and admins
+// - project: admins, and users who belong to the project the change is made in;
+//   the function finds that project from the arguments, or returns undefined when
+//   the record does not exist, leaving the tool to report it
+// - admin: admins only
+type ToolAccess =
+  | { kind: 'read' }
+  | { kind: 'write' }
+  | { kind: 'project'; project: (args: Record<string, unknown>) => string | undefined }
+  | { kind: 'admin' };
+
+const READ: ToolAccess = { kind: 'read' };
+const WRITE: ToolAccess = { kind: 'write' };
+
+const taskProject = (taskId: unknown) =>
+  typeof taskId === 'string' ? db.getTask(taskId)?.projectId : undefined;
+
+const commentProject = (commentId: unknown) =>
+  typeof commentId === 'string' ? taskProject(db.getComment(commentId)?.taskId) : undefined;
+
+const sprintProject = (sprintId: unknown) =>
+  typeof sprintId === 'string' ? db.getSprint(sprintId)?.projectId : undefined;
+
+// Tools missing from this table are reserved for admins
+const TOOL_ACCESS: Record<string, ToolAccess> = {
+  get_user: READ,
+  list_users: READ,
+  get_project: READ,
+  list_projects: READ,
+  get_projects_by_owner: READ,
+  get_task: READ,
+  list_tasks: READ,
+  get_tasks_by_project: READ,
+  get_tasks_by_assignee: READ,
+  get_tasks_by_status: READ,
+  get_tasks_by_tag: READ,
+  get_subtasks: READ,
+  get_task_subtree: READ,
+  get_task_progress: READ,
+  get_blocked_tasks: READ,
+  get_critical_path: READ,
+  search_tasks: READ,
+  get_tag: READ,
+  list_tags: READ,
+  get_comment: READ,
+  get_comments_by_task: READ,
+  get_comments_by_user: READ,
+  get_sprint: READ,
+  list_sprints: READ,
+  get_sprint_tasks: READ,
+  list_trash: READ,
+  search: READ,
+  get_entity_history: READ,
+  get_project_burndown: READ,
+  get_sprint_burndown: READ,
+  get_velocity: READ,
+
+  create_task: {
+    kind: 'project',
+    project: args => (typeof args.projectId === 'string' ? args.projectId : undefined),
+  },
+  update_task: { kind: 'project', project: args => taskProject(args.taskId) },
+  delete_task: { kind: 'project', project: args => taskProject(args.taskId) },
+  create_comment: { kind: 'project', project: args => taskProject(args.taskId) },
+  update_comment: { kind: 'project', project: args => commentProject(args.commentId) },
+  delete_comment: { kind: 'project', project: args => commentProject(args.commentId) },
+  create_sprint: {
+    kind: 'project',
+    project: args => (typeof args.projectId === 'string' ? args.projectId : undefined),
+  },
+  update_sprint: { kind: 'project', project: args => sprintProject(args.sprintId) },
+  delete_sprint: { kind: 'project', project: args => sprintProject(args.sprintId) },
+  add_tasks_to_sprint: { kind: 'project', project: args => sprintProject(args.sprintId) },
+  remove_tasks_from_sprint: { kind: 'project', project: args => sprintProject(args.sprintId) },
+  close_sprint: { kind: 'project', project: args => sprintProject(args.sprintId) },
+
+  // The undo stack only holds changes the session was allowed to make
+  undo_last_change: WRITE,
+  redo_change: WRITE,
+  // Each operation is authorized as a call of its own tool
+  run_transaction: WRITE,
+};
+
+// Whether anyone may call the tool because it only reads data
+export function isReadOnlyTool(name: string): boolean {
+  return TOOL_ACCESS[name]?.kind === 'read';
+}
+
+// Check each call against the role of the session's acting user
+// Sessions without an acting user may only read, unless the server was started unrestricted
+export const authorizeToolCall: ToolMiddleware = async (call, next) => {
+  const access = TOOL_ACCESS[call.name] ?? { kind: 'admin' };
+  if (call.session.actor === null) {
+    if (call.session.unrestricted || access.kind === 'read') {
+      return next();
+    }
+    return denied(`anonymous sessions cannot call ${call.name}`);
+  }
+  const user = db.getUser(call.session.actor);
+  if (!user) {
+    return denied(`unknown user "${call.session.actor}"`);
+  }
+  const args = (call.args ?? {}) as Record<string, unknown>;
+  if (!isAllowed(user, access, args)) {
+    return denied(`${user.role} "${user.id}" cannot call ${call.name}`);
+  }
+  return next();
+};
+
+function isAllowed(user: User, access: ToolAccess, args: Record<string, unknown>): boolean {
+  if (user.role === 'admin' || access.kind === 'read') return true;
+  if (user.role === 'viewer') return false;
+  switch (access.kind) {
+    case 'write':
+      return true;
+    case 'project': {
+      const projectId = access.project(args);
+      return projectId === undefined || db.isProjectMember(projectId, user.id);
+    }
+    case 'admin':
+      return false;
+  }
+}
+
+function denied(reason: string) {
+  return createToolResponse(`Permission denied: ${reason}`, true);
+}
@@ -0,0 +1,6 @@
+import { db } from '../../database.js';
+import type { ToolMiddleware } from './index.js';
+
+// Run each call on behalf of the session's acting user, so the database
+// attributes the changes it makes to them
+export const actAsSessionUser: ToolMiddleware = (call, next) => db.runAs(call.session.actor, next);
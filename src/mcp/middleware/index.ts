@@ -0,0 +1,91 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ZodRawShape } from 'zod';
+import { db } from '../../database.js';
+import type { Revision } from '../../types.js';
+import type { Session } from '../session.js';
+import { recordAuditLog } from './audit.js';
+import { authorizeToolCall } from './authorization.js';
+import { actAsSessionUser } from './identity.js';
+import { recordUndoHistory } from './undo.js';
+
+// A tool call as seen by middleware
+export interface ToolCall {
+  name: string;
+  // Undefined for tools without an input schema
+  args: unknown;
+  session: Session;
+  // Revisions stored by the call so far; complete once the tool has returned
+  changes: Revision[];
+}
+
+// Runs around every tool call; `next` runs the rest of the chain and then the tool itself
+export type ToolMiddleware = (
+  call: ToolCall,
+  next: () => Promise<CallToolResult>
+) => Promise<CallToolResult>;
+
+export type ToolHandler = (...params: unknown[]) => CallToolResult | Promise<CallToolResult>;
+
+// A tool as registered on a server, with its handler wrapped in the middleware chain
+export interface RegisteredToolHandler {
+  handler: ToolHandler;
+  inputSchema: ZodRawShape | undefined;
+  outputSchema: ZodRawShape | undefined;
+}
+
+// Tools registered on a server, by name
+export type ToolRegistry = ReadonlyMap<string, RegisteredToolHandler>;
+
+// Middleware applied to the tools of every session, outermost first
+const TOOL_MIDDLEWARE: ToolMiddleware[] = [
+  recordAuditLog,
+  authorizeToolCall,
+  recordUndoHistory,
+  actAsSessionUser,
+];
+
+// Changes of the tool call running in the current async context
+const callChanges = new AsyncLocalStorage<Revision[]>();
+
+db.onChange(revisions => {
+  callChanges.getStore()?.push(...revisions);
+});
+
+// Wrap every tool registered from now on in the middleware chain
+// Must be called before any tools are registered; the registry it returns fills up as they are
+export function applyToolMiddleware(
+  mcpServer: McpServer,
+  session: Session,
+  middleware: readonly ToolMiddleware[] = TOOL_MIDDLEWARE
+): ToolRegistry {
+  const registerTool = mcpServer.registerTool.bind(mcpServer);
+  const tools = new Map<string, RegisteredToolHandler>();
+  const wrap =
+    (name: string, hasInput: boolean, handler: ToolHandler): ToolHandler =>
+    (...params) => {
+      // The SDK passes (args, extra) to tools with an input schema and (extra) to the rest
+      const call: ToolCall = {
+        name,
+        args: hasInput ? params[0] : undefined,
+        session,
+        changes: [],
+      };
+      const run = async (index: number): Promise<CallToolResult> => {
+        const current = middleware[index];
+        return current ? current(call, () => run(index + 1)) : handler(...params);
+      };
+      return callChanges.run(call.changes, () => run(0));
+    };
+  mcpServer.registerTool = ((name, config, handler) => {
+    const wrapped = wrap(name, config.inputSchema !== undefined, handler as ToolHandler);
+    tools.set(name, {
+      handler: wrapped,
+      inputSchema: config.inputSchema,
+      outputSchema: config.outputSchema,
+    });
+    return registerTool(name, config, wrapped as typeof handler);
+  }) as typeof mcpServer.registerTool;
+  return tools;
+}
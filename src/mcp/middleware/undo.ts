@@ -0,0 +1,13 @@
+import type { ToolMiddleware } from './index.js';
+
+// Tools that move changes between the undo and redo stacks themselves
+const UNDO_TOOLS = new Set(['undo_last_change', 'redo_change']);
+
+// Record the changes each tool call makes, so the session can undo them later
+export const recordUndoHistory: ToolMiddleware = async (call, next) => {
+  const result = await next();
+  if (!UNDO_TOOLS.has(call.name) && call.changes.length > 0) {
+    call.session.undo.record({ toolName: call.name, revisions: call.changes });
+  }
+  return result;
+};
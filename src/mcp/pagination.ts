@@ -0,0 +1,228 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type {
+  ListResourcesCallback,
+  McpServer,
+  RegisteredResource,
+  RegisteredResourceTemplate,
+  ResourceMetadata,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  ListResourcesRequest,
+  ListResourcesResult,
+  Resource,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+// Number of records in a page when the client does not ask for a size, and the largest it may ask for
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+// One page of a list, with the cursor of the next page when there is one
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+// Cursors are opaque to clients: the position of the next page, encoded as base64url JSON
+function encodeCursor(position: Record<string, number>): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+// Position a cursor points at, or undefined when it was not issued by this server
+function decodeCursor<K extends string>(
+  cursor: string,
+  fields: readonly K[]
+): Record<K, number> | undefined {
+  let position: unknown;
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    return undefined;
+  }
+  if (typeof position !== 'object' || position === null) return undefined;
+  const values = position as Record<string, unknown>;
+  const valid = fields.every(field => {
+    const value = values[field];
+    return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+  });
+  return valid ? (values as Record<K, number>) : undefined;
+}
+
+function decodeOffset(cursor: string): number | undefined {
+  return decodeCursor(cursor, ['offset'])?.offset;
+}
+
+// Schema for the paging arguments of a list tool
+export const paginationSchema = z.object({
+  cursor: z
+    .string()
+    .refine(cursor => decodeOffset(cursor) !== undefined, 'Invalid cursor')
+    .optional()
+    .describe('Cursor returned as nextCursor by the previous page (optional)'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .optional()
+    .describe(
+      `Maximum number of records to return (default ${String(DEFAULT_PAGE_SIZE)}, at most ${String(MAX_PAGE_SIZE)})`
+    ),
+});
+
+// Schema for the cursor of the next page in list tool output
+export const nextCursorSchema = z.string().optional();
+
+// The page of items starting at the cursor; a cursor that does not decode starts from the top
+export function paginate<T>(
+  items: readonly T[],
+  cursor?: string,
+  limit: number = DEFAULT_PAGE_SIZE
+): Page<T> {
+  const offset = cursor === undefined ? 0 : (decodeOffset(cursor) ?? 0);
+  const end = offset + limit;
+  return {
+    items: items.slice(offset, end),
+    ...(end < items.length && { nextCursor: encodeCursor({ offset: end }) }),
+  };
+}
+
+// Structured result of a list tool: the page keyed by what it lists, e.g. { tasks, nextCursor }
+export function listPage(
+  key: string,
+  items: readonly unknown[],
+  paging: z.infer<typeof paginationSchema>
+): Record<string, unknown> {
+  const page = paginate(items, paging.cursor, paging.limit);
+  return {
+    [key]: page.items,
+    ...(page.nextCursor !== undefined && { nextCursor: page.nextCursor }),
+  };
+}
+
+// Page a resources/list request asks a resource template for, set while its list callback runs
+const listRequest = new AsyncLocalStorage<{ cursor?: string; limit: number }>();
+
+// List callback for a resource template that lists one resource per record, a page at a time
+export function pagedResourceList<T>(
+  records: () => readonly T[],
+  toResource: (record: T) => Resource
+): ListResourcesCallback {
+  return () => {
+    const request = listRequest.getStore();
+    return toResourceList(paginate(records(), request?.cursor, request?.limit), toResource);
+  };
+}
+
+function toResourceList<T>(
+  page: Page<T>,
+  toResource: (record: T) => Resource
+): ListResourcesResult {
+  return {
+    resources: page.items.map(toResource),
+    ...(page.nextCursor !== undefined && { nextCursor: page.nextCursor }),
+  };
+}
+
+type RegisterResource = (
+  name: string,
+  uriOrTemplate: string | ResourceTemplate,
+  metadata: ResourceMetadata,
+  readCallback: unknown
+) => RegisteredResource | RegisteredResourceTemplate;
+
+type ResourceSource = (page: { cursor: string; limit: number }) => Promise<ListResourcesResult>;
+
+// Serve resources/list a page at a time, instead of the SDK's handler that lists every
+// resource in one response
+// Fixed resources come first, then what each resource template lists, in registration order
+// The cursor records which of those the next page starts in and the offset within it
+// Must be called before any resources are registered, as it lists the ones registered from now on
+export function paginateResourceList(mcpServer: McpServer): void {
+  const fixed: Array<{ uri: string; resource: RegisteredResource }> = [];
+  const templates: RegisteredResourceTemplate[] = [];
+  let handling = false;
+
+  const registerResource = mcpServer.registerResource.bind(mcpServer) as RegisterResource;
+  const register: RegisterResource = (name, uriOrTemplate, metadata, readCallback) => {
+    const registered = registerResource(name, uriOrTemplate, metadata, readCallback);
+    if (typeof uriOrTemplate === 'string') {
+      fixed.push({ uri: uriOrTemplate, resource: registered as RegisteredResource });
+    } else {
+      templates.push(registered as RegisteredResourceTemplate);
+    }
+    // The SDK installs its own handler along with the first resource; this one replaces it
+    if (!handling) {
+      mcpServer.server.setRequestHandler(ListResourcesRequestSchema, listResources);
+      handling = true;
+    }
+    return registered;
+  };
+  mcpServer.registerResource = register as typeof mcpServer.registerResource;
+
+  const listResources = async (
+    request: ListResourcesRequest,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): Promise<ListResourcesResult> => {
+    const cursor = request.params?.cursor;
+    const position =
+      cursor === undefined ? { source: 0, offset: 0 } : decodeCursor(cursor, ['source', 'offset']);
+    if (!position) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor');
+    }
+
+    const listed = fixed
+      .filter(({ resource }) => resource.enabled)
+      .map(({ uri, resource }) => ({ uri, name: resource.name, ...resource.metadata }));
+    const sources: ResourceSource[] = [
+      async page => toResourceList(paginate(listed, page.cursor, page.limit), resource => resource),
+      ...templates
+        .filter(template => template.enabled)
+        .flatMap(template => {
+          const list = template.resourceTemplate.listCallback;
+          if (!list) return [];
+          const source: ResourceSource = async page => {
+            const result = await listRequest.run(page, () => list(extra));
+            // Metadata given when registering applies unless the listed resource overrides it
+            const resources = result.resources.map(resource => ({
+              ...template.metadata,
+              ...resource,
+            }));
+            return { ...result, resources };
+          };
+          return [source];
+        }),
+    ];
+
+    const resources: Resource[] = [];
+    let { source, offset } = position;
+    while (source < sources.length && resources.length < DEFAULT_PAGE_SIZE) {
+      const page = {
+        cursor: encodeCursor({ offset }),
+        limit: DEFAULT_PAGE_SIZE - resources.length,
+      };
+      const result = await sources[source]?.(page);
+      resources.push(...(result?.resources ?? []));
+      if (result?.nextCursor !== undefined) {
+        offset = decodeOffset(result.nextCursor) ?? 0;
+        break;
+      }
+      source++;
+      offset = 0;
+    }
+
+    return {
+      resources,
+      ...(source < sources.length && { nextCursor: encodeCursor({ source, offset }) }),
+    };
+  };
+}
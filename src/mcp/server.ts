@@ -1,7 +1,17 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { loadSessionConfig } from '../config.js';
 import { registerAllEntities } from './entities/index.js';
+import { registerAllFeatures } from './features/index.js';
+import { applyToolMiddleware } from './middleware/index.js';
+import { paginateResourceList } from './pagination.js';
+import { bindClientActor, createSession } from './session.js';
 
-export function createServer(): McpServer {
+// actor binds the session to a user; without one the session is anonymous
+// clientActor lets the client name its user when it connects; only clients trusted with any
+// identity, such as the local process on the other end of stdio, should be allowed to
+export function createServer(
+  options: { actor?: string | null; clientActor?: boolean } = {}
+): McpServer {
   const mcpServer = new McpServer(
     {
       name: 'user-manager-mcp-server',
@@ -10,19 +20,38 @@ export function createServer(): McpServer {
     {
       capabilities: {
         tools: {},
-        resources: {},
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
         prompts: {},
         elicitation: {},
       },
     }
   );
 
+  // Each server instance serves one client, so it gets its own session
+  const config = loadSessionConfig();
+  const session = createSession(options.actor ?? null, config.unrestricted);
+  const tools = applyToolMiddleware(mcpServer, session);
+  if (options.clientActor) {
+    mcpServer.server.oninitialized = () => {
+      bindClientActor(session, mcpServer.server.getClientCapabilities());
+    };
+  }
+
+  // Pages resources/list over the resources registered below
+  paginateResourceList(mcpServer);
+
   // Register all entities (tools, resources, prompts)
   // The SDK automatically handles completion/complete for:
   // - Resources: via ResourceTemplate.complete callbacks
   // - Prompts: via completable() helper in argsSchema
   registerAllEntities(mcpServer);
 
+  // Register features that span several entities
+  registerAllFeatures(mcpServer, session, tools);
+
   // Error handling
   mcpServer.server.onerror = error => {
     // Log errors to stderr (won't interfere with JSON-RPC on stdout)
@@ -0,0 +1,83 @@
+import type { ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'crypto';
+import type { Revision } from '../types.js';
+
+// Number of tool calls a session can undo
+export const UNDO_LIMIT = 100;
+
+// Changes made by one tool call, as kept in the undo history
+export interface ChangeSet {
+  toolName: string;
+  revisions: Revision[];
+}
+
+// Undo and redo stacks of one session
+export class UndoHistory {
+  private readonly undoStack: ChangeSet[] = [];
+  private readonly redoStack: ChangeSet[] = [];
+
+  constructor(private readonly limit = UNDO_LIMIT) {}
+
+  // A new change starts a new branch, so whatever could be redone is forgotten
+  record(changes: ChangeSet): void {
+    this.undoStack.push(changes);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack.length = 0;
+  }
+
+  // Revert the latest change; what the revert recorded becomes redoable
+  // An entry whose revert fails is dropped, since it could never succeed later
+  undo(revert: (revisions: Revision[]) => Revision[]): ChangeSet | undefined {
+    const changes = this.undoStack.pop();
+    if (!changes) return undefined;
+    this.redoStack.push({ toolName: changes.toolName, revisions: revert(changes.revisions) });
+    return changes;
+  }
+
+  // Revert the latest undo; what the revert recorded becomes undoable again
+  redo(revert: (revisions: Revision[]) => Revision[]): ChangeSet | undefined {
+    const changes = this.redoStack.pop();
+    if (!changes) return undefined;
+    this.undoStack.push({ toolName: changes.toolName, revisions: revert(changes.revisions) });
+    return changes;
+  }
+}
+
+// State kept for one connected client
+export interface Session {
+  readonly id: string;
+  // ID of the user the session acts for, when known
+  actor: string | null;
+  // Whether the session may call every tool while it has no acting user
+  readonly unrestricted: boolean;
+  readonly undo: UndoHistory;
+  // URIs of the resources the client subscribed to
+  readonly subscriptions: Set<string>;
+}
+
+export function createSession(actor: string | null = null, unrestricted = false): Session {
+  return {
+    id: randomUUID(),
+    actor,
+    unrestricted,
+    undo: new UndoHistory(),
+    subscriptions: new Set(),
+  };
+}
+
+// Bind a session to the user its client names when connecting, through the
+// experimental capability { "taskManager": { "userId": "user-2" } }
+// A session the server already bound to a user keeps that user
+// Network clients are not bound this way, as any of them could claim to be an admin
+export function bindClientActor(
+  session: Session,
+  capabilities: ClientCapabilities | undefined
+): void {
+  const userId = (capabilities?.experimental?.taskManager as { userId?: unknown } | undefined)
+    ?.userId;
+  if (session.actor === null && typeof userId === 'string') {
+    session.actor = userId;
+  }
+}
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import type { ZodRawShape } from 'zod';
+import { DatabaseError } from '../errors.js';
 
 // Helper to work around type issues with ZodRawShape
 // The MCP SDK expects ZodRawShape but we have ZodObject, so we need this conversion
@@ -12,14 +13,17 @@ export const schema = <T extends ZodRawShape>(s: z.ZodObject<T>): any => {
 
 // Helper to create tool config with properly typed inputSchema
 // This encapsulates the type conversion needed for MCP SDK compatibility
-export function createToolConfig<T extends ZodRawShape>(
+export function createToolConfig<T extends ZodRawShape, O extends ZodRawShape>(
   description: string,
-  inputSchema?: z.ZodObject<T>
+  inputSchema?: z.ZodObject<T>,
+  outputSchema?: z.ZodObject<O>
 ) {
   const config: {
     description: string;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     inputSchema?: any;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    outputSchema?: any;
   } = {
     description,
   };
@@ -35,12 +39,81 @@ export function createToolConfig<T extends ZodRawShape>(
     }
   }
 
+  // The SDK checks the structuredContent of every successful result against it
+  if (outputSchema) {
+    config.outputSchema = outputSchema.shape;
+  }
+
   return config;
 }
 
+// Schema for how records referencing a deleted entity are handled
+// Used by the delete tools for each relationship they expose
+export const referencePolicySchema = z
+  .discriminatedUnion('action', [
+    z.object({ action: z.literal('restrict') }),
+    z.object({ action: z.literal('cascade') }),
+    z.object({ action: z.literal('set-null') }),
+    z.object({ action: z.literal('reassign-to'), targetId: z.string() }),
+  ])
+  .optional();
+
+// Schema for the entity type of a record, used by tools that work across entities
+export const entityTypeSchema = z.enum(['user', 'project', 'task', 'tag', 'comment', 'sprint']);
+
+// Labels used in messages about a record of each entity type
+export const ENTITY_LABELS: Record<z.infer<typeof entityTypeSchema>, string> = {
+  user: 'User',
+  project: 'Project',
+  task: 'Task',
+  tag: 'Tag',
+  comment: 'Comment',
+  sprint: 'Sprint',
+};
+
+// Schema for a timestamp in tool output, which carries dates as ISO strings
+export const timestampSchema = z.string().datetime();
+
+// Schema for a reference to a record of any entity type
+export const entityRefSchema = z.object({ entity: entityTypeSchema, id: z.string() });
+
+// Schema for the result of a delete tool: the deletion plan, with dryRun set when nothing
+// was deleted, or success and a message once the delete went through
+export const deletionResultSchema = z.object({
+  dryRun: z.boolean().optional(),
+  success: z.boolean().optional(),
+  message: z.string().optional(),
+  target: entityRefSchema,
+  deleted: z.array(entityRefSchema),
+  updated: z.array(
+    entityRefSchema.extend({
+      field: z.string(),
+      from: z.union([z.string(), z.array(z.string())]).nullable(),
+      to: z.union([z.string(), z.array(z.string())]).nullable(),
+    })
+  ),
+  blockedBy: z.array(entityRefSchema.extend({ relationship: z.string() })),
+});
+
+// Schema for the result of a tool that reports what it did in a message
+export const messageResultSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+// Schema for an optional date argument given as an ISO string
+export const dateSchema = z
+  .string()
+  .refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date')
+  .optional();
+
+// Schema for the point in time of an "as of" read
+// Tools read the record with db.getRecordAsOf() instead of from db when it is given
+export const asOfSchema = dateSchema;
+
 // Helper function to safely parse and validate input
 // After the success check, result.data is guaranteed to be type T
-export function validateInput<T>(schema: z.ZodType<T>, input: unknown): T {
+export function validateInput<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown): T {
   const result = schema.safeParse(input);
   if (!result.success) {
     throw new Error(`Validation failed: ${result.error.message}`);
@@ -73,22 +146,51 @@ export function createPromptMessage(
   };
 }
 
+// Result of a tool with an outputSchema: structuredContent is checked against the schema
+// and text, which defaults to structuredContent, is what goes into the text content
+export interface StructuredResult {
+  structuredContent: object;
+  text?: unknown;
+}
+
 // Helper function to create tool responses
 // Simplifies the creation of tool response content
+// A structured result is sent both as structuredContent and as pretty-printed JSON text
 export function createToolResponse(
-  text: string,
+  result: string | StructuredResult,
   isError = false
 ): {
   content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 } {
+  if (typeof result === 'string') {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: result,
+        },
+      ],
+      ...(isError && { isError: true }),
+    };
+  }
+  const text = result.text ?? result.structuredContent;
   return {
-    content: [
-      {
-        type: 'text' as const,
-        text,
-      },
-    ],
-    ...(isError && { isError: true }),
+    ...createToolResponse(typeof text === 'string' ? text : JSON.stringify(text, null, 2), isError),
+    // Round-trip through JSON so dates become the ISO strings the text shows
+    structuredContent: JSON.parse(JSON.stringify(result.structuredContent)) as Record<
+      string,
+      unknown
+    >,
   };
 }
+
+// Helper function to turn database errors into tool error responses
+// Errors that do not come from the database layer are rethrown
+export function createErrorResponse(error: unknown): ReturnType<typeof createToolResponse> {
+  if (error instanceof DatabaseError) {
+    return createToolResponse(error.message, true);
+  }
+  throw error;
+}
@@ -0,0 +1,59 @@
+import type { BurndownPoint } from './types.js';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a report covers by default when no range is given
+export const DEFAULT_REPORT_DAYS = 14;
+
+// Most days a single report may cover
+export const MAX_REPORT_DAYS = 366;
+
+// Each day (UTC) from the day of `from` through the day of `to`, up to today, with the moment
+// its counts are taken: the end of the day, or now for today
+export function reportDays(
+  from: Date,
+  to: Date,
+  now: Date = new Date()
+): Array<{ date: string; at: Date }> {
+  const days: Array<{ date: string; at: Date }> = [];
+  const first = Math.floor(from.getTime() / DAY_MS) * DAY_MS;
+  const last = Math.min(to.getTime(), now.getTime());
+  for (let start = first; start <= last; start += DAY_MS) {
+    const at = Math.min(start + DAY_MS - 1, now.getTime());
+    days.push({ date: new Date(start).toISOString().slice(0, 10), at: new Date(at) });
+  }
+  return days;
+}
+
+// Number of days (UTC) from the day of `from` through the day of `to`
+export function dayCount(from: Date, to: Date): number {
+  return Math.floor(to.getTime() / DAY_MS) - Math.floor(from.getTime() / DAY_MS) + 1;
+}
+
+// Burndown as a text chart with a column per day: # up to the remaining tasks, o at the
+// number of completed ones, scaled down to at most `height` rows
+export function burndownChart(points: readonly BurndownPoint[], height = 10): string {
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last) return 'No days to chart.';
+
+  const max = Math.max(1, ...points.flatMap(point => [point.remaining, point.completed]));
+  const rows = Math.min(height, max);
+  const scale = (value: number) => Math.round((value / max) * rows);
+  const labelWidth = String(max).length;
+  const lines: string[] = [];
+  for (let row = rows; row >= 1; row--) {
+    const label = row === rows ? String(max) : '';
+    const cells = points
+      .map(point => {
+        if (scale(point.completed) === row) return 'o';
+        return scale(point.remaining) >= row ? '#' : ' ';
+      })
+      .join('');
+    lines.push(`${label.padStart(labelWidth)} |${cells}`);
+  }
+  lines.push(`${'0'.padStart(labelWidth)} +${'-'.repeat(points.length)}`);
+  lines.push(`${' '.repeat(labelWidth)}  ${first.date} to ${last.date}`);
+  lines.push('# remaining, o completed');
+  return lines.join('\n');
+}
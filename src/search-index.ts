@@ -0,0 +1,212 @@
+import type { SearchableEntity, SearchResult } from './types.js';
+
+// A text field of an indexed record; words in boosted fields count several times
+export interface IndexedField {
+  name: string;
+  text: string;
+  boost: number;
+}
+
+interface IndexedDocument {
+  entity: SearchableEntity;
+  id: string;
+  fields: IndexedField[];
+  // Distinct terms of the fields, so the document can be removed from just their postings
+  terms: string[];
+  // Sum of the boosted term frequencies, the document length BM25 normalizes by
+  length: number;
+}
+
+// BM25 parameters: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Words in a snippet before the first match, and in the whole snippet
+const SNIPPET_LEAD = 8;
+const SNIPPET_WORDS = 24;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+const STOP_WORDS: ReadonlySet<string> = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'with',
+]);
+
+// Suffixes stripped by the stemmer and what replaces them, tried in order
+const SUFFIXES: ReadonlyArray<[string, string]> = [
+  ['ational', 'ate'],
+  ['ization', 'ize'],
+  ['ation', 'ate'],
+  ['ies', 'y'],
+  ['ing', ''],
+  ['ed', ''],
+  ['ly', ''],
+  ['es', ''],
+  ['s', ''],
+];
+
+// A light suffix-stripping stemmer in the spirit of Porter's, so that "closing",
+// "closed", "closes" and "close" all index as the same term
+export function stem(word: string): string {
+  let stemmed = word;
+  const rule = SUFFIXES.find(
+    ([suffix]) => word.endsWith(suffix) && !word.endsWith('ss') && word.length - suffix.length >= 3
+  );
+  if (rule) stemmed = word.slice(0, -rule[0].length) + rule[1];
+  if (stemmed.length > 3 && stemmed.endsWith('e')) stemmed = stemmed.slice(0, -1);
+  // running -> runn -> run
+  const last = stemmed.charAt(stemmed.length - 1);
+  if (
+    stemmed.length > 3 &&
+    last === stemmed.charAt(stemmed.length - 2) &&
+    /[^aeiouylsz]/.test(last)
+  ) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  return stemmed;
+}
+
+// Index terms of a text, in order, with the span of the word each came from
+export function tokenize(text: string): Array<{ term: string; start: number; end: number }> {
+  return Array.from(text.matchAll(WORD))
+    .map(match => ({
+      word: match[0].toLowerCase(),
+      start: match.index,
+      end: match.index + match[0].length,
+    }))
+    .filter(({ word }) => !STOP_WORDS.has(word))
+    .map(({ word, start, end }) => ({ term: stem(word), start, end }));
+}
+
+// Inverted index over the text fields of records, ranking matches with BM25
+// Records are added, replaced and removed one at a time as they change
+export class SearchIndex {
+  // Term -> document key -> boosted frequency of the term in the document
+  private readonly postings = new Map<string, Map<string, number>>();
+  private readonly documents = new Map<string, IndexedDocument>();
+  private totalLength = 0;
+
+  // Index a record, replacing what was indexed for it before
+  put(entity: SearchableEntity, id: string, fields: IndexedField[]): void {
+    this.remove(entity, id);
+    const key = `${entity}:${id}`;
+    const frequencies = new Map<string, number>();
+    fields.forEach(field => {
+      tokenize(field.text).forEach(({ term }) => {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + field.boost);
+      });
+    });
+    let length = 0;
+    frequencies.forEach((frequency, term) => {
+      const posting = this.postings.get(term) ?? new Map<string, number>();
+      posting.set(key, frequency);
+      this.postings.set(term, posting);
+      length += frequency;
+    });
+    this.documents.set(key, { entity, id, fields, terms: Array.from(frequencies.keys()), length });
+    this.totalLength += length;
+  }
+
+  remove(entity: SearchableEntity, id: string): void {
+    const key = `${entity}:${id}`;
+    const document = this.documents.get(key);
+    if (!document) return;
+    this.documents.delete(key);
+    this.totalLength -= document.length;
+    document.terms.forEach(term => {
+      const posting = this.postings.get(term);
+      if (posting?.delete(key) && posting.size === 0) this.postings.delete(term);
+    });
+  }
+
+  // Records containing any of the query terms, best match first
+  search(query: string, entities?: readonly SearchableEntity[]): SearchResult[] {
+    const terms = new Set(tokenize(query).map(({ term }) => term));
+    const count = this.documents.size;
+    if (terms.size === 0 || count === 0) return [];
+    const averageLength = this.totalLength / count;
+
+    const scores = new Map<string, number>();
+    terms.forEach(term => {
+      const posting = this.postings.get(term);
+      if (!posting) return;
+      const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+      posting.forEach((frequency, key) => {
+        const length = this.documents.get(key)?.length ?? 0;
+        const saturation =
+          (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * length) / averageLength));
+        scores.set(key, (scores.get(key) ?? 0) + idf * saturation);
+      });
+    });
+
+    return Array.from(scores.entries())
+      .flatMap(([key, score]) => {
+        const document = this.documents.get(key);
+        if (!document || (entities && !entities.includes(document.entity))) return [];
+        return [{ document, score }];
+      })
+      .sort((a, b) => b.score - a.score)
+      .map(({ document, score }) => ({
+        entity: document.entity,
+        id: document.id,
+        score: Math.round(score * 1000) / 1000,
+        ...snippet(document.fields, terms),
+      }));
+  }
+}
+
+// An excerpt of the field with the most matches, around its first match, with matches in bold
+function snippet(
+  fields: readonly IndexedField[],
+  terms: ReadonlySet<string>
+): {
+  field: string;
+  snippet: string;
+} {
+  const candidates = fields.map(field => {
+    const tokens = tokenize(field.text);
+    const matches = tokens.filter(token => terms.has(token.term)).length;
+    return { field, tokens, matches };
+  });
+  const best = candidates.reduce((a, b) =>
+    b.matches * b.field.boost > a.matches * a.field.boost ? b : a
+  );
+  const { field, tokens } = best;
+  const first = tokens.findIndex(token => terms.has(token.term));
+  const from = Math.max(0, first - SNIPPET_LEAD);
+  const shown = tokens.slice(from, from + SNIPPET_WORDS);
+  const [head] = shown;
+  if (!head) return { field: field.name, snippet: field.text };
+
+  let text = '';
+  let position = head.start;
+  shown.forEach(token => {
+    text += field.text.slice(position, token.start);
+    const word = field.text.slice(token.start, token.end);
+    text += terms.has(token.term) ? `**${word}**` : word;
+    position = token.end;
+  });
+  const before = from > 0 ? '…' : '';
+  const after = from + SNIPPET_WORDS < tokens.length ? '…' : '';
+  return { field: field.name, snippet: `${before}${text}${after}` };
+}
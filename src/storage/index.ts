@@ -0,0 +1,37 @@
+import type { StorageConfig } from '../config.js';
+import { JsonFileStorage } from './json-file.js';
+import { MemoryStorage } from './memory.js';
+import { SqliteStorage } from './sqlite.js';
+import type { StorageBackend } from './types.js';
+
+export type {
+  Collection,
+  EntityOf,
+  Mutation,
+  StorageBackend,
+  StorageKind,
+  StoredCollection,
+  StoredData,
+} from './types.js';
+export { COLLECTIONS } from './types.js';
+export { JsonFileStorage } from './json-file.js';
+export type { JsonFileStorageOptions, RecoveryResult } from './json-file.js';
+export { Journal } from './journal.js';
+export type { JournalEntry } from './journal.js';
+export { MemoryStorage } from './memory.js';
+export { SnapshotStorage } from './snapshot.js';
+export { SqliteStorage } from './sqlite.js';
+
+// Create the storage backend selected by configuration
+export function createStorage(config: StorageConfig): StorageBackend {
+  switch (config.backend) {
+    case 'memory':
+      return new MemoryStorage();
+    case 'json':
+      return new JsonFileStorage(config.path, {
+        compactThreshold: config.journalCompactThreshold,
+      });
+    case 'sqlite':
+      return new SqliteStorage(config.path);
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  ftruncateSync,
+  openSync,
+  readFileSync,
+  truncateSync,
+  writeSync,
+} from 'fs';
+import { deserialize, serialize } from './serialization.js';
+import type { StoredCollection, EntityOf, Mutation } from './types.js';
+
+// One line of the journal file
+// Mutations of a transaction are only applied on replay once its commit entry is present
+export type JournalEntry =
+  | {
+      txn: number;
+      op: 'create' | 'update';
+      collection: StoredCollection;
+      id: string;
+      record: EntityOf<StoredCollection>;
+    }
+  | { txn: number; op: 'delete'; collection: StoredCollection; id: string }
+  | { txn: number; op: 'clear'; collection: StoredCollection }
+  | { txn: number; op: 'commit' };
+
+export interface ReplayResult {
+  // Committed transactions, in the order they were written
+  transactions: Array<{ txn: number; mutations: Mutation[] }>;
+  // Number of transactions without a commit entry, which are rolled back
+  discarded: number;
+}
+
+// Append-only journal of mutations, stored as JSON Lines next to the snapshot
+// Every transaction is appended as its mutations followed by a commit entry and
+// flushed to disk before the write is acknowledged
+export class Journal {
+  private fd: number;
+  private entryCount: number;
+
+  constructor(private readonly path: string) {
+    const { entries, validBytes, totalBytes } = this.read();
+    // Cut off a torn tail left by an interrupted append so new entries start on a clean line
+    if (validBytes < totalBytes) {
+      truncateSync(path, validBytes);
+    }
+    this.entryCount = entries.length;
+    this.fd = openSync(path, 'a');
+  }
+
+  // Number of entries currently in the journal, used to decide when to compact
+  get size(): number {
+    return this.entryCount;
+  }
+
+  append(entries: JournalEntry[]): void {
+    if (entries.length === 0) return;
+    writeSync(this.fd, entries.map(entry => `${serialize(entry)}\n`).join(''));
+    fsyncSync(this.fd);
+    this.entryCount += entries.length;
+  }
+
+  // Read back every committed transaction newer than afterTxn
+  replay(afterTxn: number): ReplayResult {
+    const open = new Map<number, Mutation[]>();
+    const transactions: ReplayResult['transactions'] = [];
+
+    this.read().entries.forEach(entry => {
+      if (entry.txn <= afterTxn) return;
+
+      if (entry.op === 'commit') {
+        transactions.push({ txn: entry.txn, mutations: open.get(entry.txn) ?? [] });
+        open.delete(entry.txn);
+        return;
+      }
+
+      const mutations = open.get(entry.txn) ?? [];
+      mutations.push(toMutation(entry));
+      open.set(entry.txn, mutations);
+    });
+
+    return { transactions, discarded: open.size };
+  }
+
+  // Drop all entries once they are covered by a snapshot
+  truncate(): void {
+    ftruncateSync(this.fd, 0);
+    fsyncSync(this.fd);
+    this.entryCount = 0;
+  }
+
+  close(): void {
+    closeSync(this.fd);
+  }
+
+  private read(): { entries: JournalEntry[]; validBytes: number; totalBytes: number } {
+    if (!existsSync(this.path)) {
+      return { entries: [], validBytes: 0, totalBytes: 0 };
+    }
+
+    const contents = readFileSync(this.path, 'utf8');
+    const entries: JournalEntry[] = [];
+    let validBytes = 0;
+    for (const line of contents.split('\n')) {
+      if (line.trim()) {
+        try {
+          entries.push(deserialize(line) as JournalEntry);
+        } catch {
+          // A torn line can only be the tail of an interrupted append
+          break;
+        }
+      }
+      validBytes += Buffer.byteLength(line) + 1;
+    }
+    const totalBytes = Buffer.byteLength(contents);
+    return { entries, validBytes: Math.min(validBytes, totalBytes), totalBytes };
+  }
+}
+
+function toMutation(entry: Exclude<JournalEntry, { op: 'commit' }>): Mutation {
+  switch (entry.op) {
+    case 'create':
+    case 'update':
+      return { type: 'put', collection: entry.collection, record: entry.record };
+    case 'delete':
+      return { type: 'delete', collection: entry.collection, id: entry.id };
+    case 'clear':
+      return { type: 'clear', collection: entry.collection };
+  }
+}
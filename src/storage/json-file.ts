@@ -0,0 +1,187 @@
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  writeSync,
+} from 'fs';
+import { dirname } from 'path';
+import { Journal } from './journal.js';
+import type { JournalEntry } from './journal.js';
+import { deserialize, emptyStoredData, serialize } from './serialization.js';
+import type { StoredCollection, EntityOf, Mutation, StorageBackend, StoredData } from './types.js';
+import { COLLECTIONS } from './types.js';
+
+type CollectionState = Record<StoredCollection, Map<string, EntityOf<StoredCollection>>>;
+
+// Snapshot file contents: the data plus the last journal transaction it includes
+interface Snapshot {
+  lastTxn: number;
+  data: StoredData;
+}
+
+export interface JsonFileStorageOptions {
+  // Compact the journal into the snapshot once it holds this many entries
+  compactThreshold?: number;
+}
+
+export interface RecoveryResult {
+  // Committed transactions replayed from the journal on startup
+  replayed: number;
+  // Interrupted transactions rolled back on startup
+  discarded: number;
+}
+
+export const DEFAULT_COMPACT_THRESHOLD = 500;
+
+// Stores the database as a JSON snapshot plus an append-only journal of mutations
+// Writes only append to the journal; on startup the journal is replayed on top of
+// the snapshot and compacted into a new one. A crash in the middle of a
+// multi-step operation leaves an uncommitted transaction, which replay discards
+export class JsonFileStorage implements StorageBackend {
+  readonly kind = 'json';
+  readonly recovery: RecoveryResult;
+  private state: CollectionState;
+  private lastTxn: number;
+  private readonly journal: Journal;
+  private readonly compactThreshold: number;
+  // Whether neither a snapshot nor a committed transaction existed on startup
+  private readonly isNew: boolean;
+
+  constructor(
+    private readonly path: string,
+    options: JsonFileStorageOptions = {}
+  ) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.compactThreshold = options.compactThreshold ?? DEFAULT_COMPACT_THRESHOLD;
+
+    const snapshot = this.readSnapshot();
+    this.state = toState(snapshot.data);
+    this.lastTxn = snapshot.lastTxn;
+
+    this.journal = new Journal(`${path}.journal`);
+    const { transactions, discarded } = this.journal.replay(this.lastTxn);
+    transactions.forEach(({ txn, mutations }) => {
+      mutations.forEach(mutation => {
+        applyMutation(this.state, mutation);
+      });
+      this.lastTxn = txn;
+    });
+    this.recovery = { replayed: transactions.length, discarded };
+    this.isNew = !existsSync(path) && transactions.length === 0;
+
+    if (this.journal.size > 0) {
+      this.compact();
+    }
+  }
+
+  load(): StoredData | null {
+    return this.isNew ? null : toStoredData(this.state);
+  }
+
+  write(mutations: Mutation[]): void {
+    if (mutations.length === 0) return;
+
+    const txn = this.lastTxn + 1;
+    const entries: JournalEntry[] = mutations.map(mutation => this.toJournalEntry(txn, mutation));
+    entries.push({ txn, op: 'commit' });
+    this.journal.append(entries);
+
+    mutations.forEach(mutation => {
+      applyMutation(this.state, mutation);
+    });
+    this.lastTxn = txn;
+
+    if (this.journal.size >= this.compactThreshold) {
+      this.compact();
+    }
+  }
+
+  close(): void {
+    if (this.journal.size > 0) {
+      this.compact();
+    }
+    this.journal.close();
+  }
+
+  // Write the current state as a new snapshot and drop the journal entries it covers
+  // The snapshot records the last transaction it includes, so a crash between the
+  // rename and the truncation does not replay those transactions twice
+  compact(): void {
+    const snapshot: Snapshot = { lastTxn: this.lastTxn, data: toStoredData(this.state) };
+    const tempPath = `${this.path}.tmp`;
+    const fd = openSync(tempPath, 'w');
+    try {
+      writeSync(fd, serialize(snapshot));
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tempPath, this.path);
+    this.journal.truncate();
+  }
+
+  private toJournalEntry(txn: number, mutation: Mutation): JournalEntry {
+    switch (mutation.type) {
+      case 'put': {
+        const exists = this.state[mutation.collection].has(mutation.record.id);
+        return {
+          txn,
+          op: exists ? 'update' : 'create',
+          collection: mutation.collection,
+          id: mutation.record.id,
+          record: mutation.record,
+        };
+      }
+      case 'delete':
+        return { txn, op: 'delete', collection: mutation.collection, id: mutation.id };
+      case 'clear':
+        return { txn, op: 'clear', collection: mutation.collection };
+    }
+  }
+
+  private readSnapshot(): Snapshot {
+    if (!existsSync(this.path)) {
+      return { lastTxn: 0, data: emptyStoredData() };
+    }
+
+    const parsed = deserialize(readFileSync(this.path, 'utf8')) as Snapshot | Partial<StoredData>;
+    // Snapshots written before the journal existed hold the bare data
+    if ('data' in parsed) {
+      return { lastTxn: parsed.lastTxn, data: { ...emptyStoredData(), ...parsed.data } };
+    }
+    return { lastTxn: 0, data: { ...emptyStoredData(), ...parsed } };
+  }
+}
+
+function toState(data: StoredData): CollectionState {
+  return Object.fromEntries(
+    COLLECTIONS.map(collection => [
+      collection,
+      new Map(data[collection].map(record => [record.id, record])),
+    ])
+  ) as CollectionState;
+}
+
+function toStoredData(state: CollectionState): StoredData {
+  return Object.fromEntries(
+    COLLECTIONS.map(collection => [collection, Array.from(state[collection].values())])
+  ) as StoredData;
+}
+
+function applyMutation(state: CollectionState, mutation: Mutation): void {
+  switch (mutation.type) {
+    case 'put':
+      state[mutation.collection].set(mutation.record.id, mutation.record);
+      break;
+    case 'delete':
+      state[mutation.collection].delete(mutation.id);
+      break;
+    case 'clear':
+      state[mutation.collection].clear();
+      break;
+  }
+}
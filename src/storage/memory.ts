@@ -0,0 +1,18 @@
+import type { Mutation, StorageBackend, StoredData } from './types.js';
+
+// Default backend: nothing is persisted and every process starts from sample data
+export class MemoryStorage implements StorageBackend {
+  readonly kind = 'memory';
+
+  load(): StoredData | null {
+    return null;
+  }
+
+  write(_mutations: Mutation[]): void {
+    // Nothing to persist
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
@@ -0,0 +1,42 @@
+import type { StoredData } from './types.js';
+
+// Fields that hold Date values and must be revived when reading JSON back
+const DATE_FIELDS = new Set([
+  'createdAt',
+  'updatedAt',
+  'dueDate',
+  'deletedAt',
+  'timestamp',
+  'startDate',
+  'endDate',
+  'closedAt',
+]);
+
+function reviveDates(key: string, value: unknown): unknown {
+  if (DATE_FIELDS.has(key) && typeof value === 'string') {
+    return new Date(value);
+  }
+  return value;
+}
+
+export function serialize(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+// Parse JSON produced by serialize(), turning ISO date strings back into Dates
+export function deserialize(text: string): unknown {
+  return JSON.parse(text, reviveDates);
+}
+
+export function emptyStoredData(): StoredData {
+  return {
+    users: [],
+    projects: [],
+    tasks: [],
+    tags: [],
+    comments: [],
+    sprints: [],
+    revisions: [],
+    auditLog: [],
+  };
+}
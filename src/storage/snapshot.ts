@@ -0,0 +1,28 @@
+import type { Mutation, StorageBackend, StoredData } from './types.js';
+
+// Backend for a transaction's working copy
+// Loads a snapshot of the parent database and records the mutations made on top of it,
+// so they can be applied to the parent on commit
+export class SnapshotStorage implements StorageBackend {
+  readonly kind = 'memory';
+  private readonly log: Mutation[] = [];
+
+  constructor(private readonly snapshot: StoredData) {}
+
+  load(): StoredData {
+    return this.snapshot;
+  }
+
+  write(mutations: Mutation[]): void {
+    this.log.push(...mutations);
+  }
+
+  // Mutations recorded so far, in the order they were made
+  get mutations(): readonly Mutation[] {
+    return this.log;
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
@@ -0,0 +1,93 @@
+import BetterSqlite3 from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { deserialize, emptyStoredData, serialize } from './serialization.js';
+import type { StoredCollection, EntityOf, Mutation, StorageBackend, StoredData } from './types.js';
+import { COLLECTIONS } from './types.js';
+
+// Stores every record as a JSON document in a single embedded SQLite table
+// Keeping the schema generic means new entity fields need no migrations
+export class SqliteStorage implements StorageBackend {
+  readonly kind = 'sqlite';
+  private readonly connection: BetterSqlite3.Database;
+  private readonly upsert: BetterSqlite3.Statement<[string, string, string]>;
+  private readonly remove: BetterSqlite3.Statement<[string, string]>;
+  private readonly removeAll: BetterSqlite3.Statement<[string]>;
+  private readonly applyAll: (mutations: Mutation[]) => void;
+  // Whether the records table had to be created on startup
+  private readonly isNew: boolean;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.connection = new BetterSqlite3(path);
+    this.connection.pragma('journal_mode = WAL');
+    this.isNew =
+      this.connection
+        .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'records'")
+        .get() === undefined;
+    this.connection.exec(`
+      CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (collection, id)
+      )
+    `);
+
+    this.upsert = this.connection.prepare(
+      'INSERT INTO records (collection, id, data) VALUES (?, ?, ?) ' +
+        'ON CONFLICT (collection, id) DO UPDATE SET data = excluded.data'
+    );
+    this.remove = this.connection.prepare('DELETE FROM records WHERE collection = ? AND id = ?');
+    this.removeAll = this.connection.prepare('DELETE FROM records WHERE collection = ?');
+
+    // Each group of mutations runs in its own SQLite transaction
+    this.applyAll = this.connection.transaction((mutations: Mutation[]) => {
+      mutations.forEach(mutation => {
+        switch (mutation.type) {
+          case 'put':
+            this.upsert.run(mutation.collection, mutation.record.id, serialize(mutation.record));
+            break;
+          case 'delete':
+            this.remove.run(mutation.collection, mutation.id);
+            break;
+          case 'clear':
+            this.removeAll.run(mutation.collection);
+            break;
+        }
+      });
+    });
+  }
+
+  load(): StoredData | null {
+    if (this.isNew) return null;
+    const data = emptyStoredData();
+    const rows = this.connection
+      .prepare('SELECT collection, data FROM records ORDER BY rowid')
+      .all() as Array<{ collection: string; data: string }>;
+
+    rows.forEach(row => {
+      if (!isCollection(row.collection)) return;
+      (data[row.collection] as Array<EntityOf<StoredCollection>>).push(
+        deserialize(row.data) as EntityOf<StoredCollection>
+      );
+    });
+
+    return data;
+  }
+
+  write(mutations: Mutation[]): void {
+    if (mutations.length === 0) return;
+    this.applyAll(mutations);
+  }
+
+  close(): void {
+    this.connection.close();
+  }
+}
+
+function isCollection(value: string): value is StoredCollection {
+  return (COLLECTIONS as readonly string[]).includes(value);
+}
@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemoryDatabase } from '../database.js';
+import { loadStorageConfig } from '../config.js';
+import { JsonFileStorage } from './json-file.js';
+import { Journal } from './journal.js';
+import { MemoryStorage } from './memory.js';
+import { SqliteStorage } from './sqlite.js';
+import type { StorageBackend } from './types.js';
+import { COLLECTIONS } from './types.js';
+
+describe('Storage backends', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'task-manager-storage-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const backends: Array<[string, (path: string) => StorageBackend]> = [
+    ['json', path => new JsonFileStorage(`${path}.json`)],
+    ['sqlite', path => new SqliteStorage(`${path}.sqlite`)],
+  ];
+
+  describe.each(backends)('%s backend', (_name, open) => {
+    it('should seed sample data into an empty store', () => {
+      const path = join(dir, 'store');
+      const first = new InMemoryDatabase(open(path));
+      first.close();
+
+      const storage = open(path);
+      const stored = storage.load();
+      storage.close();
+
+      expect(stored?.users.map(u => u.id)).toContain('user-1');
+      expect(stored?.tasks.length).toBe(2);
+    });
+
+    it('should not seed a store again once everything in it was deleted', () => {
+      const path = join(dir, 'store');
+      new InMemoryDatabase(open(path)).close();
+
+      const storage = open(path);
+      storage.write(COLLECTIONS.map(collection => ({ type: 'clear', collection })));
+      storage.close();
+
+      const reopened = new InMemoryDatabase(open(path));
+      expect(reopened.getAllUsers()).toHaveLength(0);
+      expect(reopened.getAllTasks()).toHaveLength(0);
+      reopened.close();
+    });
+
+    it('should persist mutations across restarts', () => {
+      const path = join(dir, 'store');
+      const first = new InMemoryDatabase(open(path));
+      const user = first.createUser({ name: 'Persisted', email: 'p@example.com', role: 'user' });
+      const task = first.createTask({
+        title: 'Persisted task',
+        description: 'Survives a restart',
+        projectId: 'project-1',
+        assigneeId: user.id,
+        status: 'todo',
+        priority: 'low',
+        dueDate: new Date('2024-05-01'),
+        tags: [],
+      });
+      first.updateTask(task.id, { status: 'done' });
+      first.deleteTask('task-2');
+      first.close();
+
+      const second = new InMemoryDatabase(open(path));
+      expect(second.getUser(user.id)?.name).toBe('Persisted');
+      expect(second.getTask(task.id)?.status).toBe('done');
+      expect(second.getTask(task.id)?.dueDate).toBeInstanceOf(Date);
+      expect(second.getTask('task-2')).toBeUndefined();
+      second.close();
+    });
+
+    it('should persist cascading deletes', () => {
+      const path = join(dir, 'store');
+      const first = new InMemoryDatabase(open(path));
+      first.deleteProject('project-1');
+      first.close();
+
+      const second = new InMemoryDatabase(open(path));
+      expect(second.getProject('project-1')).toBeUndefined();
+      expect(second.getAllTasks()).toHaveLength(0);
+      expect(second.getComment('comment-1')).toBeUndefined();
+      second.close();
+    });
+
+    it('should keep deleted records in the trash across restarts', () => {
+      const path = join(dir, 'store');
+      const first = new InMemoryDatabase(open(path));
+      first.deleteTask('task-1');
+      first.close();
+
+      const second = new InMemoryDatabase(open(path));
+      expect(second.getTask('task-1')).toBeUndefined();
+      expect(second.getTrash('task')[0]?.deletedAt).toBeInstanceOf(Date);
+      second.restoreFromTrash('task', 'task-1');
+      expect(second.getCommentsByTask('task-1')).toHaveLength(1);
+      second.close();
+    });
+
+    it('should keep the change history across restarts', () => {
+      const path = join(dir, 'store');
+      const first = new InMemoryDatabase(open(path));
+      first.updateTask('task-1', { priority: 'low' });
+      first.close();
+
+      const second = new InMemoryDatabase(open(path));
+      const history = second.getHistory('task', 'task-1');
+      expect(history.map(r => r.operation)).toEqual(['create', 'update']);
+      expect(history[1]?.timestamp).toBeInstanceOf(Date);
+      second.updateTask('task-1', { priority: 'medium' });
+      expect(second.getHistory('task', 'task-1').at(-1)?.version).toBe(3);
+      second.close();
+    });
+
+    it('should keep the audit log across restarts', () => {
+      const path = join(dir, 'store');
+      const first = new InMemoryDatabase(open(path));
+      first.recordAudit({
+        sessionId: 'session-1',
+        actor: 'user-1',
+        tool: 'delete_task',
+        arguments: { taskId: 'task-1' },
+        outcome: 'success',
+        error: null,
+        entities: [{ entity: 'task', id: 'task-1' }],
+      });
+      first.close();
+
+      const second = new InMemoryDatabase(open(path));
+      const [entry] = second.getAuditLog({ actor: 'user-1' });
+      expect(entry?.tool).toBe('delete_task');
+      expect(entry?.timestamp).toBeInstanceOf(Date);
+      second.close();
+    });
+  });
+
+  describe('json journal', () => {
+    it('should replay committed transactions after a crash', () => {
+      const path = join(dir, 'store.json');
+      // Never closed, so the journal is not compacted, as after a crash
+      const crashed = new InMemoryDatabase(new JsonFileStorage(path));
+      crashed.updateTask('task-1', { status: 'done' });
+      crashed.deleteProject('project-1');
+
+      const storage = new JsonFileStorage(path);
+      const recovered = new InMemoryDatabase(storage);
+      expect(storage.recovery.replayed).toBe(3);
+      expect(recovered.getProject('project-1')).toBeUndefined();
+      expect(recovered.getAllTasks()).toHaveLength(0);
+      expect(recovered.getComment('comment-1')).toBeUndefined();
+      recovered.close();
+    });
+
+    it('should roll back a half-finished cascade', () => {
+      const path = join(dir, 'store.json');
+      const first = new InMemoryDatabase(new JsonFileStorage(path));
+      first.close();
+
+      // A deleteProject cascade that crashed before its commit entry was written
+      const journal = new Journal(`${path}.journal`);
+      journal.append([
+        { txn: 2, op: 'delete', collection: 'comments', id: 'comment-1' },
+        { txn: 2, op: 'delete', collection: 'tasks', id: 'task-1' },
+      ]);
+      journal.close();
+
+      const storage = new JsonFileStorage(path);
+      const recovered = new InMemoryDatabase(storage);
+      expect(storage.recovery).toEqual({ replayed: 0, discarded: 1 });
+      expect(recovered.getTask('task-1')).toBeDefined();
+      expect(recovered.getComment('comment-1')).toBeDefined();
+      recovered.close();
+    });
+
+    it('should ignore a torn final journal line', () => {
+      const path = join(dir, 'store.json');
+      const crashed = new InMemoryDatabase(new JsonFileStorage(path));
+      crashed.updateUser('user-2', { name: 'Robert Smith' });
+      appendFileSync(`${path}.journal`, '{"txn":3,"op":"delete","collec');
+
+      const recovered = new InMemoryDatabase(new JsonFileStorage(path));
+      expect(recovered.getUser('user-2')?.name).toBe('Robert Smith');
+      recovered.close();
+    });
+
+    it('should compact the journal into a snapshot', () => {
+      const path = join(dir, 'store.json');
+      const storage = new JsonFileStorage(path, { compactThreshold: 4 });
+      const database = new InMemoryDatabase(storage);
+      database.createTag({ name: 'one', color: '#000000' });
+      database.createTag({ name: 'two', color: '#000000' });
+
+      expect(readFileSync(`${path}.journal`, 'utf8')).toBe('');
+      expect(existsSync(path)).toBe(true);
+      database.close();
+
+      const reopened = new InMemoryDatabase(new JsonFileStorage(path));
+      expect(reopened.getAllTags().map(t => t.name)).toEqual(
+        expect.arrayContaining(['one', 'two'])
+      );
+      reopened.close();
+    });
+  });
+
+  describe('memory backend', () => {
+    it('should start from sample data every time', () => {
+      const first = new InMemoryDatabase(new MemoryStorage());
+      first.deleteUser('user-2');
+
+      const second = new InMemoryDatabase(new MemoryStorage());
+      expect(second.getUser('user-2')).toBeDefined();
+    });
+  });
+
+  describe('configuration', () => {
+    it('should default to the memory backend', () => {
+      expect(loadStorageConfig({}).backend).toBe('memory');
+    });
+
+    it('should use the configured backend and path', () => {
+      const config = loadStorageConfig({
+        TASK_MANAGER_STORAGE: 'sqlite',
+        TASK_MANAGER_DATA_PATH: '/tmp/tasks.sqlite',
+      });
+      expect(config).toEqual({
+        backend: 'sqlite',
+        path: '/tmp/tasks.sqlite',
+        journalCompactThreshold: 500,
+      });
+    });
+
+    it('should reject unknown backends', () => {
+      expect(() => loadStorageConfig({ TASK_MANAGER_STORAGE: 'redis' })).toThrow(
+        'Unknown storage backend'
+      );
+    });
+  });
+});
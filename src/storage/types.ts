@@ -0,0 +1,67 @@
+import type {
+  AuditEntry,
+  Comment,
+  Database,
+  Project,
+  Revision,
+  Sprint,
+  Tag,
+  Task,
+  User,
+} from '../types.js';
+
+// Name of one of the entity collections held by the database
+export type Collection = keyof Database;
+
+// Name of anything a storage backend persists: the entity collections plus the
+// change history and the audit log
+export type StoredCollection = Collection | 'revisions' | 'auditLog';
+
+interface CollectionEntities {
+  users: User;
+  projects: Project;
+  tasks: Task;
+  tags: Tag;
+  comments: Comment;
+  sprints: Sprint;
+  revisions: Revision;
+  auditLog: AuditEntry;
+}
+
+// Record type stored in a given collection
+export type EntityOf<C extends StoredCollection> = CollectionEntities[C];
+
+// A single change to persisted state
+export type Mutation =
+  | { type: 'put'; collection: StoredCollection; record: EntityOf<StoredCollection> }
+  | { type: 'delete'; collection: StoredCollection; id: string }
+  | { type: 'clear'; collection: StoredCollection };
+
+// Persisted contents of every collection, as returned by StorageBackend.load()
+export type StoredData = { [C in StoredCollection]: Array<EntityOf<C>> };
+
+// Persistence layer behind InMemoryDatabase
+// The database keeps its working set in memory and writes every change through
+// to the backend, so backends only need to load state once and apply mutations
+export interface StorageBackend {
+  readonly kind: StorageKind;
+  // Returns the persisted data, or null when nothing was ever stored
+  // A store whose records were all deleted loads as empty collections, not as null
+  load(): StoredData | null;
+  // Applies a group of mutations; backends must apply the whole group or none of it
+  write(mutations: Mutation[]): void;
+  close(): void;
+}
+
+export type StorageKind = 'memory' | 'json' | 'sqlite';
+
+export const COLLECTIONS: readonly StoredCollection[] = [
+  'users',
+  'projects',
+  'tasks',
+  'tags',
+  'comments',
+  'sprints',
+  'revisions',
+  'auditLog',
+];
@@ -0,0 +1,74 @@
+import type { DateRange, Task, TaskQuery, TaskSortKey } from './types.js';
+
+// Priorities from least to most pressing, for sorting and comparing
+export const PRIORITY_ORDER: ReadonlyArray<Task['priority']> = ['low', 'medium', 'high', 'urgent'];
+
+// Whether a task matches every criterion of the query
+export function matchesTaskQuery(task: Task, query: TaskQuery): boolean {
+  return (
+    (query.projectId === undefined || task.projectId === query.projectId) &&
+    (query.assigneeId === undefined || task.assigneeId === query.assigneeId) &&
+    (query.status === undefined || query.status.includes(task.status)) &&
+    (query.priority === undefined || query.priority.includes(task.priority)) &&
+    (query.tagsAny === undefined || query.tagsAny.some(tag => task.tags.includes(tag))) &&
+    (query.tagsAll === undefined || query.tagsAll.every(tag => task.tags.includes(tag))) &&
+    (query.text === undefined || containsText(task, query.text)) &&
+    (query.dueDate === undefined || inRange(task.dueDate, query.dueDate)) &&
+    (query.createdAt === undefined || inRange(task.createdAt, query.createdAt)) &&
+    (query.updatedAt === undefined || inRange(task.updatedAt, query.updatedAt))
+  );
+}
+
+// Tasks ordered by the sort keys, most significant first, with statuses in the given order
+// Tasks without a due date sort after those with one in either direction
+export function sortTasks(
+  tasks: readonly Task[],
+  keys: readonly TaskSortKey[],
+  statuses: readonly string[]
+): Task[] {
+  return [...tasks].sort((a, b) => {
+    for (const key of keys) {
+      const order = compareField(a, b, key, statuses);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+}
+
+function compareField(
+  a: Task,
+  b: Task,
+  { field, direction }: TaskSortKey,
+  statuses: readonly string[]
+): number {
+  const sign = direction === 'asc' ? 1 : -1;
+  switch (field) {
+    case 'title':
+      return sign * a.title.localeCompare(b.title);
+    case 'status':
+      return sign * (statuses.indexOf(a.status) - statuses.indexOf(b.status));
+    case 'priority':
+      return sign * (PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority));
+    case 'dueDate':
+      if (!a.dueDate || !b.dueDate) return Number(!a.dueDate) - Number(!b.dueDate);
+      return sign * (a.dueDate.getTime() - b.dueDate.getTime());
+    case 'createdAt':
+    case 'updatedAt':
+      return sign * (a[field].getTime() - b[field].getTime());
+  }
+}
+
+function containsText(task: Task, text: string): boolean {
+  const lowerText = text.toLowerCase();
+  return (
+    task.title.toLowerCase().includes(lowerText) ||
+    task.description.toLowerCase().includes(lowerText)
+  );
+}
+
+function inRange(date: Date | null, range: DateRange): boolean {
+  if (!date) return false;
+  return (
+    (range.from === undefined || date >= range.from) && (range.to === undefined || date <= range.to)
+  );
+}
@@ -0,0 +1,333 @@
+import { QueryParseError } from './errors.js';
+import { didYouMean } from './fuzzy.js';
+import { PRIORITY_ORDER } from './task-query.js';
+import type { DateRange, EntityType, Project, Suggestion, Tag, TaskQuery, User } from './types.js';
+
+// Task search queries are whitespace-separated terms that a task must all match:
+//   status:in-progress      field terms, with comma-separated alternatives (status:todo,review)
+//   priority:>=high         comparisons (<, <=, >, >=) on status, priority and dates; statuses
+//                           of every project's workflow compare from not started to done
+//   assignee:@alice         users by ID, name, first name or email; @me and none are special
+//   tag:backend             tags and projects by ID or name
+//   due:<2024-03-01         dates as ISO strings; a bare day covers the whole day (UTC)
+//   "login bug" or login    text that the title or description contains
+export type SearchField =
+  | 'status'
+  | 'priority'
+  | 'assignee'
+  | 'project'
+  | 'tag'
+  | 'due'
+  | 'created'
+  | 'updated';
+
+export type SearchOperator = '=' | '<' | '<=' | '>' | '>=';
+
+// A term of a search query, with the span of the query it was read from
+export type SearchTerm =
+  | { kind: 'text'; text: string; start: number; end: number }
+  | {
+      kind: 'field';
+      field: SearchField;
+      operator: SearchOperator;
+      values: string[];
+      start: number;
+      end: number;
+    };
+
+// What compiling a query needs to resolve the names it mentions
+export interface SearchContext {
+  readonly actor: string | null;
+  getAllUsers(): User[];
+  getAllProjects(): Project[];
+  getAllTags(): Tag[];
+  getStatusOrder(): string[];
+  findSimilar(entity: EntityType, value: string, limit?: number): Suggestion[];
+}
+
+const FIELDS: readonly SearchField[] = [
+  'status',
+  'priority',
+  'assignee',
+  'project',
+  'tag',
+  'due',
+  'created',
+  'updated',
+];
+
+// Fields whose values are ordered, so they can be compared
+const ORDERED_FIELDS: ReadonlySet<SearchField> = new Set([
+  'status',
+  'priority',
+  'due',
+  'created',
+  'updated',
+]);
+
+const OPERATORS: readonly SearchOperator[] = ['<=', '>=', '<', '>', '='];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Split a query into terms; throws a QueryParseError pointing at the first bad token
+export function parseTaskSearch(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  let index = 0;
+  while (index < query.length) {
+    if (/\s/.test(query.charAt(index))) {
+      index++;
+      continue;
+    }
+    const start = index;
+    const token = readToken(query, start);
+    index = token.end;
+    terms.push(parseTerm(query, start, token.end, token.raw));
+  }
+  return terms;
+}
+
+// Criteria of a query, one per term, with names resolved to record IDs
+// A task matches the query when it matches every one of them
+export function compileTaskSearch(query: string, context: SearchContext): TaskQuery[] {
+  return parseTaskSearch(query).map(term => {
+    if (term.kind === 'text') return { text: term.text };
+    const fail = (reason: string) => new QueryParseError(query, term.start, term.end, reason);
+    switch (term.field) {
+      case 'status':
+        return { status: orderedValues(term, context.getStatusOrder(), 'status', fail) };
+      case 'priority':
+        return { priority: orderedValues(term, PRIORITY_ORDER, 'priority', fail) };
+      case 'assignee':
+        return assigneeCriterion(term.values, context, fail);
+      case 'project':
+        return { projectId: resolveProject(term.values, context, fail) };
+      case 'tag':
+        return { tagsAny: term.values.map(value => resolveTag(value, context, fail)) };
+      case 'due':
+        return { dueDate: dateRange(term, fail) };
+      case 'created':
+        return { createdAt: dateRange(term, fail) };
+      case 'updated':
+        return { updatedAt: dateRange(term, fail) };
+    }
+  });
+}
+
+// The raw text of the token starting at start, with quoted parts kept whole
+function readToken(query: string, start: number): { raw: string; end: number } {
+  let index = start;
+  while (index < query.length && !/\s/.test(query.charAt(index))) {
+    if (query.charAt(index) === '"') {
+      const close = query.indexOf('"', index + 1);
+      if (close === -1) {
+        throw new QueryParseError(query, index, query.length, 'unterminated quote');
+      }
+      index = close + 1;
+    } else {
+      index++;
+    }
+  }
+  return { raw: query.slice(start, index), end: index };
+}
+
+function parseTerm(query: string, start: number, end: number, raw: string): SearchTerm {
+  const colon = raw.indexOf(':');
+  const quote = raw.indexOf('"');
+  // Plain words and quoted phrases are text; a colon inside quotes does not start a field
+  if (colon === -1 || (quote !== -1 && quote < colon)) {
+    const text = unquote(raw);
+    if (text === '') throw new QueryParseError(query, start, end, 'empty phrase');
+    return { kind: 'text', text, start, end };
+  }
+
+  const name = raw.slice(0, colon).toLowerCase();
+  const field = FIELDS.find(candidate => candidate === name);
+  if (!field) {
+    throw new QueryParseError(
+      query,
+      start,
+      start + colon,
+      `unknown field "${raw.slice(0, colon)}"; expected one of ${FIELDS.join(', ')}`
+    );
+  }
+
+  let rest = raw.slice(colon + 1);
+  const operator = OPERATORS.find(candidate => rest.startsWith(candidate)) ?? '=';
+  if (rest.startsWith(operator)) rest = rest.slice(operator.length);
+  if (operator !== '=' && !ORDERED_FIELDS.has(field)) {
+    throw new QueryParseError(query, start, end, `${field} cannot be compared with ${operator}`);
+  }
+
+  const values = splitValues(rest).map(unquote);
+  if (values.some(value => value === '')) {
+    throw new QueryParseError(query, start, end, `missing value for ${field}`);
+  }
+  if (operator !== '=' && values.length > 1) {
+    throw new QueryParseError(
+      query,
+      start,
+      end,
+      `${field}:${operator} takes a single value, not a list`
+    );
+  }
+  return { kind: 'field', field, operator, values, start, end };
+}
+
+// Comma-separated values, leaving commas inside quotes alone
+function splitValues(text: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === ',' && !quoted) {
+      values.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+  return values;
+}
+
+function unquote(text: string): string {
+  return text.replaceAll('"', '');
+}
+
+// Status or priority values selected by the term, in the given order
+function orderedValues<T extends string>(
+  term: Extract<SearchTerm, { kind: 'field' }>,
+  order: readonly T[],
+  label: string,
+  fail: (reason: string) => QueryParseError
+): T[] {
+  const indexes = term.values.map(value => {
+    const index = order.findIndex(candidate => candidate === value.toLowerCase());
+    if (index === -1) {
+      throw fail(`"${value}" is not a ${label}; expected one of ${order.join(', ')}`);
+    }
+    return index;
+  });
+  const [bound = 0] = indexes;
+  return order.filter((_, index) => {
+    switch (term.operator) {
+      case '=':
+        return indexes.includes(index);
+      case '<':
+        return index < bound;
+      case '<=':
+        return index <= bound;
+      case '>':
+        return index > bound;
+      case '>=':
+        return index >= bound;
+    }
+  });
+}
+
+function assigneeCriterion(
+  values: readonly string[],
+  context: SearchContext,
+  fail: (reason: string) => QueryParseError
+): TaskQuery {
+  if (values.length > 1) throw fail('assignee takes a single user, not a list');
+  const value = (values[0] ?? '').replace(/^@/, '');
+  if (value.toLowerCase() === 'none') return { assigneeId: null };
+  if (value.toLowerCase() === 'me') {
+    if (!context.actor) throw fail('@me needs an acting user');
+    return { assigneeId: context.actor };
+  }
+  return { assigneeId: resolveUser(value, context, fail) };
+}
+
+// Users match by ID, full name, first name, email or the part of the email before the @
+function resolveUser(
+  value: string,
+  context: SearchContext,
+  fail: (reason: string) => QueryParseError
+): string {
+  const lower = value.toLowerCase();
+  const byId = context.getAllUsers().find(user => user.id === value);
+  if (byId) return byId.id;
+  const matches = context.getAllUsers().filter(user => {
+    const name = user.name.toLowerCase();
+    const email = user.email.toLowerCase();
+    return (
+      name === lower ||
+      name.split(/\s+/)[0] === lower ||
+      email === lower ||
+      email.split('@')[0] === lower
+    );
+  });
+  const [match, ...others] = matches;
+  if (!match) {
+    throw fail(`no user matches "${value}"${didYouMean(context.findSimilar('user', value, 3))}`);
+  }
+  if (others.length > 0) {
+    throw fail(`"${value}" matches several users: ${matches.map(user => user.id).join(', ')}`);
+  }
+  return match.id;
+}
+
+function resolveProject(
+  values: readonly string[],
+  context: SearchContext,
+  fail: (reason: string) => QueryParseError
+): string {
+  if (values.length > 1) throw fail('project takes a single project, not a list');
+  const value = values[0] ?? '';
+  const project = context
+    .getAllProjects()
+    .find(
+      candidate => candidate.id === value || candidate.name.toLowerCase() === value.toLowerCase()
+    );
+  if (!project) {
+    throw fail(
+      `no project matches "${value}"${didYouMean(context.findSimilar('project', value, 3))}`
+    );
+  }
+  return project.id;
+}
+
+function resolveTag(
+  value: string,
+  context: SearchContext,
+  fail: (reason: string) => QueryParseError
+): string {
+  const tag = context
+    .getAllTags()
+    .find(
+      candidate => candidate.id === value || candidate.name.toLowerCase() === value.toLowerCase()
+    );
+  if (!tag) {
+    throw fail(`no tag matches "${value}"${didYouMean(context.findSimilar('tag', value, 3))}`);
+  }
+  return tag.id;
+}
+
+// The range of times a date term selects
+// A bare day such as 2024-03-01 stands for the whole day, so due:<=2024-03-01 includes it
+function dateRange(
+  term: Extract<SearchTerm, { kind: 'field' }>,
+  fail: (reason: string) => QueryParseError
+): DateRange {
+  const value = term.values[0] ?? '';
+  if (term.values.length > 1) throw fail(`${term.field} takes a single date, not a list`);
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw fail(`"${value}" is not a date`);
+  const first = new Date(time);
+  const last = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(time + DAY_MS - 1) : first;
+  switch (term.operator) {
+    case '=':
+      return { from: first, to: last };
+    case '<':
+      return { to: new Date(first.getTime() - 1) };
+    case '<=':
+      return { to: last };
+    case '>':
+      return { from: new Date(last.getTime() + 1) };
+    case '>=':
+      return { from: first };
+  }
+}
@@ -0,0 +1,47 @@
+import type { InMemoryDatabase } from './database.js';
+import { TransactionClosedError } from './errors.js';
+import type { Mutation, SnapshotStorage } from './storage/index.js';
+
+export type TransactionStatus = 'active' | 'committed' | 'rolled-back';
+
+// A group of changes that is applied to the database all at once or not at all
+// Reads and writes go through `db`, a working copy taken when the transaction began:
+// it sees its own changes, while every other reader keeps seeing the committed state
+export class Transaction {
+  private state: TransactionStatus = 'active';
+
+  constructor(
+    readonly db: InMemoryDatabase,
+    private readonly storage: SnapshotStorage,
+    private readonly apply: (mutations: readonly Mutation[]) => void
+  ) {}
+
+  get status(): TransactionStatus {
+    return this.state;
+  }
+
+  // Apply every change to the database; on a conflict nothing is applied
+  // and the transaction is rolled back
+  commit(): void {
+    this.assertActive();
+    try {
+      this.apply(this.storage.mutations);
+      this.state = 'committed';
+    } catch (error) {
+      this.state = 'rolled-back';
+      throw error;
+    }
+  }
+
+  // Discard every change
+  rollback(): void {
+    this.assertActive();
+    this.state = 'rolled-back';
+  }
+
+  private assertActive(): void {
+    if (this.state !== 'active') {
+      throw new TransactionClosedError(this.state);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'crypto';
+import { createServer as createHttpServer } from 'http';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { ServerConfig } from '../config.js';
+import { createServer } from '../mcp/server.js';
+import {
+  authenticate,
+  closeServer,
+  handleFailure,
+  listen,
+  readJson,
+  sendError,
+} from './requests.js';
+import type { RunningServer } from './types.js';
+
+// Path the MCP endpoint is served on
+export const MCP_PATH = '/mcp';
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  // User the session was opened for, from its bearer token
+  actor: string | null;
+}
+
+// Serve any number of clients over Streamable HTTP
+// Every client gets its own MCP session; all of them share the one database
+export async function startHttpServer(config: ServerConfig): Promise<RunningServer> {
+  const sessions = new Map<string, HttpSession>();
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== MCP_PATH) {
+      sendError(res, 404, 'Not found');
+      return;
+    }
+    const actor = authenticate(req, config.authTokens);
+    if (actor === undefined) {
+      sendError(res, 401, 'Missing or invalid bearer token');
+      return;
+    }
+    const body = req.method === 'POST' ? await readJson(req) : undefined;
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendError(res, 404, 'Session not found');
+        return;
+      }
+      if (session.actor !== actor) {
+        sendError(res, 403, 'Session belongs to another user');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, 'Start a session with an initialize request');
+      return;
+    }
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { transport, actor });
+      },
+    });
+    // Set before connecting, so the server keeps it as part of its own close handling
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    const mcpServer = createServer({ actor });
+    await mcpServer.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error: unknown) => {
+      handleFailure(res, error);
+    });
+  });
+  await listen(httpServer, config, MCP_PATH);
+
+  return {
+    close: async () => {
+      await Promise.all(Array.from(sessions.values()).map(session => session.transport.close()));
+      await closeServer(httpServer);
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import type { ServerConfig } from '../config.js';
+import { startHttpServer } from './http.js';
+import { startSseServer } from './sse.js';
+import { startStdioServer } from './stdio.js';
+import type { RunningServer } from './types.js';
+
+export type { RunningServer } from './types.js';
+
+// Start serving clients over the configured transport
+export function startServer(config: ServerConfig): Promise<RunningServer> {
+  switch (config.transport) {
+    case 'stdio':
+      return startStdioServer();
+    case 'http':
+      return startHttpServer(config);
+    case 'sse':
+      return startSseServer(config);
+  }
+}
@@ -0,0 +1,71 @@
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { ServerConfig } from '../config.js';
+
+// User the request's bearer token acts for; null when no tokens are configured
+// and undefined when the token is missing or unknown
+export function authenticate(
+  req: IncomingMessage,
+  tokens: Map<string, string>
+): string | null | undefined {
+  if (tokens.size === 0) return null;
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+  return match?.[1] ? tokens.get(match[1]) : undefined;
+}
+
+export async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8')) as unknown;
+}
+
+// Errors are sent as JSON-RPC error responses, like the transports' own
+export function sendError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+  code = -32000
+): void {
+  res
+    .writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+// Turn a failed request into an error response instead of an unhandled rejection
+export function handleFailure(res: ServerResponse, error: unknown): void {
+  if (error instanceof SyntaxError) {
+    sendError(res, 400, 'Request body is not valid JSON', -32700);
+    return;
+  }
+  console.error('[HTTP Error]', error);
+  if (!res.headersSent) sendError(res, 500, 'Internal server error');
+}
+
+// Start listening where the config says and report the address on stderr
+export async function listen(
+  httpServer: Server,
+  config: ServerConfig,
+  path: string
+): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : config.port;
+  console.error(`Task manager MCP server listening on http://${config.host}:${port}${path}`);
+}
+
+// Stop the server, dropping connections that are still open such as event streams
+export function closeServer(httpServer: Server): Promise<void> {
+  httpServer.closeAllConnections();
+  return new Promise(resolve =>
+    httpServer.close(() => {
+      resolve();
+    })
+  );
+}
@@ -0,0 +1,90 @@
+// The HTTP+SSE transport is deprecated in favor of Streamable HTTP, but older clients only speak it
+/* eslint-disable @typescript-eslint/no-deprecated */
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { createServer as createHttpServer } from 'http';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { ServerConfig } from '../config.js';
+import { createServer } from '../mcp/server.js';
+import {
+  authenticate,
+  closeServer,
+  handleFailure,
+  listen,
+  readJson,
+  sendError,
+} from './requests.js';
+import type { RunningServer } from './types.js';
+
+// Clients open an event stream here and are told where to post their messages
+export const SSE_PATH = '/sse';
+export const MESSAGES_PATH = '/messages';
+
+interface SseSession {
+  transport: SSEServerTransport;
+  // User the session was opened for, from its bearer token
+  actor: string | null;
+}
+
+// Serve clients over the legacy HTTP+SSE transport
+// Every event stream is an MCP session; all of them share the one database
+export async function startSseServer(config: ServerConfig): Promise<RunningServer> {
+  const sessions = new Map<string, SseSession>();
+
+  const openStream = async (res: ServerResponse, actor: string | null) => {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    // Comment lines keep proxies from closing an idle stream; clients ignore them
+    const keepAlive = setInterval(() => {
+      res.write(': keep-alive\n\n');
+    }, config.keepAliveInterval);
+    // Runs when the client disconnects as well as on close(); set before connecting,
+    // so the server keeps it as part of its own close handling
+    transport.onclose = () => {
+      clearInterval(keepAlive);
+      sessions.delete(transport.sessionId);
+    };
+    sessions.set(transport.sessionId, { transport, actor });
+    await createServer({ actor }).connect(transport);
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const actor = authenticate(req, config.authTokens);
+    if (actor === undefined) {
+      sendError(res, 401, 'Missing or invalid bearer token');
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === SSE_PATH) {
+      await openStream(res, actor);
+      return;
+    }
+    if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+      const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+      if (!session) {
+        sendError(res, 404, 'Session not found');
+        return;
+      }
+      if (session.actor !== actor) {
+        sendError(res, 403, 'Session belongs to another user');
+        return;
+      }
+      await session.transport.handlePostMessage(req, res, await readJson(req));
+      return;
+    }
+    sendError(res, 404, 'Not found');
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error: unknown) => {
+      handleFailure(res, error);
+    });
+  });
+  await listen(httpServer, config, SSE_PATH);
+
+  return {
+    close: async () => {
+      await Promise.all(Array.from(sessions.values()).map(session => session.transport.close()));
+      await closeServer(httpServer);
+    },
+  };
+}
@@ -0,0 +1,15 @@
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { loadSessionConfig } from '../config.js';
+import { createServer } from '../mcp/server.js';
+import type { RunningServer } from './types.js';
+
+// Serve the single client connected to stdin and stdout
+// It runs on this machine, so it acts for TASK_MANAGER_ACTOR and is trusted to name
+// the user it acts for when that is not set
+export async function startStdioServer(): Promise<RunningServer> {
+  const mcpServer = createServer({ actor: loadSessionConfig().actor, clientActor: true });
+  await mcpServer.connect(new StdioServerTransport());
+  // Server is now ready - don't output anything to stdout/stderr
+  // as it would interfere with JSON-RPC communication
+  return mcpServer;
+}
@@ -0,0 +1,5 @@
+// A server accepting clients over some transport
+export interface RunningServer {
+  // Disconnect every client and stop accepting new ones
+  close(): Promise<void>;
+}
@@ -5,6 +5,7 @@ export interface User {
   role: 'admin' | 'user' | 'viewer';
   createdAt: Date;
   updatedAt: Date;
+  deletedAt: Date | null;
 }
 
 export interface Project {
@@ -13,8 +14,27 @@ export interface Project {
   description: string;
   ownerId: string;
   status: 'active' | 'archived' | 'completed';
+  // Statuses the tasks of the project move through
+  workflow: Workflow;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+// Where a status stands in the life of a task, whatever a workflow calls it
+export type StatusCategory = 'todo' | 'in-progress' | 'done';
+
+// A status of a workflow and the statuses a task may move to from it
+export interface WorkflowStatus {
+  name: string;
+  category: StatusCategory;
+  // Any status of the workflow when null
+  transitions: string[] | null;
+}
+
+// Statuses of a project's tasks, in board column order
+export interface Workflow {
+  statuses: WorkflowStatus[];
 }
 
 export interface Tag {
@@ -22,6 +42,7 @@ export interface Tag {
   name: string;
   color: string;
   createdAt: Date;
+  deletedAt: Date | null;
 }
 
 export interface Task {
@@ -30,12 +51,41 @@ export interface Task {
   description: string;
   projectId: string;
   assigneeId: string | null;
-  status: 'todo' | 'in-progress' | 'review' | 'done';
+  // One of the statuses of the project's workflow
+  status: string;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   dueDate: Date | null;
   tags: string[];
+  // Task this one is a subtask of, or null for a top-level task
+  parentTaskId: string | null;
+  // Tasks that have to be done before this one can start
+  blockedBy: string[];
+  // Sprint or milestone the task is planned for, or null for a task in the backlog
+  sprintId: string | null;
+  // ID of the user who created the task, when known; kept as is if that user is deleted
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+// A sprint or milestone of a project: a period its tasks are planned into
+export interface Sprint {
+  id: string;
+  projectId: string;
+  name: string;
+  goal: string;
+  // A milestone marks a delivery rather than an iteration, but plans and closes the same way
+  kind: 'sprint' | 'milestone';
+  startDate: Date;
+  endDate: Date;
+  // Most tasks the sprint can hold, or null for no limit
+  capacity: number | null;
+  status: 'planned' | 'active' | 'closed';
+  closedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt: Date | null;
 }
 
 export interface Comment {
@@ -45,12 +95,257 @@ export interface Comment {
   content: string;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+export type EntityRecord = User | Project | Task | Tag | Comment | Sprint;
+
+// A record in the trash, as listed by list_trash
+export interface TrashEntry {
+  entity: EntityType;
+  id: string;
+  deletedAt: Date;
+  record: EntityRecord;
+}
+
+// One recorded change to a record; every mutation adds a revision
+// before is null for a create and after is null once the record is purged
+export interface Revision {
+  id: string;
+  entity: EntityType;
+  entityId: string;
+  version: number;
+  operation: 'create' | 'update' | 'delete' | 'restore' | 'purge';
+  // ID of the user who made the change, when known
+  actor: string | null;
+  timestamp: Date;
+  before: EntityRecord | null;
+  after: EntityRecord | null;
+  changes: FieldChange[];
+}
+
+// One tool call, as recorded in the audit log
+export interface AuditEntry {
+  id: string;
+  timestamp: Date;
+  sessionId: string;
+  // ID of the user the session acts for, when known
+  actor: string | null;
+  tool: string;
+  // Arguments as the client sent them; null for tools that take none
+  arguments: unknown;
+  outcome: 'success' | 'error';
+  // Message of the error the call ended with
+  error: string | null;
+  // Records the call changed
+  entities: EntityRef[];
+}
+
+// Which audit entries to return; an entry must match every criterion given
+export interface AuditFilter {
+  actor?: string;
+  tool?: string;
+  entity?: EntityType;
+  // Only entries that changed this record (requires entity)
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Entity types covered by full-text search
+export type SearchableEntity = 'task' | 'comment' | 'project';
+
+// A record matching a full-text search, as returned best match first
+export interface SearchResult {
+  entity: SearchableEntity;
+  id: string;
+  // BM25 relevance; only meaningful relative to the other results of the same search
+  score: number;
+  // Field the snippet was taken from, and an excerpt of it with matches in **bold**
+  field: string;
+  snippet: string;
+}
+
+// A time range; either end may be left open
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+// Which tasks queryTasks returns and in what order; a task must match every criterion given
+export interface TaskQuery {
+  projectId?: string;
+  // Tasks assigned to this user, or unassigned tasks when null
+  assigneeId?: string | null;
+  // Tasks with any of these statuses or priorities
+  status?: Array<Task['status']>;
+  priority?: Array<Task['priority']>;
+  // Tasks carrying at least one of these tags, and tasks carrying all of them
+  tagsAny?: string[];
+  tagsAll?: string[];
+  // Tasks whose title or description contains this text, ignoring case
+  text?: string;
+  // Tasks without a due date never fall in a due date range
+  dueDate?: DateRange;
+  createdAt?: DateRange;
+  updatedAt?: DateRange;
+  // Sort keys, most significant first; ties keep creation order
+  sort?: TaskSortKey[];
+}
+
+export interface TaskSortKey {
+  field: 'title' | 'status' | 'priority' | 'dueDate' | 'createdAt' | 'updatedAt';
+  direction: 'asc' | 'desc';
+}
+
+// A task below another in the task hierarchy, with how far below it is (1 for a child)
+export interface SubtaskEntry {
+  task: Task;
+  depth: number;
+}
+
+// Completion of a task rolled up from its subtasks at every depth
+export interface TaskProgress {
+  taskId: string;
+  // Number of subtasks below the task, and how many of them are in each status and category
+  subtasks: number;
+  byStatus: Record<string, number>;
+  byCategory: Record<StatusCategory, number>;
+  // Share of the tasks at the bottom of the hierarchy that are done, from 0 to 100;
+  // a task without subtasks is 0 or 100 by the category of its own status
+  percentComplete: number;
+}
+
+// A task that cannot start yet, with the tasks it waits on that are not done
+export interface BlockedTask {
+  task: Task;
+  blockers: Task[];
+}
+
+// The longest chain of open tasks in a project where each task waits on the one before it,
+// from the task to start with to the one that finishes last
+export interface CriticalPath {
+  projectId: string;
+  tasks: Task[];
+}
+
+// What closing a sprint did with its tasks: done tasks stay with it, the others are carried
+// over to the next sprint, or back to the backlog when carriedOverTo is null
+export interface SprintClosure {
+  sprint: Sprint;
+  completed: string[];
+  carriedOver: string[];
+  carriedOverTo: string | null;
+}
+
+// Tasks of a project or sprint still to do and already done at the end of a day (UTC)
+export interface BurndownPoint {
+  // Day as YYYY-MM-DD
+  date: string;
+  remaining: number;
+  completed: number;
+}
+
+// Daily counts of the tasks of a project, or of one of its sprints, oldest day first,
+// replayed from the task history
+export interface Burndown {
+  projectId: string;
+  sprintId: string | null;
+  points: BurndownPoint[];
+}
+
+// Tasks done in each of the last closed sprints of a project, oldest first, and their average
+export interface Velocity {
+  projectId: string;
+  iterations: Array<{ sprintId: string; name: string; closedAt: Date; completed: number }>;
+  average: number;
+}
+
+// A field that differs between the before and after state of a revision
+// Values are in their JSON form, so dates are ISO strings
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
 }
 
+// Which trashed records a purge applies to: one record, one entity type or everything
+export type TrashScope = EntityRef | { entity?: EntityType };
+
 export interface Database {
   users: Map<string, User>;
   projects: Map<string, Project>;
   tasks: Map<string, Task>;
   tags: Map<string, Tag>;
   comments: Map<string, Comment>;
+  sprints: Map<string, Sprint>;
+}
+
+// What happens to records that reference an entity being deleted
+export type ReferencePolicy =
+  | { action: 'restrict' }
+  | { action: 'cascade' }
+  | { action: 'set-null' }
+  | { action: 'reassign-to'; targetId: string };
+
+// Policies for each relationship affected by a delete
+// Omitted relationships fall back to the database defaults
+export interface DeletePolicies {
+  // user → projects they own
+  projectOwner?: ReferencePolicy;
+  // user → tasks assigned to them
+  taskAssignee?: ReferencePolicy;
+  // user → comments they wrote
+  commentAuthor?: ReferencePolicy;
+  // project → tasks in the project
+  projectTasks?: ReferencePolicy;
+  // tag → tasks carrying the tag
+  taskTags?: ReferencePolicy;
+  // task → its subtasks
+  subtasks?: ReferencePolicy;
+  // task → tasks blocked by it
+  blockedTasks?: ReferencePolicy;
+  // sprint → tasks planned for it
+  sprintTasks?: ReferencePolicy;
+}
+
+export type DeleteRelationship = keyof DeletePolicies;
+
+// Entity kinds that can be referenced from other records
+export type EntityType = 'user' | 'project' | 'task' | 'tag' | 'comment' | 'sprint';
+
+export interface EntityRef {
+  entity: EntityType;
+  id: string;
+}
+
+// A record whose ID or name is close to a value that matched nothing, offered as "did you mean"
+export interface Suggestion extends EntityRef {
+  // Name, title or text of the record, to tell suggestions apart
+  label: string;
 }
+
+// A field change made to a surviving record while deleting another one
+export type PlannedUpdate =
+  | { entity: 'project'; id: string; field: 'ownerId'; from: string; to: string }
+  | { entity: 'task'; id: string; field: 'assigneeId'; from: string | null; to: string | null }
+  | { entity: 'task'; id: string; field: 'projectId'; from: string; to: string }
+  | { entity: 'task'; id: string; field: 'tags'; from: string[]; to: string[] }
+  | { entity: 'task'; id: string; field: 'parentTaskId'; from: string | null; to: string | null }
+  | { entity: 'task'; id: string; field: 'blockedBy'; from: string[]; to: string[] }
+  | { entity: 'task'; id: string; field: 'sprintId'; from: string | null; to: string | null }
+  | { entity: 'comment'; id: string; field: 'userId'; from: string; to: string };
+
+// Everything a delete would touch, as computed before anything is changed
+export interface DeletionPlan {
+  target: EntityRef;
+  // Records that would be deleted, including the target itself
+  deleted: EntityRef[];
+  // Records that would be kept but changed
+  updated: PlannedUpdate[];
+  // Records whose restrict policy prevents the delete
+  blockedBy: Array<EntityRef & { relationship: DeleteRelationship }>;
+}
+
+// Plan of deleting every record of one entity type at once, as clear_all_users does
+export type BulkDeletionPlan = Omit<DeletionPlan, 'target'> & { entity: EntityType };
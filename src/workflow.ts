@@ -0,0 +1,72 @@
+import { InvalidWorkflowError } from './errors.js';
+import type { StatusCategory, Workflow } from './types.js';
+
+// Categories from not started to finished; statuses sort and compare in this order
+const STATUS_CATEGORIES: readonly StatusCategory[] = ['todo', 'in-progress', 'done'];
+
+// Workflow of projects that do not define their own: the statuses tasks always had,
+// with every move allowed
+export function defaultWorkflow(): Workflow {
+  return {
+    statuses: [
+      { name: 'todo', category: 'todo', transitions: null },
+      { name: 'in-progress', category: 'in-progress', transitions: null },
+      { name: 'review', category: 'in-progress', transitions: null },
+      { name: 'done', category: 'done', transitions: null },
+    ],
+  };
+}
+
+// Throws an InvalidWorkflowError unless the workflow can be used by a project
+export function validateWorkflow(workflow: Workflow): void {
+  const names = new Set<string>();
+  workflow.statuses.forEach(status => {
+    if (status.name.trim() === '') {
+      throw new InvalidWorkflowError('status names cannot be empty');
+    }
+    if (names.has(status.name)) {
+      throw new InvalidWorkflowError(`status "${status.name}" is defined twice`);
+    }
+    names.add(status.name);
+  });
+  if (names.size === 0) {
+    throw new InvalidWorkflowError('a workflow needs at least one status');
+  }
+  if (!workflow.statuses.some(status => status.category === 'done')) {
+    throw new InvalidWorkflowError('a workflow needs a status in the done category');
+  }
+  workflow.statuses.forEach(status => {
+    status.transitions?.forEach(target => {
+      if (!names.has(target)) {
+        throw new InvalidWorkflowError(
+          `status "${status.name}" moves to "${target}", which is not a status of the workflow`
+        );
+      }
+    });
+  });
+}
+
+// Category of a status; statuses the workflow does not have count as not started
+export function statusCategory(workflow: Workflow, status: string): StatusCategory {
+  return workflow.statuses.find(candidate => candidate.name === status)?.category ?? 'todo';
+}
+
+// Statuses a task may move to from the given one
+export function allowedTransitions(workflow: Workflow, from: string): string[] {
+  const transitions = workflow.statuses.find(status => status.name === from)?.transitions;
+  return (transitions ?? workflow.statuses.map(status => status.name)).filter(to => to !== from);
+}
+
+// Every status of the workflows, from not started to done; statuses of the same category
+// keep the order of the first workflow that has them
+export function statusOrder(workflows: readonly Workflow[]): string[] {
+  const categories = new Map<string, StatusCategory>();
+  workflows.forEach(workflow => {
+    workflow.statuses.forEach(status => {
+      if (!categories.has(status.name)) categories.set(status.name, status.category);
+    });
+  });
+  return Array.from(categories.entries())
+    .sort(([, a], [, b]) => STATUS_CATEGORIES.indexOf(a) - STATUS_CATEGORIES.indexOf(b))
+    .map(([name]) => name);
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import type { AuditEntry } from '../../../src/types.js';
+import {
+  extractToolResult,
+  getToolResultText,
+  parseToolResultText,
+  withServer,
+} from '../helpers/inspector-cli.js';
+
+/** Output of query_audit_log */
+interface AuditLog {
+  entries: AuditEntry[];
+  nextCursor?: string;
+}
+
+describe('Audit Tools', () => {
+  describe('query_audit_log', () => {
+    it('should record the arguments, outcome and changed records of every call', async () => {
+      await withServer(async server => {
+        await server.callTool('update_task', { taskId: 'task-1', priority: 'low' });
+        await server.callTool('update_task', { taskId: 'missing', priority: 'low' });
+
+        const result = await server.callTool('query_audit_log', { tool: 'update_task' });
+        const entries = parseToolResultText<AuditLog>(extractToolResult(result)).entries;
+        expect(entries).toHaveLength(2);
+        expect(entries[0]).toMatchObject({
+          arguments: { taskId: 'task-1', priority: 'low' },
+          outcome: 'success',
+          error: null,
+          entities: [{ entity: 'task', id: 'task-1' }],
+        });
+        expect(entries[1]).toMatchObject({
+          outcome: 'error',
+          error: 'Task not found',
+          entities: [],
+        });
+      });
+    });
+
+    it('should filter by changed record and time range', async () => {
+      await withServer(async server => {
+        const before = new Date().toISOString();
+        await server.callTool('delete_task', { taskId: 'task-1' });
+
+        const byRecord = await server.callTool('query_audit_log', {
+          entity: 'comment',
+          id: 'comment-1',
+        });
+        const { entries } = parseToolResultText<AuditLog>(extractToolResult(byRecord));
+        expect(entries.map(entry => entry.tool)).toEqual(['delete_task']);
+
+        const byTime = await server.callTool('query_audit_log', { to: before });
+        expect(parseToolResultText<AuditLog>(extractToolResult(byTime)).entries).toHaveLength(0);
+      });
+    });
+
+    it('should page through the log with the returned cursor', async () => {
+      await withServer(async server => {
+        await server.callTool('update_task', { taskId: 'task-1', priority: 'low' });
+        await server.callTool('update_tag', { tagId: 'tag-1', color: '#000000' });
+
+        const first = parseToolResultText<AuditLog>(
+          extractToolResult(await server.callTool('query_audit_log', { limit: 1 }))
+        );
+        expect(first.entries.map(entry => entry.tool)).toEqual(['update_task']);
+        expect(first.nextCursor).toBeDefined();
+
+        const second = parseToolResultText<AuditLog>(
+          extractToolResult(
+            await server.callTool('query_audit_log', { limit: 1, cursor: first.nextCursor })
+          )
+        );
+        expect(second.entries.map(entry => entry.tool)).toEqual(['update_tag']);
+      });
+    });
+
+    it('should not record calls that only read', async () => {
+      await withServer(async server => {
+        await server.callTool('list_tasks', {});
+        await server.callTool('get_task', { taskId: 'task-1' });
+
+        const result = await server.callTool('query_audit_log', {});
+        expect(parseToolResultText<AuditLog>(extractToolResult(result)).entries).toEqual([]);
+      });
+    });
+
+    it('should return an error for an id without an entity', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('query_audit_log', { id: 'task-1' });
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toBe('entity is required when id is given');
+      });
+    });
+  });
+
+  describe('export_audit_log', () => {
+    it('should export one JSON entry per line', async () => {
+      await withServer(async server => {
+        await server.callTool('update_task', { taskId: 'task-1', priority: 'low' });
+        await server.callTool('update_tag', { tagId: 'tag-1', color: '#000000' });
+
+        const result = await server.callTool('export_audit_log', {});
+        const lines = getToolResultText(extractToolResult(result)).split('\n');
+        const tools = lines.map(line => (JSON.parse(line) as AuditEntry).tool);
+        expect(tools).toEqual(['update_task', 'update_tag']);
+      });
+    });
+
+    it('should export a page at a time, with the next cursor in the structured content', async () => {
+      await withServer(async server => {
+        await server.callTool('update_task', { taskId: 'task-1', priority: 'low' });
+        await server.callTool('update_tag', { tagId: 'tag-1', color: '#000000' });
+
+        const result = extractToolResult(await server.callTool('export_audit_log', { limit: 1 }));
+        expect((JSON.parse(getToolResultText(result)) as AuditEntry).tool).toBe('update_task');
+        expect(result.structuredContent).toMatchObject({ nextCursor: expect.any(String) });
+      });
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import type { Project, Task, User } from '../../../src/types.js';
+import {
+  extractToolResult,
+  getToolResultText,
+  parseToolResultText,
+  withServer,
+  type PersistentServer,
+} from '../helpers/inspector-cli.js';
+
+const SERVER_COMMAND = 'node dist/index.js';
+
+describe('Authorization', () => {
+  let dir: string;
+  let env: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'task-manager-authorization-'));
+    env = { TASK_MANAGER_STORAGE: 'json', TASK_MANAGER_DATA_PATH: join(dir, 'store.json') };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Run a test with the server acting for the given user, on the shared store
+  const withActor = <T>(actor: string, testFn: (server: PersistentServer) => Promise<T>) =>
+    withServer(testFn, SERVER_COMMAND, { env: { ...env, TASK_MANAGER_ACTOR: actor } });
+
+  it('should let viewers read but not change anything', async () => {
+    const viewer = await withActor('user-1', async server => {
+      const result = await server.callTool('create_user', {
+        name: 'Vera',
+        email: 'vera@example.com',
+        role: 'viewer',
+      });
+      return parseToolResultText<User>(extractToolResult(result));
+    });
+
+    await withActor(viewer.id, async server => {
+      const list = await server.callTool('list_tasks', {});
+      expect(extractToolResult(list).isError).toBeFalsy();
+
+      const update = await server.callTool('update_task', { taskId: 'task-1', status: 'done' });
+      const toolResult = extractToolResult(update);
+      expect(toolResult.isError).toBe(true);
+      expect(getToolResultText(toolResult)).toBe(
+        `Permission denied: viewer "${viewer.id}" cannot call update_task`
+      );
+    });
+  });
+
+  it('should let users edit tasks only in projects they belong to', async () => {
+    const project = await withActor('user-1', async server => {
+      const result = await server.callTool('create_project', {
+        name: 'Private',
+        description: 'Owned by Alice alone',
+        ownerId: 'user-1',
+        status: 'active',
+      });
+      return parseToolResultText<Project>(extractToolResult(result));
+    });
+
+    await withActor('user-2', async server => {
+      const update = await server.callTool('update_task', { taskId: 'task-1', priority: 'low' });
+      expect(extractToolResult(update).isError).toBeFalsy();
+
+      const create = await server.callTool('create_task', {
+        title: 'Sneak in',
+        description: 'Not my project',
+        projectId: project.id,
+        status: 'todo',
+        priority: 'low',
+      });
+      expect(getToolResultText(extractToolResult(create))).toBe(
+        'Permission denied: user "user-2" cannot call create_task'
+      );
+
+      const remove = await server.callTool('delete_project', { projectId: 'project-1' });
+      expect(getToolResultText(extractToolResult(remove))).toBe(
+        'Permission denied: user "user-2" cannot call delete_project'
+      );
+    });
+  });
+
+  it('should let users batch the changes they could make one by one', async () => {
+    await withActor('user-2', async server => {
+      const allowed = await server.callTool('run_transaction', {
+        operations: [{ tool: 'update_task', arguments: { taskId: 'task-1', priority: 'low' } }],
+      });
+      expect(extractToolResult(allowed).isError).toBeFalsy();
+
+      const denied = await server.callTool('run_transaction', {
+        operations: [
+          { tool: 'update_task', arguments: { taskId: 'task-1', priority: 'urgent' } },
+          { tool: 'delete_project', arguments: { projectId: 'project-1' } },
+        ],
+      });
+      expect(getToolResultText(extractToolResult(denied))).toBe(
+        'Transaction rolled back: operation 1 (delete_project) failed: ' +
+          'Permission denied: user "user-2" cannot call delete_project'
+      );
+
+      const task = await server.callTool('get_task', { taskId: 'task-1' });
+      expect(parseToolResultText<Task>(extractToolResult(task)).priority).toBe('low');
+    });
+  });
+
+  it('should only let anonymous sessions read unless the server is unrestricted', async () => {
+    await withServer(
+      async server => {
+        const list = await server.callTool('list_users', {});
+        expect(extractToolResult(list).isError).toBeFalsy();
+
+        const clear = extractToolResult(await server.callTool('clear_all_users', {}));
+        expect(clear.isError).toBe(true);
+        expect(getToolResultText(clear)).toBe(
+          'Permission denied: anonymous sessions cannot call clear_all_users'
+        );
+      },
+      SERVER_COMMAND,
+      { env: { ...env, TASK_MANAGER_UNRESTRICTED: '' } }
+    );
+
+    await withServer(
+      async server => {
+        const update = await server.callTool('update_task', { taskId: 'task-1', status: 'done' });
+        expect(extractToolResult(update).isError).toBeFalsy();
+      },
+      SERVER_COMMAND,
+      { env }
+    );
+  });
+
+  it('should deny every call for an unknown acting user', async () => {
+    await withActor('user-404', async server => {
+      const result = await server.callTool('list_tasks', {});
+      const toolResult = extractToolResult(result);
+      expect(toolResult.isError).toBe(true);
+      expect(getToolResultText(toolResult)).toBe('Permission denied: unknown user "user-404"');
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { spawn, type ChildProcess } from 'child_process';
+import { UNRESTRICTED_ENV } from './inspector-cli.js';
+
+/**
+ * Start the built server on a free port with the given transport
+ * Resolves with the URL it reports once it is listening
+ */
+export async function startListeningServer(
+  transport: 'http' | 'sse',
+  env: NodeJS.ProcessEnv = {}
+): Promise<{ proc: ChildProcess; url: URL }> {
+  const proc = spawn('node', ['dist/index.js', '--transport', transport, '--port', '0'], {
+    stdio: ['ignore', 'ignore', 'pipe'],
+    env: { ...process.env, ...UNRESTRICTED_ENV, ...env },
+  });
+  const url = await new Promise<URL>((resolve, reject) => {
+    let output = '';
+    const timeout = setTimeout(() => {
+      proc.kill();
+      reject(new Error(`Server did not start: ${output}`));
+    }, 5000);
+    proc.stderr?.on('data', (data: Buffer) => {
+      output += data.toString();
+      const match = /listening on (\S+)/.exec(output);
+      if (match?.[1]) {
+        clearTimeout(timeout);
+        resolve(new URL(match[1]));
+      }
+    });
+  });
+  return { proc, url };
+}
+
+/**
+ * Call a tool through an SDK client and parse its JSON result
+ * Error results are thrown with their text as the message
+ */
+export async function callTool<T>(
+  client: Client,
+  name: string,
+  args: Record<string, unknown>
+): Promise<T> {
+  const result = (await client.callTool({ name, arguments: args })) as {
+    content: Array<{ type: string; text?: string }>;
+    isError?: boolean;
+  };
+  const text = result.content[0]?.text ?? '';
+  if (result.isError) {
+    throw new Error(text);
+  }
+  return JSON.parse(text) as T;
+}
@@ -3,6 +3,20 @@ import { spawn, type ChildProcess } from 'child_process';
 // Default server command for integration tests
 const DEFAULT_SERVER_COMMAND = 'node dist/index.js';
 
+/**
+ * Arguments of clear_all_users that delete everything the users own or wrote along with them
+ */
+export const CLEAR_EVERYTHING = {
+  projectOwner: { action: 'cascade' },
+  commentAuthor: { action: 'cascade' },
+};
+
+/**
+ * Environment that lets test servers' anonymous sessions call every tool
+ * Tests of the restrictions override it with TASK_MANAGER_UNRESTRICTED: ''
+ */
+export const UNRESTRICTED_ENV: NodeJS.ProcessEnv = { TASK_MANAGER_UNRESTRICTED: 'true' };
+
 export interface InspectorCliResult {
   success: boolean;
   output: string;
@@ -12,6 +26,7 @@ export interface InspectorCliResult {
 
 export interface ToolResult {
   content: Array<{ type: string; text: string }>;
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
@@ -35,6 +50,7 @@ export interface ResourcesListResult {
     description?: string;
     mimeType?: string;
   }>;
+  nextCursor?: string;
 }
 
 export interface PromptResult {
@@ -186,15 +202,26 @@ export function extractPromptResult(result: InspectorCliResult): PromptResult {
 }
 
 
+/**
+ * Options for starting a PersistentServer
+ * - env: variables added to the server's environment
+ * - capabilities: client capabilities sent in the initialize request
+ */
+export interface ServerOptions {
+  env?: NodeJS.ProcessEnv;
+  capabilities?: Record<string, unknown>;
+}
+
 /**
  * Helper function to run a test with a PersistentServer
  * Automatically handles server lifecycle (start, ready, stop)
  */
 export async function withServer<T>(
   testFn: (server: PersistentServer) => Promise<T>,
-  serverCommand: string = DEFAULT_SERVER_COMMAND
+  serverCommand: string = DEFAULT_SERVER_COMMAND,
+  options: ServerOptions = {}
 ): Promise<T> {
-  const server = new PersistentServer(serverCommand);
+  const server = new PersistentServer(serverCommand, options);
   try {
     await server.ready();
     return await testFn(server);
@@ -228,7 +255,10 @@ export class PersistentServer {
     timeout: NodeJS.Timeout;
   }> = [];
 
-  constructor(private serverCommand: string = DEFAULT_SERVER_COMMAND) {
+  constructor(
+    private serverCommand: string = DEFAULT_SERVER_COMMAND,
+    private options: ServerOptions = {}
+  ) {
     this.readyPromise = this.start();
   }
 
@@ -256,6 +286,7 @@ export class PersistentServer {
       this.proc = spawn(cmd, args, {
       shell: false,
       stdio: ['pipe', 'pipe', 'pipe'],
+      env: { ...process.env, ...UNRESTRICTED_ENV, ...this.options.env },
     });
 
       if (!this.proc.stdout || !this.proc.stderr) {
@@ -297,7 +328,7 @@ export class PersistentServer {
             method: 'initialize',
             params: {
               protocolVersion: '2024-11-05',
-              capabilities: {},
+              capabilities: this.options.capabilities ?? {},
               clientInfo: {
                 name: 'test-client',
                 version: '1.0.0',
@@ -378,6 +409,10 @@ export class PersistentServer {
         
         // Check if this is the initialize response (id: -1) indicating server is ready
         if (message.id === -1 && message.result && !this.isReady) {
+          // Complete the handshake before any other request is sent
+          this.proc?.stdin?.write(
+            JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }) + '\n'
+          );
           this.isReady = true;
           // Don't process this as a regular request, it's just for readiness check
           continue;
@@ -477,10 +512,10 @@ export class PersistentServer {
   }
 
   /**
-   * List resources on the persistent server
+   * List resources on the persistent server, from the page at the cursor when given
    */
-  async listResources(): Promise<InspectorCliResult> {
-    return this.sendRequest('resources/list', {});
+  async listResources(cursor?: string): Promise<InspectorCliResult> {
+    return this.sendRequest('resources/list', cursor === undefined ? {} : { cursor });
   }
 
   /**
@@ -0,0 +1,98 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { ChildProcess } from 'child_process';
+import { afterEach, describe, it, expect } from 'vitest';
+import type { Comment, Task } from '../../../src/types.js';
+import { callTool, startListeningServer } from '../helpers/http-server.js';
+
+async function connect(
+  url: URL,
+  token?: string,
+  capabilities: Record<string, unknown> = {}
+): Promise<Client> {
+  const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities });
+  const requestInit = token ? { headers: { Authorization: `Bearer ${token}` } } : undefined;
+  await client.connect(new StreamableHTTPClientTransport(url, requestInit ? { requestInit } : {}));
+  return client;
+}
+
+describe('HTTP Transport', () => {
+  let proc: ChildProcess | undefined;
+  const clients: Client[] = [];
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.close()));
+    proc?.kill();
+    proc = undefined;
+  });
+
+  it('should share one database between sessions', async () => {
+    const server = await startListeningServer('http');
+    proc = server.proc;
+    const first = await connect(server.url);
+    const second = await connect(server.url);
+    clients.push(first, second);
+
+    await callTool(first, 'update_task', { taskId: 'task-1', status: 'done' });
+    const task = await callTool<Task>(second, 'get_task', { taskId: 'task-1' });
+    expect(task.status).toBe('done');
+  });
+
+  it('should bind each session to the user of its bearer token', async () => {
+    const server = await startListeningServer('http', {
+      TASK_MANAGER_AUTH_TOKENS: 'alice-token=user-1,bob-token=user-2',
+    });
+    proc = server.proc;
+    const bob = await connect(server.url, 'bob-token');
+    clients.push(bob);
+
+    const comment = await callTool<Comment>(bob, 'create_comment', {
+      taskId: 'task-2',
+      content: 'Fixed in the next build',
+    });
+    expect(comment.userId).toBe('user-2');
+
+    await expect(connect(server.url, 'wrong-token')).rejects.toThrow();
+  });
+
+  it('should not let a client without a token name the user it acts for', async () => {
+    const server = await startListeningServer('http', { TASK_MANAGER_UNRESTRICTED: '' });
+    proc = server.proc;
+    const client = await connect(server.url, undefined, {
+      experimental: { taskManager: { userId: 'user-1' } },
+    });
+    clients.push(client);
+
+    await expect(
+      callTool(client, 'update_task', { taskId: 'task-1', status: 'done' })
+    ).rejects.toThrow('Permission denied: anonymous sessions cannot call update_task');
+  });
+
+  it('should not act for TASK_MANAGER_ACTOR without a token', async () => {
+    const server = await startListeningServer('http', {
+      TASK_MANAGER_ACTOR: 'user-1',
+      TASK_MANAGER_UNRESTRICTED: '',
+    });
+    proc = server.proc;
+    const client = await connect(server.url);
+    clients.push(client);
+
+    await expect(
+      callTool(client, 'update_task', { taskId: 'task-1', status: 'done' })
+    ).rejects.toThrow('Permission denied: anonymous sessions cannot call update_task');
+  });
+
+  it('should reject requests outside a session', async () => {
+    const server = await startListeningServer('http');
+    proc = server.proc;
+    const response = await fetch(server.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(400);
+  });
+});
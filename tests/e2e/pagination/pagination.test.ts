@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import type { Task } from '../../../src/types.js';
+import {
+  extractResourceResult,
+  extractResourcesList,
+  extractToolResult,
+  getToolResultText,
+  parseToolResultText,
+  withServer,
+  type PersistentServer,
+} from '../helpers/inspector-cli.js';
+
+interface TaskPage {
+  tasks: Task[];
+  nextCursor?: string;
+}
+
+// Create tasks in one transaction so tests can page through more records than the seed data
+async function createTasks(server: PersistentServer, count: number): Promise<void> {
+  const result = await server.callTool('run_transaction', {
+    operations: Array.from({ length: count }, (_, index) => ({
+      tool: 'create_task',
+      arguments: {
+        title: `Task ${String(index)}`,
+        description: 'Paging test',
+        projectId: 'project-1',
+        status: 'todo',
+        priority: 'low',
+      },
+    })),
+  });
+  expect(extractToolResult(result).isError).toBeFalsy();
+}
+
+describe('Pagination', () => {
+  describe('list tools', () => {
+    it('should page through tasks with the returned cursor', async () => {
+      await withServer(async server => {
+        const first = await server.callTool('list_tasks', { limit: 1 });
+        const firstPage = parseToolResultText<TaskPage>(extractToolResult(first));
+        expect(firstPage.tasks.map(task => task.id)).toEqual(['task-1']);
+        expect(firstPage.nextCursor).toBeDefined();
+
+        const second = await server.callTool('list_tasks', {
+          limit: 1,
+          cursor: firstPage.nextCursor,
+        });
+        const secondToolResult = extractToolResult(second);
+        const secondPage = parseToolResultText<TaskPage>(secondToolResult);
+        expect(secondPage.tasks.map(task => task.id)).toEqual(['task-2']);
+        expect(secondPage.nextCursor).toBeUndefined();
+        expect(secondToolResult.structuredContent).toEqual(secondPage);
+      });
+    });
+
+    it('should return at most the default page size', async () => {
+      await withServer(async server => {
+        await createTasks(server, 100);
+
+        const result = await server.callTool('get_tasks_by_project', { projectId: 'project-1' });
+        const page = parseToolResultText<TaskPage>(extractToolResult(result));
+        expect(page.tasks).toHaveLength(100);
+
+        const rest = await server.callTool('get_tasks_by_project', {
+          projectId: 'project-1',
+          cursor: page.nextCursor,
+        });
+        const restPage = parseToolResultText<TaskPage>(extractToolResult(rest));
+        expect(restPage.tasks).toHaveLength(2);
+        expect(restPage.nextCursor).toBeUndefined();
+      });
+    });
+
+    it('should reject a cursor it did not issue', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('list_users', { cursor: 'not-a-cursor' });
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toContain('Invalid cursor');
+      });
+    });
+  });
+
+  describe('resources/list', () => {
+    it('should page through every resource with nextCursor', async () => {
+      await withServer(async server => {
+        await createTasks(server, 100);
+
+        const first = extractResourcesList(await server.listResources());
+        expect(first.resources).toHaveLength(100);
+        expect(first.nextCursor).toBeDefined();
+
+        const second = extractResourcesList(await server.listResources(first.nextCursor));
+        expect(second.nextCursor).toBeUndefined();
+
+        const uris = [...first.resources, ...second.resources].map(resource => resource.uri);
+        expect(new Set(uris).size).toBe(uris.length);
+        // 6 collections, 2 users, 1 project, 102 tasks, 3 tags and 1 comment
+        expect(uris).toHaveLength(115);
+        expect(uris).toContain('task-manager://tasks/task-2');
+        expect(uris).toContain('comment-manager://comments/comment-1');
+      });
+    });
+
+    it('should read the task list a page at a time', async () => {
+      await withServer(async server => {
+        await createTasks(server, 100);
+        const readPage = async (uri: string) => {
+          const result = extractResourceResult(await server.readResource(uri));
+          return JSON.parse(result.contents[0]?.text ?? '') as TaskPage;
+        };
+
+        const first = await readPage('task-manager://tasks');
+        expect(first.tasks).toHaveLength(100);
+        expect(first.nextCursor).toBeDefined();
+
+        const second = await readPage(`task-manager://tasks?cursor=${first.nextCursor ?? ''}`);
+        expect(second.tasks.map(task => task.title)).toEqual(['Task 98', 'Task 99']);
+        expect(second.nextCursor).toBeUndefined();
+      });
+    });
+
+    it('should reject a cursor it did not issue', async () => {
+      await withServer(async server => {
+        const result = await server.listResources('not-a-cursor');
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('Invalid cursor');
+      });
+    });
+  });
+});
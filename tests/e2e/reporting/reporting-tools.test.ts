@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import type { Burndown, Sprint, Velocity } from '../../../src/types.js';
+import {
+  extractPromptResult,
+  extractToolResult,
+  getToolResultText,
+  parseToolResultText,
+  type PersistentServer,
+  withServer,
+} from '../helpers/inspector-cli.js';
+
+/** Today as a YYYY-MM-DD date */
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** Create a sprint of project-1 that runs from today */
+async function createSprint(server: PersistentServer, name: string): Promise<Sprint> {
+  return parseToolResultText<Sprint>(
+    extractToolResult(
+      await server.callTool('create_sprint', {
+        projectId: 'project-1',
+        name,
+        startDate: today(),
+        endDate: today(),
+      })
+    )
+  );
+}
+
+describe('Reporting Tools', () => {
+  describe('get_project_burndown', () => {
+    it('should report the last two weeks up to today', async () => {
+      await withServer(async server => {
+        await server.callTool('update_task', { taskId: 'task-1', status: 'done' });
+
+        const burndown = parseToolResultText<Burndown>(
+          extractToolResult(
+            await server.callTool('get_project_burndown', { projectId: 'project-1' })
+          )
+        );
+
+        expect(burndown.sprintId).toBeNull();
+        expect(burndown.points).toHaveLength(14);
+        expect(burndown.points[13]).toEqual({ date: today(), remaining: 1, completed: 1 });
+      });
+    });
+
+    it('should refuse a range that ends before it starts', async () => {
+      await withServer(async server => {
+        const result = extractToolResult(
+          await server.callTool('get_project_burndown', {
+            projectId: 'project-1',
+            from: '2024-03-14',
+            to: '2024-03-01',
+          })
+        );
+
+        expect(result.isError).toBe(true);
+        expect(getToolResultText(result)).toBe('Invalid range: from is after to');
+      });
+    });
+  });
+
+  describe('get_sprint_burndown and get_velocity', () => {
+    it('should report a sprint and the velocity of its project once closed', async () => {
+      await withServer(async server => {
+        const sprint = await createSprint(server, 'Sprint 1');
+        await server.callTool('add_tasks_to_sprint', {
+          sprintId: sprint.id,
+          taskIds: ['task-1', 'task-2'],
+        });
+        await server.callTool('update_task', { taskId: 'task-1', status: 'done' });
+
+        const burndown = parseToolResultText<Burndown>(
+          extractToolResult(await server.callTool('get_sprint_burndown', { sprintId: sprint.id }))
+        );
+        expect(burndown.points).toEqual([{ date: today(), remaining: 1, completed: 1 }]);
+
+        await server.callTool('close_sprint', { sprintId: sprint.id });
+        const velocity = parseToolResultText<Velocity>(
+          extractToolResult(await server.callTool('get_velocity', { projectId: 'project-1' }))
+        );
+        expect(velocity.iterations).toMatchObject([
+          { sprintId: sprint.id, name: 'Sprint 1', completed: 1 },
+        ]);
+        expect(velocity.average).toBe(1);
+      });
+    });
+  });
+
+  describe('project_burndown prompt', () => {
+    it('should chart the burndown with its daily counts', async () => {
+      await withServer(async server => {
+        const prompt = await server.getPrompt('project_burndown', { projectId: 'project-1' });
+        const text = extractPromptResult(prompt).messages[0]?.content.text;
+
+        expect(text).toContain('Burndown of Web Application (project-1):');
+        expect(text).toContain('# remaining, o completed');
+        expect(text).toContain(`- ${today()}: 2 remaining, 0 completed`);
+        expect(text).toContain('Velocity: no closed sprints yet');
+      });
+    });
+  });
+});
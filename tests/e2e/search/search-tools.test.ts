@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type { SearchResult } from '../../../src/types.js';
+import {
+  extractToolResult,
+  getToolResultText,
+  parseToolResultText,
+  withServer,
+} from '../helpers/inspector-cli.js';
+
+interface SearchPage {
+  results: SearchResult[];
+  nextCursor?: string;
+}
+
+describe('Search Tools', () => {
+  describe('search', () => {
+    it('should rank tasks, comments and projects with highlighted snippets', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('search', { query: 'designing' });
+        const toolResult = extractToolResult(result);
+        const page = parseToolResultText<SearchPage>(toolResult);
+        expect(page.results.map(match => `${match.entity}:${match.id}`)).toEqual([
+          'task:task-1',
+          'comment:comment-1',
+        ]);
+        expect(page.results[0]).toMatchObject({
+          field: 'title',
+          snippet: '**Design** user interface',
+        });
+        expect(toolResult.structuredContent).toEqual(page);
+      });
+    });
+
+    it('should only search the requested entity types, a page at a time', async () => {
+      await withServer(async server => {
+        const projects = await server.callTool('search', {
+          query: 'design web',
+          entities: ['project'],
+        });
+        const projectPage = parseToolResultText<SearchPage>(extractToolResult(projects));
+        expect(projectPage.results.map(match => match.id)).toEqual(['project-1']);
+
+        const first = await server.callTool('search', { query: 'design', limit: 1 });
+        const firstPage = parseToolResultText<SearchPage>(extractToolResult(first));
+        expect(firstPage.results.map(match => match.id)).toEqual(['task-1']);
+
+        const second = await server.callTool('search', {
+          query: 'design',
+          limit: 1,
+          cursor: firstPage.nextCursor,
+        });
+        const secondPage = parseToolResultText<SearchPage>(extractToolResult(second));
+        expect(secondPage.results.map(match => match.id)).toEqual(['comment-1']);
+        expect(secondPage.nextCursor).toBeUndefined();
+      });
+    });
+
+    it('should find records as soon as they change', async () => {
+      await withServer(async server => {
+        const before = await server.callTool('search', { query: 'password' });
+        expect(parseToolResultText<SearchPage>(extractToolResult(before)).results).toEqual([]);
+
+        await server.callTool('update_task', {
+          taskId: 'task-2',
+          description: 'Password reset emails never arrive',
+        });
+
+        const result = await server.callTool('search', { query: 'password' });
+        const page = parseToolResultText<SearchPage>(extractToolResult(result));
+        expect(page.results).toMatchObject([
+          {
+            entity: 'task',
+            id: 'task-2',
+            snippet: '**Password** reset emails never arrive',
+          },
+        ]);
+      });
+    });
+
+    it('should reject an empty query', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('search', { query: '' });
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toContain('query');
+      });
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { createServer } from '../../src/mcp/server.js';
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerAllEntities } from '../../src/mcp/entities/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
 describe('MCP Server', () => {
   let mcpServer: McpServer;
@@ -38,5 +39,16 @@ describe('MCP Server', () => {
       // Verify prompts are registered by checking internal structure
       expect(Object.keys(registeredPrompts).length).toBeGreaterThan(0);
     });
+
+    it('should declare an output schema for every entity tool', () => {
+      const entityServer = new McpServer({ name: 'entities', version: '1.0.0' });
+      registerAllEntities(entityServer);
+      const registeredTools = entityServer['_registeredTools'];
+      const withoutOutputSchema = Object.entries(registeredTools)
+        .filter(([, tool]) => !tool.outputSchema)
+        .map(([name]) => name);
+      expect(Object.keys(registeredTools).length).toBeGreaterThan(0);
+      expect(withoutOutputSchema).toEqual([]);
+    });
   });
 });
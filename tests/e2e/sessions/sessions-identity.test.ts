@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type { Comment, Project, Revision, Task } from '../../../src/types.js';
+import {
+  extractToolResult,
+  getToolResultText,
+  parseToolResultText,
+  withServer,
+} from '../helpers/inspector-cli.js';
+
+const SERVER_COMMAND = 'node dist/index.js';
+
+// Client capability naming the user a session acts for
+const actingAs = (userId: string) => ({ experimental: { taskManager: { userId } } });
+
+describe('Session Identity', () => {
+  it('should fill in authorship from the user the client names', async () => {
+    await withServer(
+      async server => {
+        const comment = await server.callTool('create_comment', {
+          taskId: 'task-2',
+          content: 'Looking into it',
+        });
+        expect(parseToolResultText<Comment>(extractToolResult(comment)).userId).toBe('user-2');
+
+        const task = await server.callTool('create_task', {
+          title: 'Add a regression test',
+          description: 'Cover the login fix',
+          projectId: 'project-1',
+          status: 'todo',
+          priority: 'medium',
+        });
+        expect(parseToolResultText<Task>(extractToolResult(task)).createdBy).toBe('user-2');
+
+        const { id } = parseToolResultText<Task>(extractToolResult(task));
+        const history = await server.callTool('get_entity_history', { entity: 'task', id });
+        const [created] = parseToolResultText<Revision[]>(extractToolResult(history));
+        expect(created?.actor).toBe('user-2');
+      },
+      SERVER_COMMAND,
+      { capabilities: actingAs('user-2') }
+    );
+  });
+
+  it('should not let a comment be written as another user', async () => {
+    await withServer(
+      async server => {
+        const result = await server.callTool('create_comment', {
+          taskId: 'task-2',
+          userId: 'user-1',
+          content: 'Signed, Alice',
+        });
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toBe(
+          'Invalid userId: comments are written as the acting user "user-2"'
+        );
+      },
+      SERVER_COMMAND,
+      { capabilities: actingAs('user-2') }
+    );
+  });
+
+  it('should prefer the user the server was started for over the one the client names', async () => {
+    await withServer(
+      async server => {
+        const result = await server.callTool('create_project', {
+          name: 'Roadmap',
+          description: 'Next quarter',
+          status: 'active',
+        });
+        expect(parseToolResultText<Project>(extractToolResult(result)).ownerId).toBe('user-1');
+      },
+      SERVER_COMMAND,
+      { env: { TASK_MANAGER_ACTOR: 'user-1' }, capabilities: actingAs('user-2') }
+    );
+  });
+
+  it('should require an author when no user is acting', async () => {
+    await withServer(async server => {
+      const result = await server.callTool('create_comment', {
+        taskId: 'task-1',
+        content: 'Who wrote this?',
+      });
+      expect(getToolResultText(extractToolResult(result))).toBe(
+        'Invalid userId: required when no user is acting'
+      );
+    });
+  });
+});
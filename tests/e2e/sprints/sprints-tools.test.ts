@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import type { Sprint, SprintClosure, Task } from '../../../src/types.js';
+import {
+  extractPromptResult,
+  extractResourceResult,
+  extractToolResult,
+  getToolResultText,
+  parseToolResultText,
+  type PersistentServer,
+  withServer,
+} from '../helpers/inspector-cli.js';
+
+/** Create a two-week sprint of project-1 */
+async function createSprint(
+  server: PersistentServer,
+  name: string,
+  capacity?: number
+): Promise<Sprint> {
+  return parseToolResultText<Sprint>(
+    extractToolResult(
+      await server.callTool('create_sprint', {
+        projectId: 'project-1',
+        name,
+        startDate: '2024-03-01',
+        endDate: '2024-03-14',
+        ...(capacity !== undefined && { capacity }),
+      })
+    )
+  );
+}
+
+describe('Sprint Tools', () => {
+  describe('create_sprint', () => {
+    it('should create a planned sprint', async () => {
+      await withServer(async server => {
+        const sprint = await createSprint(server, 'Sprint 1');
+
+        expect(sprint).toMatchObject({
+          projectId: 'project-1',
+          name: 'Sprint 1',
+          goal: '',
+          kind: 'sprint',
+          capacity: null,
+          status: 'planned',
+          closedAt: null,
+        });
+      });
+    });
+
+    it('should refuse a sprint that ends before it starts', async () => {
+      await withServer(async server => {
+        const result = extractToolResult(
+          await server.callTool('create_sprint', {
+            projectId: 'project-1',
+            name: 'Backwards',
+            startDate: '2024-03-14',
+            endDate: '2024-03-01',
+          })
+        );
+
+        expect(result.isError).toBe(true);
+        expect(getToolResultText(result)).toBe(
+          'Invalid endDate: a sprint cannot end before it starts'
+        );
+      });
+    });
+  });
+
+  describe('sprint membership', () => {
+    it('should plan tasks into a sprint up to its capacity', async () => {
+      await withServer(async server => {
+        const sprint = await createSprint(server, 'Sprint 1', 1);
+
+        const full = extractToolResult(
+          await server.callTool('add_tasks_to_sprint', {
+            sprintId: sprint.id,
+            taskIds: ['task-1', 'task-2'],
+          })
+        );
+        expect(full.isError).toBe(true);
+        expect(getToolResultText(full)).toBe(
+          `Invalid sprintId: sprint "${sprint.id}" is full; it holds at most 1 tasks`
+        );
+
+        await server.callTool('add_tasks_to_sprint', { sprintId: sprint.id, taskIds: ['task-1'] });
+        const tasks = parseToolResultText<{ tasks: Task[] }>(
+          extractToolResult(await server.callTool('get_sprint_tasks', { sprintId: sprint.id }))
+        );
+        expect(tasks.tasks.map(task => task.id)).toEqual(['task-1']);
+      });
+    });
+
+    it('should only remove tasks that are in the sprint', async () => {
+      await withServer(async server => {
+        const sprint = await createSprint(server, 'Sprint 1');
+        await server.callTool('add_tasks_to_sprint', { sprintId: sprint.id, taskIds: ['task-1'] });
+
+        const outsider = extractToolResult(
+          await server.callTool('remove_tasks_from_sprint', {
+            sprintId: sprint.id,
+            taskIds: ['task-2'],
+          })
+        );
+        expect(outsider.isError).toBe(true);
+        expect(getToolResultText(outsider)).toBe(`Task "task-2" is not in sprint "${sprint.id}"`);
+
+        const removed = parseToolResultText<{ tasks: Task[] }>(
+          extractToolResult(
+            await server.callTool('remove_tasks_from_sprint', {
+              sprintId: sprint.id,
+              taskIds: ['task-1'],
+            })
+          )
+        );
+        expect(removed.tasks[0]?.sprintId).toBeNull();
+      });
+    });
+  });
+
+  describe('close_sprint', () => {
+    it('should carry unfinished tasks over to the next sprint', async () => {
+      await withServer(async server => {
+        const sprint = await createSprint(server, 'Sprint 1');
+        const next = await createSprint(server, 'Sprint 2');
+        await server.callTool('add_tasks_to_sprint', {
+          sprintId: sprint.id,
+          taskIds: ['task-1', 'task-2'],
+        });
+        await server.callTool('update_task', { taskId: 'task-1', status: 'done' });
+
+        const closure = parseToolResultText<SprintClosure>(
+          extractToolResult(
+            await server.callTool('close_sprint', { sprintId: sprint.id, carryOverTo: next.id })
+          )
+        );
+
+        expect(closure).toMatchObject({
+          sprint: { id: sprint.id, status: 'closed' },
+          completed: ['task-1'],
+          carriedOver: ['task-2'],
+          carriedOverTo: next.id,
+        });
+        const task = parseToolResultText<Task>(
+          extractToolResult(await server.callTool('get_task', { taskId: 'task-2' }))
+        );
+        expect(task.sprintId).toBe(next.id);
+      });
+    });
+
+    it('should keep the completed tasks of a closed sprint in it', async () => {
+      await withServer(async server => {
+        const sprint = await createSprint(server, 'Sprint 1');
+        await server.callTool('add_tasks_to_sprint', { sprintId: sprint.id, taskIds: ['task-1'] });
+        await server.callTool('update_task', { taskId: 'task-1', status: 'done' });
+        await server.callTool('close_sprint', { sprintId: sprint.id });
+
+        const result = extractToolResult(
+          await server.callTool('remove_tasks_from_sprint', {
+            sprintId: sprint.id,
+            taskIds: ['task-1'],
+          })
+        );
+        expect(result.isError).toBe(true);
+        expect(getToolResultText(result)).toBe(
+          `Invalid sprintId: sprint "${sprint.id}" is closed; its tasks cannot be moved out of it`
+        );
+      });
+    });
+  });
+
+  describe('resources and prompts', () => {
+    it('should show a sprint with its tasks', async () => {
+      await withServer(async server => {
+        const sprint = await createSprint(server, 'Sprint 1', 3);
+        await server.callTool('add_tasks_to_sprint', { sprintId: sprint.id, taskIds: ['task-1'] });
+
+        const resource = extractResourceResult(
+          await server.readResource(`sprint-manager://sprints/${sprint.id}`)
+        );
+        expect(JSON.parse(resource.contents[0]?.text ?? '{}')).toMatchObject({
+          id: sprint.id,
+          name: 'Sprint 1',
+        });
+
+        const prompt = await server.getPrompt('get_sprint_details', { sprintId: sprint.id });
+        const text = extractPromptResult(prompt).messages[0]?.content.text;
+        expect(text).toContain('Capacity: 1 of 3 task(s) planned');
+        expect(text).toContain('- [in-progress] Design user interface (task-1)');
+      });
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import type { ChildProcess } from 'child_process';
+import { afterEach, describe, it, expect } from 'vitest';
+import type { Task } from '../../../src/types.js';
+import { callTool, startListeningServer } from '../helpers/http-server.js';
+
+async function connect(url: URL): Promise<Client> {
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(new SSEClientTransport(url));
+  return client;
+}
+
+describe('SSE Transport', () => {
+  let proc: ChildProcess | undefined;
+
+  afterEach(() => {
+    proc?.kill();
+    proc = undefined;
+  });
+
+  it('should share one database between clients and outlive a disconnecting one', async () => {
+    const server = await startListeningServer('sse');
+    proc = server.proc;
+    const first = await connect(server.url);
+    const second = await connect(server.url);
+
+    await callTool(first, 'update_task', { taskId: 'task-2', status: 'review' });
+    await first.close();
+
+    const task = await callTool<Task>(second, 'get_task', { taskId: 'task-2' });
+    expect(task.status).toBe('review');
+    await second.close();
+  });
+
+  it('should ping open event streams to keep them alive', async () => {
+    const server = await startListeningServer('sse', { TASK_MANAGER_KEEP_ALIVE_INTERVAL: '20' });
+    proc = server.proc;
+    const controller = new AbortController();
+    const response = await fetch(server.url, { signal: controller.signal });
+    const reader = response.body?.getReader();
+
+    let received = '';
+    const decoder = new TextDecoder();
+    while (reader && !received.includes(': keep-alive')) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      received += decoder.decode(value);
+    }
+    controller.abort();
+
+    expect(received).toContain('event: endpoint');
+    expect(received).toContain(': keep-alive');
+  });
+});
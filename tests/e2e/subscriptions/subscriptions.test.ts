@@ -0,0 +1,78 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ChildProcess } from 'child_process';
+import { afterEach, describe, it, expect } from 'vitest';
+import { callTool, startListeningServer } from '../helpers/http-server.js';
+
+async function connect(url: URL): Promise<Client> {
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(new StreamableHTTPClientTransport(url));
+  return client;
+}
+
+// Collect the resource notifications a client receives
+function recordNotifications(client: Client): { updated: string[]; listChanged: number } {
+  const received = { updated: [] as string[], listChanged: 0 };
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+    received.updated.push(notification.params.uri);
+  });
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+    received.listChanged++;
+  });
+  return received;
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 100));
+
+describe('Resource Subscriptions', () => {
+  let proc: ChildProcess | undefined;
+  const clients: Client[] = [];
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.close()));
+    proc?.kill();
+    proc = undefined;
+  });
+
+  it('should notify subscribers of changes made by any session', async () => {
+    const server = await startListeningServer('http');
+    proc = server.proc;
+    const watcher = await connect(server.url);
+    const editor = await connect(server.url);
+    clients.push(watcher, editor);
+    const received = recordNotifications(watcher);
+
+    await watcher.subscribeResource({ uri: 'task-manager://tasks/task-1' });
+    await callTool(editor, 'update_task', { taskId: 'task-1', priority: 'low' });
+    await callTool(editor, 'update_task', { taskId: 'task-2', priority: 'low' });
+    await settle();
+
+    expect(received.updated).toEqual(['task-manager://tasks/task-1']);
+    expect(received.listChanged).toBe(0);
+
+    await watcher.unsubscribeResource({ uri: 'task-manager://tasks/task-1' });
+    await callTool(editor, 'update_task', { taskId: 'task-1', priority: 'high' });
+    await settle();
+    expect(received.updated).toHaveLength(1);
+  });
+
+  it('should announce list changes when records are created or deleted', async () => {
+    const server = await startListeningServer('http');
+    proc = server.proc;
+    const client = await connect(server.url);
+    clients.push(client);
+    const received = recordNotifications(client);
+
+    await client.subscribeResource({ uri: 'tag-manager://tags' });
+    await callTool(client, 'create_tag', { name: 'docs', color: '#00ff00' });
+    await callTool(client, 'delete_task', { taskId: 'task-2' });
+    await settle();
+
+    expect(received.updated).toEqual(['tag-manager://tags']);
+    expect(received.listChanged).toBe(2);
+  });
+});
@@ -0,0 +1,591 @@
+import { describe, it, expect } from 'vitest';
+import type { Revision, Task } from '../../../src/types.js';
+import {
+  extractCompletion,
+  extractPromptResult,
+  extractResourceResult,
+  extractToolResult,
+  getToolResultText,
+  parseToolResultText,
+  type PersistentServer,
+  withServer,
+} from '../helpers/inspector-cli.js';
+
+describe('Task Tools', () => {
+  describe('create_task', () => {
+    it('should create a task with valid references', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('create_task', {
+          title: 'Write docs',
+          description: 'Document the API',
+          projectId: 'project-1',
+          assigneeId: 'user-2',
+          status: 'todo',
+          priority: 'medium',
+          tags: ['tag-1'],
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBeFalsy();
+        const task = parseToolResultText<Task>(toolResult);
+        expect(task.projectId).toBe('project-1');
+        expect(task.assigneeId).toBe('user-2');
+      });
+    });
+
+    it('should return an error naming a missing project', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('create_task', {
+          title: 'Lost task',
+          description: 'Points at nothing',
+          projectId: 'project-missing',
+          status: 'todo',
+          priority: 'low',
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toBe(
+          'Invalid projectId: project "project-missing" does not exist'
+        );
+      });
+    });
+
+    it('should return an error naming a missing tag', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('create_task', {
+          title: 'Tagged task',
+          description: 'Unknown tag',
+          projectId: 'project-1',
+          status: 'todo',
+          priority: 'low',
+          tags: ['tag-1', 'tag-missing'],
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toContain('tag "tag-missing"');
+      });
+    });
+  });
+
+  describe('list_tasks', () => {
+    it('should combine filters, sort and return only the requested fields', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('list_tasks', {
+          projectId: 'project-1',
+          status: ['todo', 'in-progress'],
+          tagsAny: ['tag-1', 'tag-2'],
+          sort: [{ field: 'priority', direction: 'desc' }],
+          fields: ['title', 'priority'],
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBeFalsy();
+        expect(parseToolResultText<{ tasks: Array<Partial<Task>> }>(toolResult).tasks).toEqual([
+          { id: 'task-2', title: 'Fix login bug', priority: 'urgent' },
+          { id: 'task-1', title: 'Design user interface', priority: 'high' },
+        ]);
+      });
+    });
+
+    it('should list unassigned tasks when the assignee is null', async () => {
+      await withServer(async server => {
+        await server.callTool('update_task', { taskId: 'task-2', assigneeId: null });
+
+        const result = await server.callTool('list_tasks', { assigneeId: null, fields: [] });
+        const { tasks } = parseToolResultText<{ tasks: Array<Partial<Task>> }>(
+          extractToolResult(result)
+        );
+        expect(tasks).toEqual([{ id: 'task-2' }]);
+      });
+    });
+  });
+
+  describe('search_tasks', () => {
+    it('should find tasks with a text query', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('search_tasks', {
+          query:
+            'status:todo priority:>=high assignee:@bob tag:backend due:<2024-03-01 "login bug"',
+        });
+
+        const { tasks } = parseToolResultText<{ tasks: Task[] }>(extractToolResult(result));
+        expect(tasks.map(task => task.id)).toEqual(['task-2']);
+      });
+    });
+
+    it('should return an error pointing at the bad token', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('search_tasks', { query: 'priority:>=hgh' });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toBe(
+          'Invalid query at column 1: "hgh" is not a priority; expected one of low, medium, high, urgent\n' +
+            'priority:>=hgh\n' +
+            '^^^^^^^^^^^^^^'
+        );
+      });
+    });
+  });
+
+  describe('update_task', () => {
+    it('should return an error naming a missing assignee', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('update_task', {
+          taskId: 'task-1',
+          assigneeId: 'user-missing',
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toBe(
+          'Invalid assigneeId: user "user-missing" does not exist'
+        );
+      });
+    });
+  });
+
+  describe('create_comment', () => {
+    it('should return an error naming a missing task', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('create_comment', {
+          taskId: 'task-missing',
+          userId: 'user-1',
+          content: 'Hello',
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toBe(
+          'Invalid taskId: task "task-missing" does not exist'
+        );
+      });
+    });
+  });
+
+  describe('create_project', () => {
+    it('should return an error naming a missing owner', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('create_project', {
+          name: 'Ownerless',
+          description: 'No owner',
+          ownerId: 'user-missing',
+          status: 'active',
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toBe(
+          'Invalid ownerId: user "user-missing" does not exist'
+        );
+      });
+    });
+  });
+
+  describe('get_entity_history', () => {
+    it('should list the revisions that changed a field', async () => {
+      await withServer(async server => {
+        await server.callTool('update_task', { taskId: 'task-1', priority: 'low' });
+        await server.callTool('update_task', { taskId: 'task-1', status: 'done' });
+
+        const result = await server.callTool('get_entity_history', {
+          entity: 'task',
+          id: 'task-1',
+          field: 'priority',
+        });
+        const revisions = parseToolResultText<Revision[]>(extractToolResult(result));
+        // The create sets every field, so it is listed too
+        expect(revisions.map(revision => revision.operation)).toEqual(['create', 'update']);
+        expect(revisions[1]?.changes).toContainEqual({
+          field: 'priority',
+          from: 'high',
+          to: 'low',
+        });
+      });
+    });
+
+    it('should expose the history as a resource', async () => {
+      await withServer(async server => {
+        await server.callTool('delete_task', { taskId: 'task-2' });
+
+        const result = await server.readResource('task-manager://tasks/task-2/history');
+        const resourceResult = extractResourceResult(result);
+        const revisions = JSON.parse(resourceResult.contents[0]!.text!) as Revision[];
+        expect(revisions.map(revision => revision.operation)).toEqual(['create', 'delete']);
+      });
+    });
+
+    it('should read a task as it was at an earlier time', async () => {
+      await withServer(async server => {
+        const before = new Date().toISOString();
+        await server.callTool('update_task', { taskId: 'task-1', title: 'Renamed' });
+
+        const result = await server.callTool('get_task', { taskId: 'task-1', asOf: before });
+        const task = parseToolResultText<Task>(extractToolResult(result));
+        expect(task.title).toBe('Design user interface');
+      });
+    });
+  });
+
+  describe('structured output', () => {
+    it('should return the task as structured content matching the text', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('update_task', { taskId: 'task-1', priority: 'low' });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.structuredContent).toEqual(parseToolResultText(toolResult));
+        expect(toolResult.structuredContent).toMatchObject({ id: 'task-1', priority: 'low' });
+      });
+    });
+
+    it('should wrap lists in an object keyed by the entity', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('get_tasks_by_tag', { tagId: 'tag-2' });
+
+        const toolResult = extractToolResult(result);
+        const page = parseToolResultText<{ tasks: Task[] }>(toolResult);
+        expect(page.tasks.map(task => task.id)).toEqual(['task-2']);
+        expect(toolResult.structuredContent).toEqual(page);
+      });
+    });
+
+    it('should return the deletion plan as structured content', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('delete_task', { taskId: 'task-1', dryRun: true });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.structuredContent).toMatchObject({
+          dryRun: true,
+          target: { entity: 'task', id: 'task-1' },
+        });
+      });
+    });
+
+    it('should not return structured content with an error', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('get_task', { taskId: 'task-missing' });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(toolResult.structuredContent).toBeUndefined();
+      });
+    });
+  });
+
+  describe('subtasks', () => {
+    const createSubtask = async (server: PersistentServer, title: string, parentTaskId: string) =>
+      parseToolResultText<Task>(
+        extractToolResult(
+          await server.callTool('create_task', {
+            title,
+            description: '',
+            projectId: 'project-1',
+            assigneeId: null,
+            status: 'done',
+            priority: 'low',
+            tags: [],
+            parentTaskId,
+          })
+        )
+      );
+
+    it('should list the subtree and roll up progress', async () => {
+      await withServer(async server => {
+        const mockups = await createSubtask(server, 'Draw mockups', 'task-1');
+        await createSubtask(server, 'Review mockups', mockups.id);
+
+        const children = extractToolResult(
+          await server.callTool('get_subtasks', { taskId: 'task-1' })
+        );
+        expect(
+          parseToolResultText<{ tasks: Task[] }>(children).tasks.map(task => task.title)
+        ).toEqual(['Draw mockups']);
+
+        const subtree = extractToolResult(
+          await server.callTool('get_task_subtree', { taskId: 'task-1' })
+        );
+        expect(
+          parseToolResultText<{ subtasks: Array<{ task: Task; depth: number }> }>(
+            subtree
+          ).subtasks.map(({ task, depth }) => [task.title, depth])
+        ).toEqual([
+          ['Draw mockups', 1],
+          ['Review mockups', 2],
+        ]);
+
+        const progress = extractToolResult(
+          await server.callTool('get_task_progress', { taskId: 'task-1' })
+        );
+        expect(progress.structuredContent).toMatchObject({ subtasks: 2, percentComplete: 100 });
+      });
+    });
+
+    it('should show the tree in the task details prompt', async () => {
+      await withServer(async server => {
+        const mockups = await createSubtask(server, 'Draw mockups', 'task-1');
+        await createSubtask(server, 'Review mockups', mockups.id);
+
+        const result = await server.getPrompt('get_task_details', { taskId: 'task-1' });
+
+        const text = extractPromptResult(result).messages[0]?.content.text;
+        expect(text).toContain('Parent Task: None');
+        expect(text).toContain(
+          `Subtasks: 2 (100% complete)\n- [done] Draw mockups (${mockups.id})\n  - [done] Review mockups`
+        );
+      });
+    });
+
+    it('should refuse to make a task a subtask of its own subtask', async () => {
+      await withServer(async server => {
+        const mockups = await createSubtask(server, 'Draw mockups', 'task-1');
+
+        const result = await server.callTool('update_task', {
+          taskId: 'task-1',
+          parentTaskId: mockups.id,
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toContain(
+          `task "${mockups.id}" is a subtask of task "task-1"`
+        );
+      });
+    });
+
+    it('should apply the subtasks policy when deleting a task', async () => {
+      await withServer(async server => {
+        const mockups = await createSubtask(server, 'Draw mockups', 'task-1');
+
+        await server.callTool('delete_task', {
+          taskId: 'task-1',
+          subtasks: { action: 'set-null' },
+        });
+
+        const result = await server.callTool('get_task', { taskId: mockups.id });
+        expect(parseToolResultText<Task>(extractToolResult(result)).parentTaskId).toBeNull();
+      });
+    });
+  });
+
+  describe('dependencies', () => {
+    const createBlockedTask = async (server: PersistentServer, blockedBy: string[]) =>
+      parseToolResultText<Task>(
+        extractToolResult(
+          await server.callTool('create_task', {
+            title: 'Release',
+            description: '',
+            projectId: 'project-1',
+            status: 'todo',
+            priority: 'high',
+            blockedBy,
+          })
+        )
+      );
+
+    it('should refuse to start a blocked task unless forced', async () => {
+      await withServer(async server => {
+        const release = await createBlockedTask(server, ['task-2']);
+
+        const refused = extractToolResult(
+          await server.callTool('update_task', { taskId: release.id, status: 'in-progress' })
+        );
+        expect(refused.isError).toBe(true);
+        expect(getToolResultText(refused)).toBe(
+          `Cannot move task "${release.id}" to in-progress while task "task-2" is not done; force the update to override`
+        );
+
+        const forced = extractToolResult(
+          await server.callTool('update_task', {
+            taskId: release.id,
+            status: 'in-progress',
+            force: true,
+          })
+        );
+        expect(forced.structuredContent).toMatchObject({ status: 'in-progress' });
+        expect(forced.structuredContent).not.toHaveProperty('force');
+      });
+    });
+
+    it('should refuse a dependency cycle', async () => {
+      await withServer(async server => {
+        const release = await createBlockedTask(server, ['task-2']);
+
+        const result = await server.callTool('update_task', {
+          taskId: 'task-2',
+          blockedBy: [release.id],
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toContain('would wait on itself');
+      });
+    });
+
+    it('should list blocked tasks and the critical path', async () => {
+      await withServer(async server => {
+        const release = await createBlockedTask(server, ['task-2']);
+
+        const blocked = extractToolResult(
+          await server.callTool('get_blocked_tasks', { projectId: 'project-1' })
+        );
+        const page = parseToolResultText<{ blocked: Array<{ task: Task; blockers: Task[] }> }>(
+          blocked
+        );
+        expect(
+          page.blocked.map(({ task, blockers }) => [task.id, blockers.map(b => b.id)])
+        ).toEqual([[release.id, ['task-2']]]);
+
+        const path = extractToolResult(
+          await server.callTool('get_critical_path', { projectId: 'project-1' })
+        );
+        expect(parseToolResultText<{ tasks: Task[] }>(path).tasks.map(task => task.id)).toEqual([
+          'task-2',
+          release.id,
+        ]);
+      });
+    });
+
+    it('should show the blockers in the task details prompt', async () => {
+      await withServer(async server => {
+        const release = await createBlockedTask(server, ['task-2']);
+
+        const result = await server.getPrompt('get_task_details', { taskId: release.id });
+
+        const text = extractPromptResult(result).messages[0]?.content.text;
+        expect(text).toContain('Blocked By: [todo] Fix login bug (task-2)');
+      });
+    });
+  });
+
+  describe('workflows', () => {
+    const createKanbanTask = async (server: PersistentServer) => {
+      const project = parseToolResultText<{ id: string }>(
+        extractToolResult(
+          await server.callTool('create_project', {
+            name: 'Kanban',
+            description: '',
+            ownerId: 'user-1',
+            status: 'active',
+            workflow: {
+              statuses: [
+                { name: 'backlog', category: 'todo' },
+                { name: 'review', category: 'in-progress', transitions: ['shipped'] },
+                { name: 'shipped', category: 'done', transitions: [] },
+              ],
+            },
+          })
+        )
+      );
+      return parseToolResultText<Task>(
+        extractToolResult(
+          await server.callTool('create_task', {
+            title: 'Ship it',
+            description: '',
+            projectId: project.id,
+            status: 'review',
+            priority: 'medium',
+          })
+        )
+      );
+    };
+
+    it('should enforce the transitions of the project workflow', async () => {
+      await withServer(async server => {
+        const task = await createKanbanTask(server);
+
+        const refused = extractToolResult(
+          await server.callTool('update_task', { taskId: task.id, status: 'backlog' })
+        );
+        expect(refused.isError).toBe(true);
+        expect(getToolResultText(refused)).toBe(
+          `Cannot move task "${task.id}" from review to backlog; review only moves to shipped`
+        );
+
+        const shipped = extractToolResult(
+          await server.callTool('update_task', { taskId: task.id, status: 'shipped' })
+        );
+        expect(shipped.structuredContent).toMatchObject({ status: 'shipped' });
+      });
+    });
+
+    it('should refuse a status the workflow does not have', async () => {
+      await withServer(async server => {
+        const task = await createKanbanTask(server);
+
+        const result = await server.callTool('create_task', {
+          title: 'Misfiled',
+          description: '',
+          projectId: task.projectId,
+          status: 'todo',
+          priority: 'low',
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toContain('expected one of backlog, review, shipped');
+      });
+    });
+
+    it('should show the workflow in the project details prompt', async () => {
+      await withServer(async server => {
+        const task = await createKanbanTask(server);
+
+        const result = await server.getPrompt('get_project_details', {
+          projectId: task.projectId,
+        });
+
+        const text = extractPromptResult(result).messages[0]?.content.text;
+        expect(text).toContain(
+          'Workflow:\n- backlog (todo) → any status\n- review (in-progress) → shipped\n- shipped (done) → nothing'
+        );
+      });
+    });
+  });
+
+  describe('fuzzy lookup', () => {
+    it('should suggest similar tasks when one is not found', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('get_task', { taskId: 'task_2' });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toBe(
+          'Task not found; did you mean "task-2" (Fix login bug) or "task-1" (Design user interface)?'
+        );
+      });
+    });
+
+    it('should suggest similar projects in prompts', async () => {
+      await withServer(async server => {
+        const result = await server.getPrompt('get_tasks_by_project', { projectId: 'projet-1' });
+
+        const text = extractPromptResult(result).messages[0]?.content.text;
+        expect(text).toBe(
+          'Project with ID "projet-1" not found; did you mean "project-1" (Web Application)?'
+        );
+      });
+    });
+
+    it('should complete task IDs from titles and near misses', async () => {
+      await withServer(async server => {
+        const byTitle = await server.getCompletion(
+          'taskId',
+          'Fix',
+          'ref/prompt',
+          'get_task_details'
+        );
+        expect(extractCompletion(byTitle).completion.values).toEqual(['task-2']);
+
+        const byTypo = await server.getCompletion(
+          'projectId',
+          'Web Aplication',
+          'ref/prompt',
+          'get_tasks_by_project'
+        );
+        expect(extractCompletion(byTypo).completion.values).toEqual(['project-1']);
+      });
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import type { Project, Tag, Task } from '../../../src/types.js';
+import {
+  extractToolResult,
+  getToolResultText,
+  parseToolResultText,
+  withServer,
+} from '../helpers/inspector-cli.js';
+
+describe('Transaction Tools', () => {
+  describe('run_transaction', () => {
+    it('should apply every operation and resolve references to earlier results', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('run_transaction', {
+          operations: [
+            {
+              tool: 'create_project',
+              arguments: {
+                name: 'Launch',
+                description: 'Launch plan',
+                ownerId: 'user-1',
+                status: 'active',
+              },
+            },
+            {
+              tool: 'create_task',
+              arguments: {
+                title: 'Announce',
+                description: 'Write the announcement',
+                projectId: { ref: '$0.id' },
+                status: 'todo',
+                priority: 'medium',
+                tags: ['tag-1'],
+              },
+            },
+            { tool: 'update_task', arguments: { taskId: { ref: '$1.id' }, status: 'in-progress' } },
+          ],
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBeFalsy();
+        const { committed, results } = parseToolResultText<{
+          committed: boolean;
+          results: [Project, Task, Task];
+        }>(toolResult);
+        expect(committed).toBe(true);
+        expect(results[1].projectId).toBe(results[0].id);
+
+        const task = await server.callTool('get_task', { taskId: results[1].id });
+        expect(parseToolResultText<Task>(extractToolResult(task)).status).toBe('in-progress');
+      });
+    });
+
+    it('should pass strings that look like references on unchanged', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('run_transaction', {
+          operations: [
+            { tool: 'create_tag', arguments: { name: 'Launch', color: '#00ff00' } },
+            {
+              tool: 'create_task',
+              arguments: {
+                title: '$0.id',
+                description: 'Literal text',
+                projectId: 'project-1',
+                status: 'todo',
+                priority: 'low',
+                tags: [{ ref: '$0.id' }],
+              },
+            },
+          ],
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBeFalsy();
+        const { results } = parseToolResultText<{ results: [Tag, Task] }>(toolResult);
+        expect(results[1].title).toBe('$0.id');
+        expect(results[1].tags).toEqual([results[0].id]);
+      });
+    });
+
+    it('should roll back every operation when one fails', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('run_transaction', {
+          operations: [
+            { tool: 'update_task', arguments: { taskId: 'task-1', status: 'done' } },
+            { tool: 'delete_tag', arguments: { tagId: 'tag-3' } },
+            { tool: 'create_task', arguments: { title: 'Missing fields' } },
+          ],
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toContain(
+          'Transaction rolled back: operation 2 (create_task) failed'
+        );
+
+        const task = await server.callTool('get_task', { taskId: 'task-1' });
+        expect(parseToolResultText<Task>(extractToolResult(task)).status).toBe('in-progress');
+        const tag = await server.callTool('get_tag', { tagId: 'tag-3' });
+        expect(extractToolResult(tag).isError).toBeFalsy();
+      });
+    });
+
+    it('should report results without applying them on a dry run', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('run_transaction', {
+          operations: [{ tool: 'delete_project', arguments: { projectId: 'project-1' } }],
+          dryRun: true,
+        });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBeFalsy();
+        expect(parseToolResultText<{ dryRun: boolean }>(toolResult).dryRun).toBe(true);
+
+        const project = await server.callTool('get_project', { projectId: 'project-1' });
+        expect(extractToolResult(project).isError).toBeFalsy();
+      });
+    });
+  });
+});
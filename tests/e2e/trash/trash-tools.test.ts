@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import type { Comment, EntityRef, TrashEntry } from '../../../src/types.js';
+import {
+  extractToolResult,
+  getToolResultText,
+  parseToolResultText,
+  withServer,
+} from '../helpers/inspector-cli.js';
+
+describe('Trash Tools', () => {
+  describe('restore_entity', () => {
+    it('should restore a deleted task together with its comments', async () => {
+      await withServer(async server => {
+        await server.callTool('delete_task', { taskId: 'task-1' });
+
+        const trash = await server.callTool('list_trash', {});
+        const { trash: entries } = parseToolResultText<{ trash: TrashEntry[] }>(
+          extractToolResult(trash)
+        );
+        expect(entries.map(entry => entry.id).sort()).toEqual(['comment-1', 'task-1']);
+
+        const result = await server.callTool('restore_entity', { entity: 'task', id: 'task-1' });
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBeFalsy();
+        const { restored } = parseToolResultText<{ restored: EntityRef[] }>(toolResult);
+        expect(restored).toHaveLength(2);
+
+        const comments = await server.callTool('get_comments_by_task', { taskId: 'task-1' });
+        const { comments: restoredComments } = parseToolResultText<{ comments: Comment[] }>(
+          extractToolResult(comments)
+        );
+        expect(restoredComments.map(comment => comment.id)).toEqual(['comment-1']);
+      });
+    });
+
+    it('should return an error for a record that is not in the trash', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('restore_entity', { entity: 'task', id: 'task-1' });
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toBe('Task not found in trash');
+      });
+    });
+  });
+
+  describe('purge_trash', () => {
+    it('should permanently delete trashed records when the user confirms', async () => {
+      await withServer(async server => {
+        await server.callTool('delete_task', { taskId: 'task-2' });
+
+        const purgePromise = server.callTool('purge_trash', {});
+        const elicitationId = await server.waitForElicitation(2000);
+        expect(elicitationId).not.toBeNull();
+        if (elicitationId !== null) {
+          await server.respondToElicitation(elicitationId, {
+            action: 'accept',
+            content: { confirm: true },
+          });
+        }
+
+        const toolResult = extractToolResult(await purgePromise);
+        const { purged } = parseToolResultText<{ purged: EntityRef[] }>(toolResult);
+        expect(purged).toEqual([{ entity: 'task', id: 'task-2' }]);
+
+        const trash = await server.callTool('list_trash', {});
+        expect(
+          parseToolResultText<{ trash: TrashEntry[] }>(extractToolResult(trash)).trash
+        ).toHaveLength(0);
+      });
+    });
+
+    it('should list what would be purged on a dry run', async () => {
+      await withServer(async server => {
+        await server.callTool('delete_task', { taskId: 'task-1' });
+
+        const result = await server.callTool('purge_trash', {
+          entity: 'task',
+          id: 'task-1',
+          dryRun: true,
+        });
+        const { purged } = parseToolResultText<{ purged: EntityRef[] }>(extractToolResult(result));
+        expect(purged).toHaveLength(2);
+
+        const trash = await server.callTool('list_trash', {});
+        expect(
+          parseToolResultText<{ trash: TrashEntry[] }>(extractToolResult(trash)).trash
+        ).toHaveLength(2);
+      });
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { Comment, Project, Task } from '../../../src/types.js';
+import {
+  extractToolResult,
+  getToolResultText,
+  parseToolResultText,
+  withServer,
+} from '../helpers/inspector-cli.js';
+
+describe('Undo Tools', () => {
+  describe('undo_last_change', () => {
+    it('should undo a cascaded project delete, restoring its tasks and comments', async () => {
+      await withServer(async server => {
+        await server.callTool('delete_project', {
+          projectId: 'project-1',
+          projectTasks: { action: 'cascade' },
+        });
+
+        const result = await server.callTool('undo_last_change', {});
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBeFalsy();
+        expect(parseToolResultText<{ message: string }>(toolResult).message).toBe(
+          'Undid delete_project'
+        );
+
+        const project = await server.callTool('get_project', { projectId: 'project-1' });
+        expect(parseToolResultText<Project>(extractToolResult(project)).id).toBe('project-1');
+        const tasks = await server.callTool('get_tasks_by_project', { projectId: 'project-1' });
+        expect(parseToolResultText<{ tasks: Task[] }>(extractToolResult(tasks)).tasks).toHaveLength(
+          2
+        );
+        const comments = await server.callTool('get_comments_by_task', { taskId: 'task-1' });
+        const restored = parseToolResultText<{ comments: Comment[] }>(
+          extractToolResult(comments)
+        ).comments;
+        expect(restored.map(comment => comment.id)).toEqual(['comment-1']);
+      });
+    });
+
+    it('should return an error when there is nothing to undo', async () => {
+      await withServer(async server => {
+        await server.callTool('update_task', { taskId: 'task-1', priority: 'low' });
+        await server.callTool('undo_last_change', {});
+
+        const result = await server.callTool('undo_last_change', {});
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toBe('Nothing to undo');
+      });
+    });
+  });
+
+  describe('redo_change', () => {
+    it('should reapply an undone update', async () => {
+      await withServer(async server => {
+        await server.callTool('update_task', { taskId: 'task-1', status: 'done' });
+        await server.callTool('undo_last_change', {});
+
+        const undone = await server.callTool('get_task', { taskId: 'task-1' });
+        expect(parseToolResultText<Task>(extractToolResult(undone)).status).toBe('in-progress');
+
+        const result = await server.callTool('redo_change', {});
+        expect(extractToolResult(result).isError).toBeFalsy();
+        const redone = await server.callTool('get_task', { taskId: 'task-1' });
+        expect(parseToolResultText<Task>(extractToolResult(redone)).status).toBe('done');
+      });
+    });
+  });
+});
@@ -7,6 +7,7 @@ import {
   extractPromptsList,
   extractCompletion,
   withServer,
+  CLEAR_EVERYTHING,
 } from '../helpers/inspector-cli.js';
 
 describe('User Prompts', () => {
@@ -14,7 +15,10 @@ describe('User Prompts', () => {
     // Clear users before each test
     const allUsers = db.getAllUsers();
     allUsers.forEach(user => {
-      db.deleteUser(user.id);
+      db.deleteUser(user.id, {
+        projectOwner: { action: 'cascade' },
+        commentAuthor: { action: 'cascade' },
+      });
     });
   });
 
@@ -151,7 +155,7 @@ describe('User Prompts', () => {
     it('should provide completion suggestions when typing partial user ID', async () => {
       await withServer(async server => {
         // Clear all users first
-        await server.callTool('clear_all_users', {});
+        await server.callTool('clear_all_users', CLEAR_EVERYTHING);
 
         // Create users with different ID patterns for testing
         const user1Result = await server.callTool('create_user', {
@@ -203,7 +207,7 @@ describe('User Prompts', () => {
     it('should provide completion using completion/complete API format', async () => {
       await withServer(async server => {
         // Clear all users first
-        await server.callTool('clear_all_users', {});
+        await server.callTool('clear_all_users', CLEAR_EVERYTHING);
 
         // Create users for testing
         const user1Result = await server.callTool('create_user', {
@@ -282,7 +286,7 @@ describe('User Prompts', () => {
     it('should fail if completion returns empty when users exist', async () => {
       await withServer(async server => {
         // Clear all users first
-        await server.callTool('clear_all_users', {});
+        await server.callTool('clear_all_users', CLEAR_EVERYTHING);
 
         // Create a user
         const userResult = await server.callTool('create_user', {
@@ -313,7 +317,7 @@ describe('User Prompts', () => {
     it('should return message when no users exist', async () => {
       await withServer(async server => {
         // Clear all users first
-        await server.callTool('clear_all_users', {});
+        await server.callTool('clear_all_users', CLEAR_EVERYTHING);
 
         const result = await server.getPrompt('list_all_users', {});
         const promptResult = extractPromptResult(result);
@@ -6,6 +6,7 @@ import {
   extractResourcesList,
   parseResourceError,
   withServer,
+  CLEAR_EVERYTHING,
 } from '../helpers/inspector-cli.js';
 
 describe('User Resources', () => {
@@ -13,7 +14,10 @@ describe('User Resources', () => {
     // Clear users before each test
     const allUsers = db.getAllUsers();
     allUsers.forEach(user => {
-      db.deleteUser(user.id);
+      db.deleteUser(user.id, {
+        projectOwner: { action: 'cascade' },
+        commentAuthor: { action: 'cascade' },
+      });
     });
   });
 
@@ -21,7 +25,7 @@ describe('User Resources', () => {
     it('should read All Users resource when empty', async () => {
       await withServer(async server => {
         // Clear all users first
-        await server.callTool('clear_all_users', {});
+        await server.callTool('clear_all_users', CLEAR_EVERYTHING);
 
         const result = await server.readResource('user-manager://users');
         const resourceResult = extractResourceResult(result);
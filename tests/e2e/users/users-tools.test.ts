@@ -6,6 +6,7 @@ import {
   parseToolResultText,
   getToolResultText,
   withServer,
+  CLEAR_EVERYTHING,
 } from '../helpers/inspector-cli.js';
 
 describe('User Tools', () => {
@@ -13,7 +14,10 @@ describe('User Tools', () => {
     // Clear users before each test
     const allUsers = db.getAllUsers();
     allUsers.forEach(user => {
-      db.deleteUser(user.id);
+      db.deleteUser(user.id, {
+        projectOwner: { action: 'cascade' },
+        commentAuthor: { action: 'cascade' },
+      });
     });
   });
 
@@ -105,14 +109,14 @@ describe('User Tools', () => {
   });
 
   describe('list_users', () => {
-    it('should return empty array when no users exist', async () => {
+    it('should return an empty page when no users exist', async () => {
       await withServer(async server => {
         // Clear all users first
-        await server.callTool('clear_all_users', {});
+        await server.callTool('clear_all_users', CLEAR_EVERYTHING);
 
         const result = await server.callTool('list_users', {});
         const toolResult = extractToolResult(result);
-        const users = parseToolResultText<Array<unknown>>(toolResult);
+        const { users } = parseToolResultText<{ users: unknown[] }>(toolResult);
         expect(Array.isArray(users)).toBe(true);
         expect(users.length).toBe(0);
       });
@@ -138,7 +142,9 @@ describe('User Tools', () => {
         // List users
         const listResult = await server.callTool('list_users', {});
         const listToolResult = extractToolResult(listResult);
-        const users = parseToolResultText<Array<{ id: string; name: string }>>(listToolResult);
+        const { users } = parseToolResultText<{ users: Array<{ id: string; name: string }> }>(
+          listToolResult
+        );
         expect(Array.isArray(users)).toBe(true);
         expect(users.length).toBeGreaterThanOrEqual(2);
 
@@ -178,11 +184,83 @@ describe('User Tools', () => {
         // List users
         const listResult = await server.callTool('list_users', {});
         const listToolResult = extractToolResult(listResult);
-        const users = parseToolResultText<Array<{ id: string }>>(listToolResult);
+        const { users } = parseToolResultText<{ users: Array<{ id: string }> }>(listToolResult);
         expect(users.length).toBeGreaterThanOrEqual(1);
         const userIds = users.map((u: { id: string }) => u.id);
         expect(userIds).toContain(createdUser.id);
       });
     });
   });
+
+  describe('clear_all_users', () => {
+    it('should refuse to clear users still referenced under a restrict policy', async () => {
+      await withServer(async server => {
+        const blocked = extractToolResult(await server.callTool('clear_all_users', {}));
+        expect(blocked.isError).toBe(true);
+        expect(getToolResultText(blocked)).toContain('Cannot delete every user');
+
+        const dryRun = parseToolResultText<{ dryRun: boolean; deleted: unknown[] }>(
+          extractToolResult(
+            await server.callTool('clear_all_users', { ...CLEAR_EVERYTHING, dryRun: true })
+          )
+        );
+        expect(dryRun.dryRun).toBe(true);
+        expect(dryRun.deleted).toContainEqual({ entity: 'project', id: 'project-1' });
+
+        const projects = await server.callTool('get_project', { projectId: 'project-1' });
+        expect(extractToolResult(projects).isError).toBeUndefined();
+      });
+    });
+  });
+
+  describe('delete_user', () => {
+    it('should list affected records on a dry run without deleting', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('delete_user', {
+          userId: 'user-1',
+          projectOwner: { action: 'cascade' },
+          commentAuthor: { action: 'cascade' },
+          dryRun: true,
+        });
+
+        const toolResult = extractToolResult(result);
+        const plan = parseToolResultText<{
+          dryRun: boolean;
+          deleted: Array<{ entity: string; id: string }>;
+          blockedBy: unknown[];
+        }>(toolResult);
+        expect(plan.dryRun).toBe(true);
+        expect(plan.deleted).toContainEqual({ entity: 'project', id: 'project-1' });
+        expect(plan.deleted).toContainEqual({ entity: 'comment', id: 'comment-1' });
+        expect(plan.blockedBy).toEqual([]);
+
+        const getResult = await server.callTool('get_user', { userId: 'user-1' });
+        expect(extractToolResult(getResult).isError).toBeUndefined();
+      });
+    });
+
+    it('should refuse to delete a user blocked by a restrict policy', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('delete_user', { userId: 'user-1' });
+
+        const toolResult = extractToolResult(result);
+        expect(toolResult.isError).toBe(true);
+        expect(getToolResultText(toolResult)).toContain('project "project-1" (projectOwner)');
+      });
+    });
+
+    it('should unassign tasks when deleting a user', async () => {
+      await withServer(async server => {
+        const result = await server.callTool('delete_user', { userId: 'user-2' });
+        const data = parseToolResultText<{ success: boolean }>(extractToolResult(result));
+        expect(data.success).toBe(true);
+
+        const taskResult = await server.callTool('get_task', { taskId: 'task-2' });
+        const task = parseToolResultText<{ assigneeId: string | null }>(
+          extractToolResult(taskResult)
+        );
+        expect(task.assigneeId).toBeNull();
+      });
+    });
+  });
 });